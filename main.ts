@@ -19,6 +19,11 @@ import taskPlannerRoutes from './src/routes/taskPlannerRoutes.js';
 import taskRoutes from './src/routes/taskRoutes.js';
 import tourPlanRoutes from './src/routes/tourPlanRoutes.js';
 import hospitalRoutes from './src/routes/hospitalRoute.js';
+import platformRoutes from './src/routes/platformRoutes.js';
+import territoryRoutes from './src/routes/territoryRoutes.js';
+import teamRoutes from './src/routes/teamRoutes.js';
+import { startEmailOutboxWorker } from './src/services/EmailService.js';
+import { configureTrustProxy } from './src/utils/trustProxy.js';
 
 
 dotenv.config();
@@ -26,6 +31,9 @@ dotenv.config();
 const app = express();
 const schemaService = SchemaManagementService.getInstance();
 
+// Behind Heroku's router req.ip must come from X-Forwarded-For, or every client shares one address
+configureTrustProxy(app);
+
 app.use(cors({
   origin: '*', // In production, specify your app's URL
   credentials: true
@@ -69,6 +77,10 @@ app.use('/api/drugs', drugRoutes);
 app.use('/uploads', express.static('uploads'));
 app.use('/api/hospitals', hospitalRoutes);
 
+// Territory Routes
+app.use('/api/territories', territoryRoutes);
+app.use('/api/teams', teamRoutes);
+
 // RCPA Routes
 app.use('/api/rcpa', rcpaRoutes);
 
@@ -87,6 +99,9 @@ app.use('/api/tasks', taskRoutes);
 // Tour Plan Routes
 app.use('/api/tourPlan', tourPlanRoutes);
 
+// Platform (super-admin) Routes
+app.use('/api/platform', platformRoutes);
+
 // 404 Not Found handler
 app.use((req, res) => {
   res.status(404).json({
@@ -126,9 +141,13 @@ const server = app.listen(port, '0.0.0.0', () => {
   console.log(`Server running on port ${port}`);
 });
 
+// Retry emails whose first delivery attempt failed
+const stopEmailOutboxWorker = startEmailOutboxWorker();
+
 // Graceful shutdown procedures
 const gracefulShutdown = async (signal: string) => {
   console.log(`\n${signal} signal received: closing HTTP server`);
+  stopEmailOutboxWorker();
   server.close(async () => {
     console.log('HTTP server closed');
     try {
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { API_KEY_SCOPES, ApiKeyError, createApiKey, listApiKeys, revokeApiKey } from '../services/ApiKeyService.js';
+
+const handleApiKeyError = (res: Response, error: any, action: string) => {
+    if (error instanceof ApiKeyError) {
+        return res.status(error.statusCode).json({
+            success: false,
+            message: error.message
+        });
+    }
+
+    console.error(`${action} error:`, error);
+    return res.status(500).json({
+        success: false,
+        message: `Failed to ${action.toLowerCase()}`,
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+};
+
+/**
+ * GET /api/organizations/api-keys
+ * Lists the organization's API keys (never the keys themselves) and the scopes a key can hold.
+ */
+export const listApiKeysController = async (req: Request, res: Response) => {
+    try {
+        const apiKeys = await listApiKeys(req.user!.organizationId);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                apiKeys,
+                availableScopes: API_KEY_SCOPES
+            }
+        });
+    } catch (error) {
+        handleApiKeyError(res, error, 'List API keys');
+    }
+};
+
+/**
+ * POST /api/organizations/api-keys
+ * Body: { name: string, scopes: string[], expiresAt?: ISO date }
+ * Creates an API key. The key is only returned in this response; send it as the X-API-Key header.
+ */
+export const createApiKeyController = async (req: Request, res: Response) => {
+    try {
+        const { name, scopes, expiresAt } = req.body || {};
+
+        const { apiKey, key } = await createApiKey(
+            req.user!.organizationId,
+            { name, scopes, expiresAt: expiresAt ? new Date(expiresAt) : undefined },
+            req.user!.employeeId
+        );
+
+        return res.status(201).json({
+            success: true,
+            message: 'API key created. Store it now; it cannot be shown again.',
+            data: {
+                ...apiKey,
+                key
+            }
+        });
+    } catch (error) {
+        handleApiKeyError(res, error, 'Create API key');
+    }
+};
+
+/**
+ * POST /api/organizations/api-keys/:keyId/revoke
+ * Revokes an API key immediately.
+ */
+export const revokeApiKeyController = async (req: Request, res: Response) => {
+    try {
+        const apiKey = await revokeApiKey(req.user!.organizationId, req.params.keyId, req.user!.email);
+
+        return res.status(200).json({
+            success: true,
+            message: 'API key revoked',
+            data: apiKey
+        });
+    } catch (error) {
+        handleApiKeyError(res, error, 'Revoke API key');
+    }
+};
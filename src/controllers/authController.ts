@@ -1,11 +1,28 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { OAuth2Client } from 'google-auth-library';
-import nodemailer from 'nodemailer';
-import { EmailHelper } from '../utils/emailHelper.js';
 import SchemaManagementService from '../services/SchemaManagementService.js';
-import juice from 'juice';
+import { invalidateUserContext } from '../services/TenantContextCache.js';
+import { createSession, getSessionDevice, revokeSessions } from '../services/SessionService.js';
+import { consumeUserToken, getLatestUserTokenIssuedAt, issueUserToken, UserTokenError, verifyUserToken } from '../services/UserTokenService.js';
+import { provisionUser, ProvisioningError } from '../services/UserProvisioningService.js';
+import { EmployeeImportError, importEmployees, validateEmployeeImport } from '../services/EmployeeImportService.js';
+import { getLoginBlock, LoginAttemptRecord, LoginBlock, recordLoginAttempt, unlockAccount } from '../services/LoginThrottleService.js';
+import { resolveOrganizationSettings } from '../services/OrganizationSettingsService.js';
+import { sendEmail } from '../services/EmailService.js';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  getTwoFactorStatus,
+  isTwoFactorRole,
+  issueTwoFactorChallenge,
+  readTwoFactorChallenge,
+  TwoFactorChallenge,
+  TwoFactorError,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  verifyTwoFactorCode
+} from '../services/TwoFactorService.js';
+import { Prisma } from '../../generated/prisma-shared/index.js';
 
 
 const googleClient = new OAuth2Client(process.env.GOOGLE_WEB_CLIENT_ID);
@@ -17,17 +34,52 @@ const validGoogleClientIds = [
   process.env.GOOGLE_ANDROID_CLIENT_ID,
 ].filter(Boolean) as string[];
 
-// Configure nodemailer transporter
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASSWORD,
-  },
-});
-
 const schemaService = SchemaManagementService.getInstance();
 
+// How long an activation link stays valid
+const ACTIVATION_TOKEN_TTL_MS = (parseInt(process.env.ACTIVATION_TOKEN_TTL_HOURS || '', 10) || 72) * 60 * 60 * 1000;
+// Minimum gap between two activation emails to the same address
+const ACTIVATION_RESEND_INTERVAL_MS = 60 * 1000;
+
+// How long a password reset link stays valid
+const PASSWORD_RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '', 10) || 60;
+// Minimum gap between two password reset emails to the same address
+const PASSWORD_RESET_REQUEST_INTERVAL_MS = 60 * 1000;
+
+interface ActivationEmailRecipient {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  role: string;
+  organizationId: string;
+  organizationName: string;
+}
+
+/**
+ * Issues a fresh activation token (revoking earlier ones) and emails the activation link.
+ * @returns Whether the email went out now; otherwise the outbox keeps retrying it.
+ */
+const sendActivationEmail = async (recipient: ActivationEmailRecipient): Promise<boolean> => {
+  const token = await issueUserToken(recipient.email, 'ACTIVATION', ACTIVATION_TOKEN_TTL_MS);
+  const activationLink = `${process.env.FRONTEND_URL}/activate-account?token=${encodeURIComponent(token)}`;
+
+  const { sent } = await sendEmail('activation', recipient.email, {
+    userName: (recipient.firstName || recipient.email) + (recipient.lastName ? ` ${recipient.lastName}` : ''),
+    userEmail: recipient.email,
+    organizationName: recipient.organizationName,
+    role: recipient.role,
+    activationUrl: activationLink
+  }, { organizationId: recipient.organizationId });
+
+  return sent;
+};
+
+/**
+ * POST /api/user/create
+ * Body (multipart): { email, role, firstName, password?, lastName?, phone?, employeeCode?, city?, state?, image? }
+ * Creates an inactive user in the caller's organization (shared User and tenant Employee) and
+ * emails the activation link.
+ */
 export const createUserController = async (req: Request, res: Response) => {
   try {
     const {
@@ -43,168 +95,218 @@ export const createUserController = async (req: Request, res: Response) => {
       state
     } = req.body;
 
-    console.log("Create user request received");
-    console.log("Request body:", req.body);
-
     const imagePath = req.file ? `/uploads/${req.file.filename}` : null;
 
-    console.log("Image path:", imagePath);
-
-    // Validate required fields
-    // if (!organizationName || !email || !password || !role || !firstName) {
-    //   return res.status(400).json({
-    //     success: false,
-    //     message: "organizationName, email, password, role, firstName are required"
-    //   });
-    // }
+    if (!email || !role || !firstName) {
+      return res.status(400).json({
+        success: false,
+        message: "email, role and firstName are required"
+      });
+    }
 
-    // Find organization
     const org = await schemaService.sharedDb.organization.findUnique({
-      where: {
-        name: organizationName
-      },
-      select: {
-        id: true,
-        schemaName: true,
-        name: true
-      }
+      where: { id: req.user!.organizationId },
+      select: { id: true, name: true }
     });
 
     if (!org) {
-      return res.status(400).json({
+      return res.status(404).json({
         success: false,
-        message: "Organization doesn't exist, please create one first"
+        message: "Organization not found"
       });
     }
 
-    // // Check if user already exists in shared database
-    // const existingUser = await schemaService.sharedDb.user.findUnique({
-    //   where: { email }
-    // });
-
-    // if (existingUser) {
-    //   return res.status(400).json({
-    //     success: false,
-    //     message: "User with this email already exists"
-    //   });
-    // }
-
-    // // Get tenant database
-    // const schemaName = org.schemaName;
-    // if (!schemaName) {
-    //   return res.status(400).json({
-    //     success: false,
-    //     message: "create schema for this organization"
-    //   });
-    // }
-    // const tenantDb = await schemaService.getTenantClient(schemaName);
-
-    // // Hash password
-    // const hashedPassword = await bcrypt.hash(password, 10);
-
-    // // Create user in shared database (inactive by default)
-    // const newUser = await schemaService.sharedDb.user.create({
-    //   data: {
-    //     organizationId: org.id,
-    //     email,
-    //     password: hashedPassword,
-    //     role,
-    //     isActive: false,
-    //   }
-    // });
-
-    // // Create employee in tenant database
-    // const newEmployee = await tenantDb.employee.create({
-    //   data: {
-    //     organizationId: org.id,
-    //     email,
-    //     passwordHash: hashedPassword,
-    //     firstName,
-    //     lastName,
-    //     phone,
-    //     role,
-    //     employeeCode,
-    //     city,
-    //     state,
-    //     isActive: false,
-    //     profilePic: imagePath,
-    //   }
-    // });
-
-    // Generate activation link (simple link with email parameter)
-    const activationLink = `${process.env.FRONTEND_URL}/activate-account?email=${encodeURIComponent(email)}`;
-
-    const htmlContent = await EmailHelper.loadActivationTemplate({
-      userName: firstName + (lastName ? ` ${lastName}` : ''),
-      userEmail: email,
-      userDepartment: org.name, // or any department field
-      userRole: role,
-      resetUrl: activationLink,
-      companyName: process.env.APP_NAME || 'ForPharma'
+    // Users can only be created in the caller's own organization
+    if (organizationName && organizationName !== org.name) {
+      return res.status(403).json({
+        success: false,
+        message: "Users can only be created in your own organization"
+      });
+    }
+
+    const { user } = await provisionUser(org.id, {
+      email,
+      password,
+      role,
+      firstName,
+      lastName,
+      phone,
+      employeeCode,
+      city,
+      state,
+      profilePic: imagePath
     });
 
-    const inlinedHtmlContent = juice(htmlContent, {
-      applyStyleTags: true,
-      removeStyleTags: false,
-      preserveFontFaces: true,
-      inlinePseudoElements: true,
-      webResources: {
-        images: false, // Don't inline images
-        svgs: false,
-        links: false,
-        scripts: false
+    let message = "User created successfully. Please check your email to activate your account.";
+    try {
+      const sent = await sendActivationEmail({ email, firstName, lastName, role, organizationId: org.id, organizationName: org.name });
+      if (!sent) {
+        message = "User created. The activation email could not be sent yet; it will be retried automatically.";
+      }
+    } catch (emailError) {
+      // The user exists either way; the email can be sent again through resend_activation
+      console.error(`❌ Failed to send activation email to ${email}:`, emailError);
+      message = "User created, but the activation email could not be sent. Use resend activation to try again.";
+    }
+
+    return res.status(201).json({
+      success: true,
+      message,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive
       }
     });
 
-    // // Email template
-    const mailOptions = {
-      from: `"${process.env.APP_NAME || 'ForPharma'}" <${process.env.EMAIL_USER}>`,
-      to: email,
-      subject: 'Welcome! Set Your Password',
-      html: inlinedHtmlContent,
-      text: `[Plain text version for fallback]`
+  } catch (error: any) {
+    if (error instanceof ProvisioningError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Create user error:', error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to create user",
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * Sends activation emails one after another after a bulk import has answered.
+ * Failed deliveries are retried by the outbox; emails that could not even be queued are only logged,
+ * and the user can be sent a new link through resend_activation.
+ */
+const sendActivationEmailsInBackground = (recipients: ActivationEmailRecipient[]) => {
+  void (async () => {
+    let sent = 0;
+    let failed = 0;
+    for (const recipient of recipients) {
+      try {
+        if (await sendActivationEmail(recipient)) sent++;
+      } catch (error) {
+        failed++;
+        console.error(`❌ Failed to send activation email to ${recipient.email}:`, error);
+      }
+    }
+    console.log(`📧 Sent ${sent}/${recipients.length} activation emails, ${recipients.length - sent - failed} queued for retry`);
+  })();
+};
+
+/**
+ * POST /api/user/bulk_import
+ * Body (multipart): { file: .csv | .xlsx, dryRun?: 'true', skipInvalid?: 'true' }
+ * Columns: name (or first name / last name), email, role, employee code, phone, city, state, team, territories.
+ * Validates every row first. Nothing is created while any row is invalid unless `skipInvalid` is set;
+ * `dryRun` only returns the validation report. Activation emails are sent in the background.
+ */
+export const bulkImportUsersController = async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a .csv or .xlsx file in the "file" field'
+      });
+    }
+
+    const dryRun = req.body?.dryRun === 'true';
+    const skipInvalid = req.body?.skipInvalid === 'true';
+    const organizationId = req.user!.organizationId;
+
+    const validation = await validateEmployeeImport(organizationId, req.tenantDb!, req.file.buffer, req.file.originalname);
+    const report = {
+      totalRows: validation.totalRows,
+      validRows: validation.validRows.length,
+      invalidRows: validation.invalidRows
     };
 
+    if (validation.invalidRows.length > 0 && !skipInvalid) {
+      return res.status(422).json({
+        success: false,
+        message: `${validation.invalidRows.length} of ${validation.totalRows} rows are invalid; nothing was imported`,
+        data: report
+      });
+    }
 
-    // // Send email
-    await transporter.sendMail(mailOptions);
+    if (dryRun) {
+      return res.status(200).json({
+        success: true,
+        message: 'Validation finished; nothing was imported',
+        data: report
+      });
+    }
 
-    return res.status(201).json({
-      success: true,
-      message: "User created successfully. Please check your email to activate your account.",
-      // user: {
-      //   id: newUser.id,
-      //   email: newUser.email,
-      //   role: newUser.role,
-      //   isActive: newUser.isActive
-      // }
+    const outcome = await importEmployees(organizationId, validation.validRows);
+    console.log(`📥 ${req.user!.email} imported ${outcome.created.length}/${validation.totalRows} employees`);
+
+    const createdEmails = new Set(outcome.created.map(c => c.email));
+    sendActivationEmailsInBackground(validation.validRows
+      .filter(row => createdEmails.has(row.email))
+      .map(row => ({
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        role: row.role,
+        organizationId,
+        organizationName: req.user!.organizationName || ''
+      })));
+
+    return res.status(outcome.failed.length > 0 ? 207 : 201).json({
+      success: outcome.failed.length === 0,
+      message: `Imported ${outcome.created.length} of ${validation.totalRows} employees. Activation emails are being sent.`,
+      data: {
+        ...report,
+        created: outcome.created,
+        failed: outcome.failed
+      }
     });
+  } catch (error: any) {
+    if (error instanceof EmployeeImportError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
 
-  } catch (error) {
-    console.error('Create user error:', error);
+    console.error('Bulk import users error:', error);
     return res.status(500).json({
       success: false,
-      message: "Failed to create user",
-      error: process.env.NODE_ENV === 'development' ? error : undefined
+      message: 'Failed to import users',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
-  } finally {
-    await schemaService.sharedDb.$disconnect();
   }
 };
 
-// Simple activation controller
+/**
+ * POST /api/user/activate_account
+ * Body: { token: string, password: string }
+ * Activates an account with the single-use token from the activation email and sets its password.
+ */
 export const activateAccountController = async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const { token, password } = req.body;
     console.log("Activate account request received");
-    console.log("Request body:", email, password);
-    if (!email || !password) {
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Token and password are required"
+      });
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
       return res.status(400).json({
         success: false,
-        message: "Email, password are required"
+        message: "Password must be at least 8 characters long"
       });
     }
 
+    const email = await verifyUserToken(token, 'ACTIVATION');
+
     // Find user in shared database
     const user = await schemaService.sharedDb.user.findUnique({
       where: { email },
@@ -213,8 +315,6 @@ export const activateAccountController = async (req: Request, res: Response) =>
       }
     });
 
-    console.log("User found:", user);
-
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -229,16 +329,6 @@ export const activateAccountController = async (req: Request, res: Response) =>
       });
     }
 
-    // Activate user in shared database
-    await schemaService.sharedDb.user.update({
-      where: { id: user.id },
-      data: {
-        isActive: true,
-        lastLoginAt: new Date()
-      }
-    });
-
-    // Activate employee in tenant database
     const schemaName = user.organization.schemaName;
     if (!schemaName) {
       return res.status(400).json({
@@ -246,13 +336,32 @@ export const activateAccountController = async (req: Request, res: Response) =>
         message: "Create schema for this organization"
       })
     }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Use up the token and activate the user in shared database together
+    await schemaService.sharedDb.$transaction(async (tx) => {
+      await consumeUserToken(tx, token);
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          password: hashedPassword,
+          isActive: true,
+          lastLoginAt: new Date()
+        }
+      });
+    });
+
+    // Activate employee in tenant database
     const tenantDb = await schemaService.getTenantClient(schemaName);
     await tenantDb.employee.update({
       where: { email },
       data: {
+        passwordHash: hashedPassword,
         isActive: true
       }
     });
+    invalidateUserContext(email);
 
     return res.status(200).json({
       success: true,
@@ -260,26 +369,333 @@ export const activateAccountController = async (req: Request, res: Response) =>
     });
 
   } catch (error) {
+    if (error instanceof UserTokenError) {
+      return res.status(400).json({
+        success: false,
+        message: error.reason === 'expired'
+          ? "Activation link has expired. Please request a new one."
+          : error.reason === 'used'
+            ? "Activation link has already been used or was replaced by a newer one"
+            : "Invalid activation link",
+        reason: error.reason
+      });
+    }
+
     console.error('Activate account error:', error);
     return res.status(500).json({
       success: false,
       message: "Failed to activate account"
     });
-  } finally {
-    await schemaService.sharedDb.$disconnect();
   }
 };
 
+/**
+ * POST /api/user/resend_activation
+ * Body: { email: string }
+ * Emails a new activation link and invalidates earlier ones. The response is the same whether or
+ * not the email belongs to an inactive account, so it cannot be used to discover accounts.
+ */
+export const resendActivationController = async (req: Request, res: Response) => {
+  const genericResponse = {
+    success: true,
+    message: "If the account exists and is not yet activated, a new activation email has been sent."
+  };
+
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: "Email is required"
+      });
+    }
+
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email },
+      include: {
+        organization: true
+      }
+    });
+
+    if (!user || user.isActive || !user.organization.schemaName) {
+      return res.status(200).json(genericResponse);
+    }
+
+    // A link went out moments ago; skip sending, but answer like any other request so the
+    // response does not tell whether the account exists
+    const lastIssuedAt = await getLatestUserTokenIssuedAt(email, 'ACTIVATION');
+    if (lastIssuedAt && Date.now() - lastIssuedAt.getTime() < ACTIVATION_RESEND_INTERVAL_MS) {
+      return res.status(200).json(genericResponse);
+    }
+
+    const tenantDb = await schemaService.getTenantClient(user.organization.schemaName);
+    const employee = await tenantDb.employee.findUnique({
+      where: { email },
+      select: { firstName: true, lastName: true }
+    });
+
+    await sendActivationEmail({
+      email,
+      firstName: employee?.firstName,
+      lastName: employee?.lastName,
+      role: user.role,
+      organizationId: user.organizationId,
+      organizationName: user.organization.name
+    });
+
+    return res.status(200).json(genericResponse);
+  } catch (error) {
+    console.error('Resend activation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to resend activation email"
+    });
+  }
+};
+
+/**
+ * POST /api/user/forgot_password
+ * Body: { email: string }
+ * Emails a single-use password reset link. The response does not reveal whether the email exists.
+ */
+export const forgotPasswordController = async (req: Request, res: Response) => {
+  const genericResponse = {
+    success: true,
+    message: "If an active account exists for this email, a password reset link has been sent."
+  };
+
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: "Email is required"
+      });
+    }
+
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email },
+      include: {
+        organization: true
+      }
+    });
+
+    // Inactive accounts are activated through the activation link instead
+    if (!user || !user.isActive || !user.organization.isActive || !user.organization.schemaName) {
+      return res.status(200).json(genericResponse);
+    }
+
+    // A link went out moments ago; skip sending without saying so, like for unknown emails
+    const lastIssuedAt = await getLatestUserTokenIssuedAt(email, 'PASSWORD_RESET');
+    if (lastIssuedAt && Date.now() - lastIssuedAt.getTime() < PASSWORD_RESET_REQUEST_INTERVAL_MS) {
+      return res.status(200).json(genericResponse);
+    }
+
+    const tenantDb = await schemaService.getTenantClient(user.organization.schemaName);
+    const employee = await tenantDb.employee.findUnique({
+      where: { email },
+      select: { firstName: true, lastName: true }
+    });
+
+    const token = await issueUserToken(email, 'PASSWORD_RESET', PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+    const resetLink = `${process.env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await sendEmail('password_reset', email, {
+      userName: employee ? employee.firstName + (employee.lastName ? ` ${employee.lastName}` : '') : email,
+      userEmail: email,
+      organizationName: user.organization.name,
+      resetUrl: resetLink,
+      expiresIn: PASSWORD_RESET_TOKEN_TTL_MINUTES % 60 === 0
+        ? `${PASSWORD_RESET_TOKEN_TTL_MINUTES / 60} hour(s)`
+        : `${PASSWORD_RESET_TOKEN_TTL_MINUTES} minutes`
+    }, { organizationId: user.organizationId });
+
+    return res.status(200).json(genericResponse);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to send password reset email"
+    });
+  }
+};
+
+/**
+ * POST /api/user/reset_password
+ * Body: { token: string, password: string }
+ * Sets a new password with a reset token. The shared User and the tenant Employee are updated in
+ * one transaction, and every existing session of the user is ended.
+ */
+export const resetPasswordController = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Token and password are required"
+      });
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({
+        success: false,
+        message: "Password must be at least 8 characters long"
+      });
+    }
+
+    const email = await verifyUserToken(token, 'PASSWORD_RESET');
+
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email },
+      include: {
+        organization: true
+      }
+    });
+
+    if (!user || !user.isActive || !user.organization.schemaName) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid password reset link",
+        reason: 'invalid'
+      });
+    }
+
+    const schemaName = user.organization.schemaName;
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // The tenant schema lives in the same database, so both rows change in one transaction
+    await schemaService.sharedDb.$transaction(async (tx) => {
+      await consumeUserToken(tx, token);
+      await tx.user.update({
+        where: { id: user.id },
+        data: { password: hashedPassword }
+      });
+      const updatedEmployees = await tx.$executeRawUnsafe(
+        `UPDATE "${schemaName}"."employees" SET password_hash = $1, updated_at = NOW() WHERE email = $2`,
+        hashedPassword,
+        email
+      );
+      if (updatedEmployees !== 1) {
+        throw new Error(`Expected one employee for ${email} in ${schemaName}, found ${updatedEmployees}`);
+      }
+    });
+
+    await revokeSessions({ userId: user.id }, 'password_reset');
+    // Proving control of the mailbox is as good as an admin unlock
+    await unlockAccount(email, 'password_reset');
+    invalidateUserContext(email);
+
+    return res.status(200).json({
+      success: true,
+      message: "Password has been reset. You can now login with your new password."
+    });
+  } catch (error) {
+    if (error instanceof UserTokenError) {
+      return res.status(400).json({
+        success: false,
+        message: error.reason === 'expired'
+          ? "Password reset link has expired. Please request a new one."
+          : error.reason === 'used'
+            ? "Password reset link has already been used or was replaced by a newer one"
+            : "Invalid password reset link",
+        reason: error.reason
+      });
+    }
+
+    console.error('Reset password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to reset password"
+    });
+  }
+};
+
+/**
+ * Answers a login that is blocked by a lockout or IP throttling.
+ */
+const sendLoginBlocked = (res: Response, block: LoginBlock) => {
+  res.set('Retry-After', String(block.retryAfterSeconds));
+  return res.status(429).json({
+    error: block.reason === 'account_locked'
+      ? 'Account is temporarily locked after too many failed login attempts'
+      : 'Too many failed login attempts from this network',
+    retryAfterSeconds: block.retryAfterSeconds
+  });
+};
+
+type LoginUser = Prisma.UserGetPayload<{ include: { organization: true } }>;
+
+/**
+ * Finishes a login whose credentials were verified: starts a session for this device, or answers
+ * with a challenge when a manager or administrator still has to pass (or enrol in) two-factor
+ * authentication.
+ * @param extra Fields added to the success response, e.g. freshly issued recovery codes.
+ */
+const completeLogin = async (
+  res: Response,
+  employee: LoginUser,
+  attempt: Omit<LoginAttemptRecord, 'success' | 'failureReason'>,
+  options: { twoFactorVerified?: boolean; extra?: Record<string, unknown> } = {}
+) => {
+  if (!options.twoFactorVerified && isTwoFactorRole(employee.role)) {
+    const { enabled } = await getTwoFactorStatus(employee.id);
+    if (enabled || resolveOrganizationSettings(employee.organization.settings).requireTwoFactor) {
+      return res.json({
+        twoFactorRequired: enabled,
+        twoFactorEnrollmentRequired: !enabled,
+        challengeToken: issueTwoFactorChallenge({
+          userId: employee.id,
+          stage: enabled ? 'verify' : 'enroll',
+          method: attempt.method
+        }),
+        expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS
+      });
+    }
+  }
+
+  // Short-lived access token plus a rotating refresh token for this device
+  const { token, refreshToken, expiresIn } = await createSession(employee, attempt.device);
+
+  // Update last login timestamp
+  await schemaService.sharedDb.user.update({
+    where: { id: employee.id },
+    data: { lastLoginAt: new Date() },
+  });
+  await recordLoginAttempt({ ...attempt, success: true });
+
+  return res.json({
+    token,
+    refreshToken,
+    expiresIn,
+    user: {
+      id: employee.id,
+      email: employee.email,
+      role: employee.role,
+      organization: {
+        id: employee.organization.id,
+        name: employee.organization.name,
+      },
+    },
+    ...options.extra
+  });
+};
+
 export const loginController = async (req: Request, res: Response) => {
   try {
-    console.log("login request received");
     const { email, password } = req.body;
-    console.log(email);
-    console.log(password);
     if (!email || !password) {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
+    const device = getSessionDevice(req);
+    const attempt = { email, method: 'password' as const, device };
+
+    const block = await getLoginBlock(email, device.ipAddress);
+    if (block) {
+      await recordLoginAttempt({ ...attempt, success: false, failureReason: block.reason });
+      return sendLoginBlocked(res, block);
+    }
+
     // Find employee in shared database
     const employee = await schemaService.sharedDb.user.findUnique({
       where: { email },
@@ -287,63 +703,39 @@ export const loginController = async (req: Request, res: Response) => {
         organization: true,
       },
     });
-    console.log("employee find");
-    console.log("Employee result:", employee);
 
     if (!employee) {
+      const lockout = await recordLoginAttempt({ ...attempt, success: false, failureReason: 'unknown_user' });
+      if (lockout) {
+        return sendLoginBlocked(res, lockout);
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    if (!employee.isActive) {
-      return res.status(403).json({ error: 'Account is not activated. Please check your email.' });
-    }
+    const userAttempt = { ...attempt, userId: employee.id, organizationId: employee.organizationId };
 
     // Verify password with bcrypt
     const isValidPassword = await bcrypt.compare(password, employee.password);
-    // console.log("password validates");
 
     if (!isValidPassword) {
-      console.log("invalid credentials");
+      const lockout = await recordLoginAttempt({ ...userAttempt, success: false, failureReason: 'invalid_password' });
+      if (lockout) {
+        return sendLoginBlocked(res, lockout);
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    if (!employee.isActive) {
+      await recordLoginAttempt({ ...userAttempt, success: false, failureReason: 'account_inactive' });
+      return res.status(403).json({ error: 'Account is not activated. Please check your email.' });
+    }
+
     if (!employee.organization?.isActive) {
+      await recordLoginAttempt({ ...userAttempt, success: false, failureReason: 'organization_inactive' });
       return res.status(403).json({ error: 'Organization is not active' });
     }
-    console.log("creating token");
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: employee.id,
-        email: employee.email,
-        organizationId: employee.organizationId,
-        role: employee.role,
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
-    console.log(token);
-
-    // Update last login timestamp
-    await schemaService.sharedDb.user.update({
-      where: { id: employee.id },
-      data: { lastLoginAt: new Date() },
-    });
-    console.log("returning response to frontend");
-
-    res.json({
-      token,
-      user: {
-        id: employee.id,
-        email: employee.email,
-        role: employee.role,
-        organization: {
-          id: employee.organization.id,
-          name: employee.organization.name,
-        },
-      },
-    });
+    await completeLogin(res, employee, userAttempt);
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Login failed' });
@@ -373,6 +765,15 @@ export const googleLoginController = async (req: Request, res: Response) => {
     }
 
     const email = payload.email;
+    const device = getSessionDevice(req);
+    const attempt = { email, method: 'google' as const, device };
+
+    // A locked account stays locked for Google sign-in too
+    const block = await getLoginBlock(email);
+    if (block) {
+      await recordLoginAttempt({ ...attempt, success: false, failureReason: block.reason });
+      return sendLoginBlocked(res, block);
+    }
 
     // Find employee by email
     const employee = await schemaService.sharedDb.user.findUnique({
@@ -384,47 +785,23 @@ export const googleLoginController = async (req: Request, res: Response) => {
 
     if (!employee) {
       // Optionally create employee here or reject the login
+      await recordLoginAttempt({ ...attempt, success: false, failureReason: 'unknown_user' });
       return res.status(401).json({ error: 'No user found with this Google account' });
     }
 
+    const userAttempt = { ...attempt, userId: employee.id, organizationId: employee.organizationId };
+
     if (!employee.isActive) {
+      await recordLoginAttempt({ ...userAttempt, success: false, failureReason: 'account_inactive' });
       return res.status(403).json({ error: 'Account is deactivated' });
     }
 
     if (!employee.organization?.isActive) {
+      await recordLoginAttempt({ ...userAttempt, success: false, failureReason: 'organization_inactive' });
       return res.status(403).json({ error: 'Organization is not active' });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: employee.id,
-        email: employee.email,
-        organizationId: employee.organizationId,
-        role: employee.role,
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
-
-    // Update last login timestamp
-    await schemaService.sharedDb.user.update({
-      where: { id: employee.id },
-      data: { lastLoginAt: new Date() },
-    });
-
-    res.json({
-      token,
-      user: {
-        id: employee.id,
-        email: employee.email,
-        role: employee.role,
-        organization: {
-          id: employee.organization.id,
-          name: employee.organization.name,
-        },
-      },
-    });
+    await completeLogin(res, employee, userAttempt);
   } catch (error) {
     console.error('Google login error:', error);
     res.status(500).json({ error: 'Google login failed' });
@@ -433,27 +810,139 @@ export const googleLoginController = async (req: Request, res: Response) => {
   }
 };
 
-export const fetchUsersController = async (req: Request, res: Response) => {
+/**
+ * Loads the user behind a login challenge and makes sure the login may still go ahead.
+ * Answers the request itself and returns null when it may not.
+ */
+const loadChallengeUser = async (req: Request, res: Response, challenge: TwoFactorChallenge) => {
+  const employee = await schemaService.sharedDb.user.findUnique({
+    where: { id: challenge.userId },
+    include: { organization: true }
+  });
+
+  if (!employee || !employee.isActive || !employee.organization.isActive) {
+    res.status(401).json({ error: 'Login challenge is invalid or has expired; log in again' });
+    return null;
+  }
+
+  const device = getSessionDevice(req);
+  const block = await getLoginBlock(employee.email, device.ipAddress);
+  if (block) {
+    sendLoginBlocked(res, block);
+    return null;
+  }
+
+  const attempt = {
+    email: employee.email,
+    method: challenge.method,
+    device,
+    userId: employee.id,
+    organizationId: employee.organizationId
+  };
+  return { employee, attempt };
+};
+
+const sendTwoFactorError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${action} error:`, error);
+  return res.status(500).json({ error: `${action} failed` });
+};
+
+/**
+ * POST /api/user/login/2fa
+ * Body: { challengeToken: string, code: string }
+ * Second login step for accounts with two-factor authentication. `code` is the authenticator
+ * app's 6-digit code or one of the recovery codes. Wrong codes count towards the account lockout.
+ */
+export const loginTwoFactorController = async (req: Request, res: Response) => {
   try {
-    const { organizationId } = req.query;
-    console.log("Fetch users request received for organizationId:", organizationId);
+    const { challengeToken, code } = req.body || {};
+    const challenge = readTwoFactorChallenge(challengeToken, 'verify');
 
-    if (!organizationId) {
-      return res.status(400).json({ error: 'organizationId is required' });
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'code is required' });
     }
 
-    // First, fetch the organization to get the schema name
-    const organization = await schemaService.sharedDb.organization.findUnique({
-      where: { id: String(organizationId) },
-      select: { schemaName: true }
-    });
+    const loaded = await loadChallengeUser(req, res, challenge);
+    if (!loaded) return;
+
+    const accepted = await verifyTwoFactorCode(loaded.employee.id, code);
+    if (!accepted) {
+      const lockout = await recordLoginAttempt({ ...loaded.attempt, success: false, failureReason: 'invalid_two_factor' });
+      if (lockout) {
+        return sendLoginBlocked(res, lockout);
+      }
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    await completeLogin(res, loaded.employee, loaded.attempt, { twoFactorVerified: true });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Two-factor login');
+  }
+};
+
+/**
+ * POST /api/user/login/2fa/setup
+ * Body: { challengeToken: string }
+ * For managers and administrators whose organization requires two-factor authentication but who
+ * have not enrolled yet: returns the secret, otpauth URI and QR code to add to an authenticator app.
+ */
+export const loginTwoFactorSetupController = async (req: Request, res: Response) => {
+  try {
+    const challenge = readTwoFactorChallenge(req.body?.challengeToken, 'enroll');
+
+    const loaded = await loadChallengeUser(req, res, challenge);
+    if (!loaded) return;
+
+    const enrollment = await beginTwoFactorEnrollment(loaded.employee);
+    res.json({ success: true, data: enrollment });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Two-factor setup');
+  }
+};
+
+/**
+ * POST /api/user/login/2fa/enable
+ * Body: { challengeToken: string, code: string }
+ * Finishes enrolment during login with the first code from the app and completes the login.
+ * The response carries the recovery codes, which are never shown again.
+ */
+export const loginTwoFactorEnableController = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body || {};
+    const challenge = readTwoFactorChallenge(challengeToken, 'enroll');
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const loaded = await loadChallengeUser(req, res, challenge);
+    if (!loaded) return;
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(loaded.employee.id, code);
+    await completeLogin(res, loaded.employee, loaded.attempt, { twoFactorVerified: true, extra: { recoveryCodes } });
+  } catch (error) {
+    sendTwoFactorError(res, error, 'Two-factor enrolment');
+  }
+};
+
+/**
+ * GET /api/user/get_users?organizationId=
+ * Lists the caller's organization's employees (tenantMiddleware, users:manage). organizationId is
+ * optional and must be the caller's own organization.
+ */
+export const fetchUsersController = async (req: Request, res: Response) => {
+  try {
+    const { organizationId } = req.query;
+    console.log("Fetch users request received for organizationId:", req.user!.organizationId);
 
-    if (!organization || !organization.schemaName) {
-      return res.status(404).json({ error: 'Organization not found or schema not set' });
+    if (organizationId && String(organizationId) !== req.user!.organizationId) {
+      return res.status(403).json({ error: 'You can only list users of your own organization' });
     }
 
-    // Get tenant DB client
-    const tenantDb = await schemaService.getTenantClient(organization.schemaName);
+    const tenantDb = req.tenantDb!;
 
     // Fetch users from tenant schema
     const employees = await tenantDb.employee.findMany();
@@ -1,4 +1,6 @@
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
+import { suggestTerritoryId } from '../../services/TerritoryGeoService.js';
 
 // Helper function - should be outside the controller
 const isValidEmail = (email: string): boolean => {
@@ -12,7 +14,6 @@ export const createChemistController = async (req: Request, res: Response) => {
             name,
             type,
             chemistChainId,
-            territoryId,
             email,
             phone,
             address,
@@ -23,6 +24,7 @@ export const createChemistController = async (req: Request, res: Response) => {
             profilePictureUrl,
             visitingHours
         } = req.body;
+        let { territoryId } = req.body;
 
         const tenantDb = req.tenantDb;
         const organizationId = req.user?.organizationId;
@@ -37,10 +39,10 @@ export const createChemistController = async (req: Request, res: Response) => {
         }
 
         // Validation
-        if (!name || !type || !territoryId || !organizationId || !createdById) {
+        if (!name || !type || !organizationId || !createdById) {
             return res.status(400).json({
                 success: false,
-                message: 'Name, type, territory ID, organization ID, and creator ID are required'
+                message: 'Name, type, organization ID, and creator ID are required'
             });
         }
 
@@ -66,16 +68,18 @@ export const createChemistController = async (req: Request, res: Response) => {
             }
         }
 
-        // Check if territory exists
-        const territoryExists = await tenantDb.territory.findUnique({
-            where: { id: territoryId }
-        });
-
-        if (!territoryExists) {
-            return res.status(404).json({
-                success: false,
-                message: 'Territory not found'
+        // Check if territory exists (if provided; otherwise it is looked up from the address below)
+        if (territoryId) {
+            const territoryExists = await tenantDb.territory.findUnique({
+                where: { id: territoryId }
             });
+
+            if (!territoryExists) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Territory not found'
+                });
+            }
         }
 
         // Check if chemist chain exists (if provided)
@@ -117,6 +121,21 @@ export const createChemistController = async (req: Request, res: Response) => {
             }
         }
 
+        // Without a territory, use the one whose boundaries contain the geocoded address
+        if (!territoryId) {
+            const lat = parseFloat(latitude);
+            const lng = parseFloat(longitude);
+            if (Number.isFinite(lat) && Number.isFinite(lng)) {
+                territoryId = await suggestTerritoryId(tenantDb, lat, lng);
+            }
+        }
+        if (!territoryId) {
+            return res.status(400).json({
+                success: false,
+                message: "Territory ID is required when the address does not fall within a territory's boundaries"
+            });
+        }
+
         // Create the chemist
         const newChemist = await tenantDb.chemist.create({
             data: {
@@ -343,9 +362,6 @@ export const deleteChemist = async (req: Request, res: Response) => {
 export const getChemistListController = async (req: Request, res: Response) => {
     try {
         const tenantDb = req.tenantDb;
-        const userId = req.user?.id;
-        const organizationId = req.user?.organizationId;
-        const role = req.user?.role;
 
         // Check if tenantDb exists
         if (!tenantDb) {
@@ -355,8 +371,10 @@ export const getChemistListController = async (req: Request, res: Response) => {
             });
         }
 
-        // If SYSTEM_ADMINISTRATOR, fetch all chemists (active only)
-        if (role === 'SYSTEM_ADMINISTRATOR') {
+        const scope = await getRequestVisibilityScope(req);
+
+        // Administrators see every chemist (active only)
+        if (scope.unrestricted) {
             const chemists = await tenantDb.chemist.findMany({
                 where: { isActive: true },
                 select: {
@@ -417,27 +435,10 @@ export const getChemistListController = async (req: Request, res: Response) => {
             });
         }
 
-        // Validation
-        if (!userId || !organizationId) {
-            return res.status(400).json({
-                success: false,
-                message: 'User ID and organization ID are required'
-            });
-        }
+        // Step 1: Territories the user can see: their own, everything below them and their team's
+        const territoryIds = scope.territoryIds;
 
-        // Step 1: Get user's territories (active assignments only)
-        const userTerritories = await tenantDb.employeeTerritory.findMany({
-            where: {
-                employeeId: userId,
-                unassignedAt: null // Only active territory assignments
-            },
-            select: {
-                territoryId: true,
-                isPrimary: true
-            }
-        });
-
-        if (userTerritories.length === 0) {
+        if (territoryIds.length === 0) {
             return res.status(200).json({
                 success: true,
                 message: 'No territories assigned to user',
@@ -445,9 +446,6 @@ export const getChemistListController = async (req: Request, res: Response) => {
             });
         }
 
-        // Extract territory IDs with proper typing
-        const territoryIds = userTerritories.map((ut: { territoryId: string }) => ut.territoryId);
-
         // Step 2: Get all chemists in user's territories
         const chemists = await tenantDb.chemist.findMany({
             where: {
@@ -168,7 +168,7 @@ export const getInteractionsForChemist = async (req: Request, res: Response) =>
             startDate,
             endDate,
             page = 1,
-            limit = 10
+            limit = req.organizationSettings?.defaultPageSize ?? 10
         } = req.query;
 
         // Validation
@@ -304,7 +304,7 @@ export const getChemistInteractionsByEmployee = async (req: Request, res: Respon
             startDate,
             endDate,
             page = 1,
-            limit = 10
+            limit = req.organizationSettings?.defaultPageSize ?? 10
         } = req.query;
 
         // Validation
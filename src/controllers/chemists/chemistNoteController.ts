@@ -107,7 +107,7 @@ export const getNotesForChemist = async (req: Request, res: Response) => {
     try {
         const tenantDb = req.tenantDb;
         const chemistId = req.params.chemistId;
-        const { searchTerm, startDate, endDate, page = 1, limit = 10 } = req.query;
+        const { searchTerm, startDate, endDate, page = 1, limit = req.organizationSettings?.defaultPageSize ?? 10 } = req.query;
 
         // Validation
         if (!tenantDb) {
@@ -215,7 +215,7 @@ export const getChemistNotesByEmployee = async (req: Request, res: Response) =>
     try {
         const tenantDb = req.tenantDb;
         const employeeId = req.params.employeeId;
-        const { chemistId, page = 1, limit = 10 } = req.query;
+        const { chemistId, page = 1, limit = req.organizationSettings?.defaultPageSize ?? 10 } = req.query;
 
         // Validation
         if (!tenantDb) {
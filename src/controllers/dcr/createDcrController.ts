@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { isDcrSubmissionOpen, OrganizationSettings } from '../../services/OrganizationSettingsService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -11,6 +12,7 @@ interface AuthenticatedRequest extends Request {
         role: string;
     };
     tenantDb?: any; // Prisma tenant client
+    organizationSettings?: OrganizationSettings;
 }
 
 interface TaskDetail {
@@ -333,6 +335,15 @@ export const createDcr = async (req: AuthenticatedRequest, res: Response): Promi
             return;
         }
 
+        // Submissions close a configurable number of days after the task date; drafts can still be saved
+        if (dcrData.isDraft !== true && req.organizationSettings && !isDcrSubmissionOpen(taskDate, req.organizationSettings)) {
+            res.status(400).json({
+                success: false,
+                message: `DCR submission deadline has passed. Reports must be submitted within ${req.organizationSettings.dcrSubmissionDeadlineDays} days of the task date`
+            });
+            return;
+        }
+
         // Check if DCR already exists for this task
         const existingDCR = await req.tenantDb.dcrReport.findFirst({
             where: {
@@ -1,5 +1,8 @@
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
+import { getSubtreeIds } from '../../services/TerritoryService.js';
+import { loadAssignmentPeriods, territoriesOn } from '../../services/TerritoryTransferService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -19,11 +22,16 @@ interface DCRListItem {
     date: string;
     timings: string;
     status: string;
+    employeeName: string;
+    territoryName: string | null;
 }
 
 /**
- * GET /api/dcr
- * List DCR reports for authenticated employee
+ * GET /api/dcr?territoryId=
+ * List DCR reports of the authenticated employee and of the employees they can see
+ * (their team and anyone assigned below their territories). Each report is attributed to the
+ * territory its employee covered on the report date, so transfers do not rewrite history;
+ * territoryId keeps only reports done in that territory or below it.
  */
 export const getDcrList = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -38,11 +46,12 @@ export const getDcrList = async (req: AuthenticatedRequest, res: Response): Prom
         }
 
         // Get search and filter parameters
-        const { search, dateRange, customStartDate, customEndDate } = req.query;
+        const { search, dateRange, customStartDate, customEndDate, territoryId } = req.query;
 
         // Build where clause for DCR reports
-        let whereClause: any = {
-            employeeId: req.user?.id
+        const scope = await getRequestVisibilityScope(req);
+        let whereClause: any = scope.unrestricted ? {} : {
+            employeeId: { in: scope.employeeIds }
         };
 
         // Apply date filter if provided
@@ -100,10 +109,18 @@ export const getDcrList = async (req: AuthenticatedRequest, res: Response): Prom
             }
         });
 
+        const periods = await loadAssignmentPeriods(req.tenantDb, [...new Set(dcrReports.map(dcr => dcr.employeeId))]);
+        const territoryFilter = territoryId ? new Set(await getSubtreeIds(req.tenantDb, territoryId as string)) : null;
+
         // Transform DCR reports to include task details
         const transformedDCRs: DCRListItem[] = [];
 
         for (const dcr of dcrReports) {
+            const territories = territoriesOn(periods, dcr.employeeId, dcr.reportDate);
+            if (territoryFilter && !territories.some(territory => territoryFilter.has(territory.id))) {
+                continue;
+            }
+
             let customerName = 'Unknown';
             let timings = 'Not specified';
 
@@ -214,7 +231,9 @@ export const getDcrList = async (req: AuthenticatedRequest, res: Response): Prom
                     day: '2-digit'
                 }),
                 timings: timings,
-                status: dcr.isDraft ? 'draft' : 'completed'
+                status: dcr.isDraft ? 'draft' : 'completed',
+                employeeName: [dcr.employee?.firstName, dcr.employee?.lastName].filter(Boolean).join(' '),
+                territoryName: territories[0]?.name || null
             };
 
             // Apply search filter on backend if provided
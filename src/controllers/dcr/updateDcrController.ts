@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { isDcrSubmissionOpen, OrganizationSettings } from '../../services/OrganizationSettingsService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -11,6 +12,7 @@ interface AuthenticatedRequest extends Request {
         role: string;
     };
     tenantDb?: any; // Prisma tenant client
+    organizationSettings?: OrganizationSettings;
 }
 
 /**
@@ -65,6 +67,15 @@ export const updateDcr = async (req: AuthenticatedRequest, res: Response): Promi
             return;
         }
 
+        // Submissions close a configurable number of days after the task date; drafts can still be saved
+        if (updateData.isDraft !== true && req.organizationSettings && !isDcrSubmissionOpen(existingDCR.reportDate, req.organizationSettings)) {
+            res.status(400).json({
+                success: false,
+                message: `DCR submission deadline has passed. Reports must be submitted within ${req.organizationSettings.dcrSubmissionDeadlineDays} days of the task date`
+            });
+            return;
+        }
+
         // Update the DCR report
         const updatedDCR = await req.tenantDb.dcrReport.update({
             where: {
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
 
 // Helper function - should be outside the controller
 const isValidEmail = (email: string): boolean => {
@@ -268,10 +269,6 @@ export const deleteDoctor = async (req: Request, res: Response) => {
 export const getDoctorListController = async (req: Request, res: Response) => {
     try {
         const tenantDb = req.tenantDb;
-        // const userId = req.user?.id;
-        const email = req.user?.email;
-        const organizationId = req.user?.organizationId;
-        const role = req.user?.role;
 
         // Check if tenantDb exists
         if (!tenantDb) {
@@ -281,8 +278,10 @@ export const getDoctorListController = async (req: Request, res: Response) => {
             });
         }
 
-        // If SYSTEM_ADMINISTRATOR, fetch all doctors (active only)
-        if (role === 'SYSTEM_ADMINISTRATOR') {
+        const scope = await getRequestVisibilityScope(req);
+
+        // Administrators see every doctor (active only)
+        if (scope.unrestricted) {
             const doctors = await tenantDb.doctor.findMany({
                 where: { isActive: true },
                 select: {
@@ -309,49 +308,10 @@ export const getDoctorListController = async (req: Request, res: Response) => {
             });
         }
 
-        // Validation
-        if (!email) {
-            return res.status(400).json({
-                success: false,
-                message: 'Email is required'
-            });
-        }
-
-        const user = await tenantDb.employee.findUnique({
-            where: {
-                email: email
-            },
-            select: {
-                id: true
-            }
-        })
-        console.log(`employee in tenant db: ${user?.id}`);
+        // Step 1: Territories the user can see: their own, everything below them and their team's
+        const territoryIds = scope.territoryIds;
 
-        if (!user) {
-            return res.status(400).json({
-                success: false,
-                message: 'User Not present in Employee table'
-            });
-        }
-
-        const userId = user.id;
-
-
-        // Step 1: Get user's territories (active assignments only)
-        const userTerritories = await tenantDb.employeeTerritory.findMany({
-            where: {
-                employeeId: userId,
-                unassignedAt: null // Only active territory assignments
-            },
-            select: {
-                territoryId: true,
-                isPrimary: true
-            }
-        });
-
-        console.log(`employee in tenant db: ${userTerritories.length}`);
-
-        if (userTerritories.length === 0) {
+        if (territoryIds.length === 0) {
             return res.status(200).json({
                 success: true,
                 message: 'No territories assigned to user',
@@ -359,9 +319,6 @@ export const getDoctorListController = async (req: Request, res: Response) => {
             });
         }
 
-        // Extract territory IDs with proper typing
-        const territoryIds = userTerritories.map((ut: { territoryId: string }) => ut.territoryId);
-
         // Step 2: Get all hospitals in user's territories
         const hospitals = await tenantDb.hospital.findMany({
             where: {
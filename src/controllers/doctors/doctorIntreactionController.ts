@@ -281,7 +281,7 @@ export const getInteractionsByEmployee = async (req: Request, res: Response) =>
             startDate,
             endDate,
             page = 1,
-            limit = 10
+            limit = req.organizationSettings?.defaultPageSize ?? 10
         } = req.query;
 
         // Validation
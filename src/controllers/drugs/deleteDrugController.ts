@@ -5,7 +5,6 @@ export const deleteDrug = async (req: Request, res: Response) => {
     try {
         const tenantDb = req.tenantDb;
         const drugId = req.params.drugId;
-        const userId = req.user?.id;
 
         // Validation
         if (!tenantDb) {
@@ -22,7 +21,8 @@ export const deleteDrug = async (req: Request, res: Response) => {
             });
         }
 
-        if (!userId) {
+        // An employee or an API key; neither is recorded on the drug
+        if (!req.principal) {
             return res.status(401).json({
                 success: false,
                 message: 'User authentication required'
@@ -5,7 +5,6 @@ export const updateDrug = async (req: Request, res: Response) => {
         const tenantDb = req.tenantDb;
         const drugId = req.params.drugId;
         const updateData = req.body;
-        const userId = req.user?.id;
 
         // Validation
         if (!tenantDb) {
@@ -22,7 +21,8 @@ export const updateDrug = async (req: Request, res: Response) => {
             });
         }
 
-        if (!userId) {
+        // An employee or an API key; neither is recorded on the drug
+        if (!req.principal) {
             return res.status(401).json({
                 success: false,
                 message: 'User authentication required'
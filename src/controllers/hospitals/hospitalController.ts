@@ -1,11 +1,45 @@
 import { Request, Response } from 'express';
 import SchemaManagementService from '@/services/SchemaManagementService';
+import { getRequestVisibilityScope } from '@/services/VisibilityService';
+import { suggestTerritoryId } from '@/services/TerritoryGeoService';
 
 const schemaService = SchemaManagementService.getInstance();
 
 export const createHospital = async (req: Request, res: Response) => {
     try {
         const { name, email, website, address, city, state, pincode, description } = req.body;
+        let { territoryId } = req.body;
+        // Validate required fields
+        if (!name || !email || !website || !address || !city || !state || !pincode || !description) {
+            return res.status(400).json({
+                success: false,
+                message: "Name, email, website, address, city, state, pincode, and description are required"
+            });
+        }
+
+        const tenantDb = req.tenantDb;
+        const organizationId = req.user?.organizationId;
+        if (!tenantDb) {
+            return res.status(500).json({
+                success: false,
+                message: 'Tenant database connection not established'
+            });
+        }
+
+        // Check if territory exists (if provided; otherwise it is looked up from the address below)
+        if (territoryId) {
+            const territoryExists = await tenantDb.territory.findUnique({
+                where: { id: territoryId }
+            });
+
+            if (!territoryExists) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Territory not found'
+                });
+            }
+        }
+
         // Convert address to latitude and longitude using a geocoding service
         const fullAddress = `${address}, ${city}, ${state}, ${pincode}`;
         let latitude = null;
@@ -26,21 +60,15 @@ export const createHospital = async (req: Request, res: Response) => {
         }
         req.body.latitude = latitude;
         req.body.longitude = longitude;
-        // Validate required fields
-        if (!name || !email || !website || !address || !city || !state || !pincode || !description) {
-            return res.status(400).json({
-                success: false,
-                message: "Name, email, website, address, city, state, pincode, and description are required"
-            });
-        }
 
-        const tenantDb = req.tenantDb;
-        const organizationId = req.user?.organizationId;
-        const createdById = req.user?.id;
-        if (!tenantDb) {
-            return res.status(500).json({
+        // Without a territory, use the one whose boundaries contain the geocoded address
+        if (!territoryId && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+            territoryId = await suggestTerritoryId(tenantDb, latitude, longitude);
+        }
+        if (!territoryId) {
+            return res.status(400).json({
                 success: false,
-                message: 'Tenant database connection not established'
+                message: "Territory ID is required when the address does not fall within a territory's boundaries"
             });
         }
 
@@ -56,7 +84,7 @@ export const createHospital = async (req: Request, res: Response) => {
                 pincode: pincode || '',
                 description: description || '',
                 territory: {
-                    connect: { id: '1' }
+                    connect: { id: territoryId }
                 },
                 type: 'hospital', // Example type field
                 isActive: true,
@@ -93,7 +121,11 @@ export const fetchHospitals = async (req: Request, res: Response) => {
             });
         }
 
-        const hospitalsRaw = await tenantDb.hospital.findMany();
+        // Hospitals in the territories the user can see: their own, everything below them and their team's
+        const scope = await getRequestVisibilityScope(req);
+        const hospitalsRaw = await tenantDb.hospital.findMany({
+            where: scope.unrestricted ? undefined : { territoryId: { in: scope.territoryIds } }
+        });
         const territoryIds = hospitalsRaw.map(h => h.territoryId).filter(Boolean);
 
         const territories = await tenantDb.territory.findMany({
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -14,7 +15,8 @@ interface AuthenticatedRequest extends Request {
 
 /**
  * GET /api/orders
- * List only orders created by the authenticated employee
+ * List orders created by the authenticated employee and by the employees they can see
+ * (their team and anyone assigned below their territories)
  */
 export const getOrderList = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -27,9 +29,11 @@ export const getOrderList = async (req: AuthenticatedRequest, res: Response) =>
             });
         }
 
+        const scope = await getRequestVisibilityScope(req);
+
         const orders = await req.tenantDb.order.findMany({
-            where: {
-                createdById: req.user?.id
+            where: scope.unrestricted ? {} : {
+                createdById: { in: scope.employeeIds }
             },
             include: {
                 chemist: {
@@ -60,7 +64,8 @@ export const getOrderList = async (req: AuthenticatedRequest, res: Response) =>
                 day: 'numeric'
             }),
             amount: `₹${order.totalAmount.toLocaleString('en-IN')}`,
-            status: order.status || 'DRAFT'
+            status: order.status || 'DRAFT',
+            employeeName: [order.createdBy?.firstName, order.createdBy?.lastName].filter(Boolean).join(' ')
         }));
 
         res.status(200).json({
@@ -1,5 +1,17 @@
 import { Request, Response } from 'express';
 import { onboardNewOrganization } from '../scripts/onboardOrganization.js';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import {
+    cancelOnboarding,
+    OnboardingError,
+    resumeOnboarding,
+    toOnboardingResponse
+} from '../services/OrganizationOnboardingService.js';
+import { OnboardingStatus } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const ONBOARDING_STATUSES = Object.values(OnboardingStatus);
 
 /**
  * Factory function that returns the Express middleware for creating organizations.
@@ -54,6 +66,7 @@ export const createOrganizationController = async (req: Request, res: Response)
         // Respond with success
         res.status(201).json({
             message: 'Organization created successfully!',
+            onboardingId: result.onboardingId,
             organizationId: result.organizationId,
             schemaName: result.schemaName,
             adminUserId: result.adminUserId
@@ -61,6 +74,13 @@ export const createOrganizationController = async (req: Request, res: Response)
     } catch (error: any) {
         console.error('Create organization error:', error);
 
+        if (error instanceof OnboardingError) {
+            return res.status(error.statusCode).json({
+                error: error.message,
+                onboarding: error.onboarding ? toOnboardingResponse(error.onboarding) : undefined
+            });
+        }
+
         // Prisma P2002 error: Unique constraint violation (e.g., email already exists)
         if (error.code === 'P2002') {
             return res.status(409).json({
@@ -75,4 +95,120 @@ export const createOrganizationController = async (req: Request, res: Response)
             details: error.message || 'An unexpected error occurred.'
         });
     }
-};
\ No newline at end of file
+};
+
+/**
+ * GET /api/organizations/onboarding?status=FAILED
+ * Lists tracked onboardings, newest first.
+ */
+export const listOnboardingsController = async (req: Request, res: Response) => {
+    try {
+        const status = req.query.status as OnboardingStatus | undefined;
+        if (status && !ONBOARDING_STATUSES.includes(status)) {
+            return res.status(400).json({
+                error: `status must be one of: ${ONBOARDING_STATUSES.join(', ')}`
+            });
+        }
+
+        const onboardings = await schemaService.sharedDb.organizationOnboarding.findMany({
+            where: status ? { status } : undefined,
+            orderBy: { createdAt: 'desc' },
+            take: 100
+        });
+
+        res.status(200).json({
+            onboardings: onboardings.map(toOnboardingResponse)
+        });
+    } catch (error: any) {
+        console.error('List onboardings error:', error);
+        res.status(500).json({
+            error: 'Failed to list onboardings',
+            details: error.message || 'An unexpected error occurred.'
+        });
+    }
+};
+
+/**
+ * GET /api/organizations/onboarding/:onboardingId
+ * Returns the step status of one onboarding.
+ */
+export const getOnboardingController = async (req: Request, res: Response) => {
+    try {
+        const onboarding = await schemaService.sharedDb.organizationOnboarding.findUnique({
+            where: { id: req.params.onboardingId }
+        });
+
+        if (!onboarding) {
+            return res.status(404).json({ error: 'Onboarding not found' });
+        }
+
+        res.status(200).json({ onboarding: toOnboardingResponse(onboarding) });
+    } catch (error: any) {
+        console.error('Get onboarding error:', error);
+        res.status(500).json({
+            error: 'Failed to load onboarding',
+            details: error.message || 'An unexpected error occurred.'
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/onboarding/:onboardingId/resume
+ * Continues a failed onboarding from the step that failed.
+ */
+export const resumeOnboardingController = async (req: Request, res: Response) => {
+    try {
+        const onboarding = await resumeOnboarding(req.params.onboardingId);
+
+        res.status(200).json({
+            message: 'Organization created successfully!',
+            onboardingId: onboarding.id,
+            organizationId: onboarding.organizationId,
+            schemaName: onboarding.schemaName,
+            adminUserId: onboarding.adminUserId
+        });
+    } catch (error: any) {
+        console.error('Resume onboarding error:', error);
+
+        if (error instanceof OnboardingError) {
+            return res.status(error.statusCode).json({
+                error: error.message,
+                onboarding: error.onboarding ? toOnboardingResponse(error.onboarding) : undefined
+            });
+        }
+
+        res.status(500).json({
+            error: 'Failed to resume onboarding',
+            details: error.message || 'An unexpected error occurred.'
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/onboarding/:onboardingId/cancel
+ * Removes everything a failed onboarding created (admin user, schema, organization).
+ */
+export const cancelOnboardingController = async (req: Request, res: Response) => {
+    try {
+        const onboarding = await cancelOnboarding(req.params.onboardingId);
+
+        res.status(200).json({
+            message: 'Onboarding cancelled',
+            onboarding: toOnboardingResponse(onboarding)
+        });
+    } catch (error: any) {
+        console.error('Cancel onboarding error:', error);
+
+        if (error instanceof OnboardingError) {
+            return res.status(error.statusCode).json({
+                error: error.message,
+                onboarding: error.onboarding ? toOnboardingResponse(error.onboarding) : undefined
+            });
+        }
+
+        res.status(500).json({
+            error: 'Failed to cancel onboarding',
+            details: error.message || 'An unexpected error occurred.'
+        });
+    }
+};
@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { resolveArchivePath, TenantArchiveVerificationError, verifyTenantArchive } from '../services/TenantExportService.js';
+import { invalidateOrganizationContexts } from '../services/TenantContextCache.js';
+import { OrganizationStatus } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+// Which statuses each lifecycle action may start from
+const ALLOWED_TRANSITIONS: Record<'suspend' | 'reactivate' | 'archive' | 'purge', OrganizationStatus[]> = {
+    suspend: ['ACTIVE', 'ARCHIVED'],
+    reactivate: ['SUSPENDED', 'ARCHIVED'],
+    archive: ['ACTIVE', 'SUSPENDED'],
+    purge: ['ARCHIVED']
+};
+
+const organizationSelect = {
+    id: true,
+    name: true,
+    schemaName: true,
+    status: true,
+    isActive: true,
+    statusReason: true,
+    statusChangedAt: true,
+    purgedAt: true,
+    purgeExportPath: true
+};
+
+/**
+ * Loads the organization and checks the requested transition and its confirmation.
+ * Sends the error response itself and returns null when the request cannot proceed.
+ */
+const loadOrganizationForTransition = async (
+    req: Request,
+    res: Response,
+    action: keyof typeof ALLOWED_TRANSITIONS,
+    requireConfirmation: boolean
+) => {
+    const { organizationId } = req.params;
+
+    const organization = await schemaService.sharedDb.organization.findUnique({
+        where: { id: organizationId },
+        select: organizationSelect
+    });
+
+    if (!organization) {
+        res.status(404).json({
+            success: false,
+            message: 'Organization not found'
+        });
+        return null;
+    }
+
+    if (!ALLOWED_TRANSITIONS[action].includes(organization.status)) {
+        res.status(409).json({
+            success: false,
+            message: `Cannot ${action} an organization that is ${organization.status}`,
+            allowedFrom: ALLOWED_TRANSITIONS[action]
+        });
+        return null;
+    }
+
+    // Destructive actions must repeat the organization name to guard against a wrong id
+    if (requireConfirmation && req.body?.confirmName !== organization.name) {
+        res.status(400).json({
+            success: false,
+            message: 'confirmName must match the organization name exactly'
+        });
+        return null;
+    }
+
+    return organization;
+};
+
+const updateStatus = async (organizationId: string, status: OrganizationStatus, reason?: string) => {
+    const updated = await schemaService.sharedDb.organization.update({
+        where: { id: organizationId },
+        data: {
+            status,
+            // Archived organizations stay readable, so only suspended and purged ones are inactive
+            isActive: status === 'ACTIVE' || status === 'ARCHIVED',
+            statusReason: reason || null,
+            statusChangedAt: new Date()
+        },
+        select: organizationSelect
+    });
+    invalidateOrganizationContexts(organizationId);
+    return updated;
+};
+
+/**
+ * POST /api/organizations/:organizationId/suspend
+ * Body: { confirmName: string, reason?: string }
+ * Blocks logins and tenant API access for the organization. Data is kept.
+ */
+export const suspendOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationForTransition(req, res, 'suspend', true);
+        if (!organization) return;
+
+        const updated = await updateStatus(organization.id, 'SUSPENDED', req.body?.reason);
+        console.log(`⏸️ Organization ${organization.name} suspended`);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Organization suspended',
+            data: updated
+        });
+    } catch (error: any) {
+        console.error('Suspend organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to suspend organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/:organizationId/reactivate
+ * Body: { reason?: string }
+ * Restores full access for a suspended or archived organization.
+ */
+export const reactivateOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationForTransition(req, res, 'reactivate', false);
+        if (!organization) return;
+
+        const updated = await updateStatus(organization.id, 'ACTIVE', req.body?.reason);
+        console.log(`▶️ Organization ${organization.name} reactivated`);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Organization reactivated',
+            data: updated
+        });
+    } catch (error: any) {
+        console.error('Reactivate organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to reactivate organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/:organizationId/archive
+ * Body: { confirmName: string, reason?: string }
+ * Puts the organization in read-only mode: users can still sign in and read, but writes are rejected.
+ */
+export const archiveOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationForTransition(req, res, 'archive', true);
+        if (!organization) return;
+
+        const updated = await updateStatus(organization.id, 'ARCHIVED', req.body?.reason);
+        console.log(`🗄️ Organization ${organization.name} archived`);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Organization archived (read-only)',
+            data: updated
+        });
+    } catch (error: any) {
+        console.error('Archive organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to archive organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/:organizationId/purge
+ * Body: { confirmName: string, archiveName: string, archiveChecksum: string, reason?: string }
+ * Deactivates the organization's users and drops the tenant schema. The schema is only dropped
+ * once archiveName (from POST /:organizationId/export, kept on durable storage) is verified as a
+ * complete, unmodified export of it. Only archived organizations can be purged.
+ * The organization row is kept for audit.
+ */
+export const purgeOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationForTransition(req, res, 'purge', true);
+        if (!organization) return;
+
+        // 1. Verify the export; nothing is dropped without one that matches the schema
+        let exportPath: string | null = null;
+        if (organization.schemaName) {
+            const { archiveName, archiveChecksum } = req.body || {};
+            if (typeof archiveName !== 'string' || typeof archiveChecksum !== 'string' || !archiveName || !archiveChecksum) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'archiveName and archiveChecksum of an export of this organization are required'
+                });
+            }
+
+            exportPath = resolveArchivePath(archiveName);
+            if (!exportPath) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'archiveName must be the name of an archive in the export directory'
+                });
+            }
+
+            try {
+                await verifyTenantArchive(exportPath, archiveChecksum, organization.schemaName);
+            } catch (error) {
+                if (error instanceof TenantArchiveVerificationError) {
+                    return res.status(409).json({
+                        success: false,
+                        message: `Export could not be verified: ${error.message}`
+                    });
+                }
+                throw error;
+            }
+        }
+
+        // 2. Block every user of the organization
+        await schemaService.sharedDb.user.updateMany({
+            where: { organizationId: organization.id },
+            data: { isActive: false }
+        });
+
+        // 3. Drop the tenant schema
+        if (organization.schemaName) {
+            await schemaService.dropOrganizationSchema(organization.schemaName);
+        }
+
+        // 4. Record the purge
+        const updated = await schemaService.sharedDb.organization.update({
+            where: { id: organization.id },
+            data: {
+                status: 'PURGED',
+                isActive: false,
+                statusReason: req.body?.reason || null,
+                statusChangedAt: new Date(),
+                schemaName: null,
+                purgedAt: new Date(),
+                purgeExportPath: exportPath
+            },
+            select: organizationSelect
+        });
+        invalidateOrganizationContexts(organization.id);
+
+        console.log(`🗑️ Organization ${organization.name} purged; verified export at ${exportPath}`);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Organization purged',
+            data: updated
+        });
+    } catch (error: any) {
+        console.error('Purge organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to purge organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
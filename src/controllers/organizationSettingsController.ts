@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import {
+    DEFAULT_ORGANIZATION_SETTINGS,
+    getOrganizationSettings,
+    updateOrganizationSettings
+} from '../services/OrganizationSettingsService.js';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, resolveRolePermissions } from '../services/PermissionService.js';
+
+/**
+ * GET /api/organizations/settings
+ * Returns the caller's organization settings with defaults applied.
+ */
+export const getOrganizationSettingsController = async (req: Request, res: Response) => {
+    try {
+        const organizationId = req.user?.organizationId;
+        if (!organizationId) {
+            return res.status(400).json({
+                success: false,
+                message: 'User not associated with any organization'
+            });
+        }
+
+        const settings = await getOrganizationSettings(organizationId);
+        if (!settings) {
+            return res.status(404).json({
+                success: false,
+                message: 'Organization not found'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                settings,
+                defaults: DEFAULT_ORGANIZATION_SETTINGS
+            }
+        });
+    } catch (error: any) {
+        console.error('Get organization settings error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to fetch organization settings',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * PUT /api/organizations/settings
+ * Body: a partial settings object; keys set to null are reset to their default.
+ * Requires the 'organization:settings' permission (system administrators by default).
+ */
+export const updateOrganizationSettingsController = async (req: Request, res: Response) => {
+    try {
+        const organizationId = req.user?.organizationId;
+        if (!organizationId) {
+            return res.status(400).json({
+                success: false,
+                message: 'User not associated with any organization'
+            });
+        }
+
+        if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Request body must be a settings object'
+            });
+        }
+
+        const result = await updateOrganizationSettings(organizationId, req.body);
+        if (result.errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid organization settings',
+                errors: result.errors
+            });
+        }
+
+        console.log(`⚙️ Organization settings updated for ${organizationId} by ${req.user?.email}`);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Organization settings updated successfully',
+            data: {
+                settings: result.settings
+            }
+        });
+    } catch (error: any) {
+        console.error('Update organization settings error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to update organization settings',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * GET /api/organizations/permissions
+ * Returns the effective permission matrix of the caller's organization, the defaults it overrides,
+ * and the permissions held by the caller.
+ */
+export const getOrganizationPermissionsController = async (req: Request, res: Response) => {
+    try {
+        const roles = resolveRolePermissions(req.organizationSettings);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                permissions: PERMISSIONS,
+                roles,
+                defaults: DEFAULT_ROLE_PERMISSIONS,
+                overrides: req.organizationSettings?.rolePermissions || {},
+                current: roles[req.user!.role as keyof typeof roles] || []
+            }
+        });
+    } catch (error: any) {
+        console.error('Get organization permissions error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to fetch organization permissions',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
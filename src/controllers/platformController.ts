@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import {
+    getOrganizationOverview,
+    listOrganizationOverviews,
+    remigrateTenantSchema,
+    reverifyTenantSchema,
+    searchPlatformUsers
+} from '../services/PlatformService.js';
+import { reconcileOrganizationUsers } from '../services/UserProvisioningService.js';
+import { EmployeeRole } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const EMPLOYEE_ROLES = Object.values(EmployeeRole);
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Loads an organization that has a tenant schema, answering 404/409 itself when it cannot be used.
+ */
+const loadOrganizationWithSchema = async (req: Request, res: Response) => {
+    const organization = await schemaService.sharedDb.organization.findUnique({
+        where: { id: req.params.organizationId },
+        select: { id: true, name: true, schemaName: true, status: true }
+    });
+
+    if (!organization) {
+        res.status(404).json({
+            success: false,
+            message: 'Organization not found'
+        });
+        return null;
+    }
+
+    if (!organization.schemaName) {
+        res.status(409).json({
+            success: false,
+            message: `Organization ${organization.name} has no tenant schema`
+        });
+        return null;
+    }
+
+    return organization as typeof organization & { schemaName: string };
+};
+
+/**
+ * GET /api/platform/organizations
+ * Lists every organization with schema name, status, user counts, last login and storage usage.
+ * Row counts are estimates from Postgres statistics; pass `?includeTables=true` for a per-table breakdown.
+ */
+export const listPlatformOrganizationsController = async (req: Request, res: Response) => {
+    try {
+        const organizations = await listOrganizationOverviews(req.query.includeTables === 'true');
+
+        return res.status(200).json({
+            success: true,
+            data: organizations
+        });
+    } catch (error: any) {
+        console.error('List platform organizations error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to list organizations',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * GET /api/platform/organizations/:organizationId
+ * Returns one organization's overview with per-table storage.
+ * Pass `?exactCounts=true` to count every table instead of using statistics.
+ */
+export const getPlatformOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await getOrganizationOverview(req.params.organizationId, req.query.exactCounts === 'true');
+
+        if (!organization) {
+            return res.status(404).json({
+                success: false,
+                message: 'Organization not found'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: organization
+        });
+    } catch (error: any) {
+        console.error('Get platform organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to load organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * GET /api/platform/users?q=&organizationId=&role=&isActive=&includeEmployees=&page=&limit=
+ * Searches users across all organizations by email.
+ */
+export const searchPlatformUsersController = async (req: Request, res: Response) => {
+    try {
+        const { q, organizationId, role, isActive, includeEmployees, page = '1', limit = '25' } = req.query as Record<string, string | undefined>;
+
+        if (role && !EMPLOYEE_ROLES.includes(role as EmployeeRole)) {
+            return res.status(400).json({
+                success: false,
+                message: `role must be one of: ${EMPLOYEE_ROLES.join(', ')}`
+            });
+        }
+
+        if (isActive !== undefined && isActive !== 'true' && isActive !== 'false') {
+            return res.status(400).json({
+                success: false,
+                message: 'isActive must be true or false'
+            });
+        }
+
+        const pageNumber = parseInt(page as string, 10);
+        const pageSize = parseInt(limit as string, 10);
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
+                success: false,
+                message: `page must be a positive integer and limit between 1 and ${MAX_PAGE_SIZE}`
+            });
+        }
+
+        const result = await searchPlatformUsers({
+            query: q?.trim() || undefined,
+            organizationId: organizationId || undefined,
+            role: role as EmployeeRole | undefined,
+            isActive: isActive === undefined ? undefined : isActive === 'true',
+            includeEmployees: includeEmployees === 'true',
+            page: pageNumber,
+            limit: pageSize
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: result.users,
+            pagination: result.pagination
+        });
+    } catch (error: any) {
+        console.error('Search platform users error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to search users',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/platform/organizations/:organizationId/verify
+ * Re-runs verifySchemaCreation and the migration checksum verification for the organization's schema.
+ */
+export const verifyPlatformOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationWithSchema(req, res);
+        if (!organization) return;
+
+        console.log(`🔍 ${req.platformUser?.email} re-verifying schema ${organization.schemaName}`);
+        const result = await reverifyTenantSchema(organization.schemaName);
+        const healthy = result.structureValid && result.migrations.isValid;
+
+        return res.status(200).json({
+            success: healthy,
+            message: healthy ? 'Schema verified' : 'Schema verification found problems',
+            data: result
+        });
+    } catch (error: any) {
+        console.error('Verify organization schema error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to verify organization schema',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/platform/organizations/:organizationId/migrate
+ * Body: { dryRun?: boolean }
+ * Forces a migration run for one organization's schema and verifies it afterwards.
+ * Defaults to a dry run; send `dryRun: false` to apply.
+ */
+export const migratePlatformOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationWithSchema(req, res);
+        if (!organization) return;
+
+        const dryRun = req.body?.dryRun !== false;
+        console.log(`🔧 ${req.platformUser?.email} running ${dryRun ? 'dry-run' : 'apply'} migration for schema ${organization.schemaName}`);
+        const { summary, structureValid } = await remigrateTenantSchema(organization.schemaName, dryRun);
+
+        const hasFailures = summary.totals.failed > 0 || summary.totals.drifted > 0 || !structureValid;
+        return res.status(hasFailures ? 207 : 200).json({
+            success: !hasFailures,
+            data: {
+                ...summary,
+                structureValid
+            }
+        });
+    } catch (error: any) {
+        console.error('Migrate organization schema error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to migrate organization schema',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/platform/organizations/:organizationId/reconcile-users
+ * Body: { repair?: boolean }
+ * Compares the organization's shared users with its tenant employees. Reports only, unless `repair` is true.
+ */
+export const reconcilePlatformOrganizationUsersController = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadOrganizationWithSchema(req, res);
+        if (!organization) return;
+
+        const repair = req.body?.repair === true;
+        console.log(`🔧 ${req.platformUser?.email} reconciling users of ${organization.name}${repair ? ' with repair' : ''}`);
+        const report = await reconcileOrganizationUsers(organization.id, repair);
+
+        const hasFailures = report.status === 'failed' || report.status === 'mismatched';
+        return res.status(hasFailures ? 207 : 200).json({
+            success: !hasFailures,
+            data: report
+        });
+    } catch (error: any) {
+        console.error('Reconcile organization users error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to reconcile organization users',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
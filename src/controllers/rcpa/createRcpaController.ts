@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { OrganizationSettings } from '../../services/OrganizationSettingsService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -11,6 +12,7 @@ interface AuthenticatedRequest extends Request {
         role: string;
     };
     tenantDb?: any; // Prisma tenant client
+    organizationSettings?: OrganizationSettings;
 }
 
 /**
@@ -262,22 +264,21 @@ export const createRcpa = async (req: AuthenticatedRequest, res: Response) => {
         const diffTime = endDate.getTime() - startDate.getTime();
         const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
 
-        if (rcpaData.reportingPeriod === 'WEEKLY' && diffDays > 7) {
+        // Allowed periods and their maximum length come from the organization's settings
+        const periodConfig = req.organizationSettings?.rcpaReportingPeriods[rcpaData.reportingPeriod];
+        if (!periodConfig) {
             return res.status(400).json({
                 success: false,
-                message: `Weekly reporting period cannot exceed 7 days. Current selection: ${diffDays} days`,
-                debug: {
-                    startDate: startDate.toISOString(),
-                    endDate: endDate.toISOString(),
-                    days: diffDays
-                }
+                message: `Reporting period ${rcpaData.reportingPeriod} is not allowed for this organization`,
+                allowedPeriods: Object.keys(req.organizationSettings?.rcpaReportingPeriods || {})
             });
         }
 
-        if (rcpaData.reportingPeriod === 'MONTHLY' && diffDays > 31) {
+        if (diffDays > periodConfig.maxDays) {
+            const periodLabel = rcpaData.reportingPeriod === 'WEEKLY' ? 'Weekly' : 'Monthly';
             return res.status(400).json({
                 success: false,
-                message: `Monthly reporting period cannot exceed 31 days. Current selection: ${diffDays} days`,
+                message: `${periodLabel} reporting period cannot exceed ${periodConfig.maxDays} days. Current selection: ${diffDays} days`,
                 debug: {
                     startDate: startDate.toISOString(),
                     endDate: endDate.toISOString(),
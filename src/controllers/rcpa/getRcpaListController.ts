@@ -1,5 +1,8 @@
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
+import { getSubtreeIds } from '../../services/TerritoryService.js';
+import { loadAssignmentPeriods, territoriesOn } from '../../services/TerritoryTransferService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -14,8 +17,11 @@ interface AuthenticatedRequest extends Request {
 }
 
 /**
- * GET /api/rcpa
- * List only RCPA reports created by the authenticated employee
+ * GET /api/rcpa?territoryId=
+ * List RCPA reports created by the authenticated employee and by the employees they can see
+ * (their team and anyone assigned below their territories). Each report is attributed to the
+ * territory its employee covered on the observation date; territoryId keeps only reports done
+ * in that territory or below it.
  */
 export const getRcpaList = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -28,9 +34,11 @@ export const getRcpaList = async (req: AuthenticatedRequest, res: Response) => {
             });
         }
 
+        const scope = await getRequestVisibilityScope(req);
+
         const rcpaReports = await req.tenantDb.rcpaReport.findMany({
-            where: {
-                employeeId: req.user?.id
+            where: scope.unrestricted ? {} : {
+                employeeId: { in: scope.employeeIds }
             },
             include: {
                 chemist: {
@@ -52,8 +60,16 @@ export const getRcpaList = async (req: AuthenticatedRequest, res: Response) => {
             }
         });
 
+        const periods = await loadAssignmentPeriods(req.tenantDb, [...new Set(rcpaReports.map((report: any) => report.employeeId))]);
+        const territoryFilter = req.query.territoryId
+            ? new Set(await getSubtreeIds(req.tenantDb, req.query.territoryId as string))
+            : null;
+        const attributed = rcpaReports
+            .map((report: any) => ({ report, territories: territoriesOn(periods, report.employeeId, report.createdAt) }))
+            .filter(({ territories }) => !territoryFilter || territories.some(territory => territoryFilter.has(territory.id)));
+
         // Transform data to match frontend expectations
-        const transformedReports = rcpaReports.map((report: any) => ({
+        const transformedReports = attributed.map(({ report, territories }) => ({
             id: report.id,
             chemistName: report.chemist?.name || 'Unknown Chemist',
             chemistAddress: report.chemist?.address || '',
@@ -61,7 +77,9 @@ export const getRcpaList = async (req: AuthenticatedRequest, res: Response) => {
             totalPrescriptions: report.totalPrescription || 0,
             startDate: report.startDate,
             endDate: report.endDate,
-            reportingPeriod: report.reportingPeriod
+            reportingPeriod: report.reportingPeriod,
+            employeeName: [report.employee?.firstName, report.employee?.lastName].filter(Boolean).join(' '),
+            territoryName: territories[0]?.name || null
         }));
 
         res.status(200).json({
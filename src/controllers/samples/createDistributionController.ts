@@ -15,6 +15,7 @@ interface AuthenticatedRequest extends Request {
 
 // @ts-nocheck
 import { Request, Response } from 'express';
+import { getRequestVisibilityScope } from '../../services/VisibilityService.js';
 
 // Extended Request interface to include tenant database and user info
 interface AuthenticatedRequest extends Request {
@@ -44,19 +45,11 @@ export const getCustomers = async (req: AuthenticatedRequest, res: Response): Pr
             return;
         }
 
-        // Get employee's territories
-        const employeeTerritories = await req.tenantDb.employeeTerritory.findMany({
-            where: {
-                employeeId: req.user?.id
-            },
-            select: {
-                territoryId: true
-            }
-        });
+        // Territories the employee can see: their own, everything below them and their team's
+        const scope = await getRequestVisibilityScope(req);
+        const territoryFilter = scope.unrestricted ? undefined : { in: scope.territoryIds };
 
-        const territoryIds = employeeTerritories.map((et: any) => et.territoryId);
-
-        if (territoryIds.length === 0) {
+        if (!scope.unrestricted && scope.territoryIds.length === 0) {
             res.status(200).json({
                 success: true,
                 message: 'No territories assigned to employee',
@@ -83,9 +76,7 @@ export const getCustomers = async (req: AuthenticatedRequest, res: Response): Pr
                     },
                     where: {
                         hospital: {
-                            territoryId: {
-                                in: territoryIds
-                            }
+                            territoryId: territoryFilter
                         }
                     }
                 }
@@ -95,9 +86,7 @@ export const getCustomers = async (req: AuthenticatedRequest, res: Response): Pr
                 hospitalAssociations: {
                     some: {
                         hospital: {
-                            territoryId: {
-                                in: territoryIds
-                            }
+                            territoryId: territoryFilter
                         }
                     }
                 }
@@ -107,9 +96,7 @@ export const getCustomers = async (req: AuthenticatedRequest, res: Response): Pr
         // Get chemists in employee's territories
         const chemists = await req.tenantDb.chemist.findMany({
             where: {
-                territoryId: {
-                    in: territoryIds
-                },
+                territoryId: territoryFilter,
                 isActive: true
             }
         });
@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import {
+  listActiveSessions,
+  refreshSession,
+  revokeSessionByRefreshToken,
+  revokeSessions,
+  SessionError
+} from '../services/SessionService.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+/**
+ * POST /api/user/refresh
+ * Body: { refreshToken: string }
+ * Returns a new access token and a new refresh token; the presented refresh token stops working.
+ */
+export const refreshTokenController = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body || {};
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    const tokens = await refreshSession(refreshToken);
+    res.json({
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
+    });
+  } catch (error: any) {
+    if (error instanceof SessionError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+};
+
+/**
+ * POST /api/user/logout
+ * Body: { refreshToken: string }
+ * Ends the session of this device. Works with an expired access token.
+ */
+export const logoutController = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body || {};
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    await revokeSessionByRefreshToken(refreshToken);
+    // Same answer for unknown tokens: the session is gone either way
+    res.json({ success: true, message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+};
+
+/**
+ * POST /api/user/logout_all
+ * Ends every session of the calling user, on every device.
+ */
+export const logoutAllController = async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeSessions({ userId: req.user!.employeeId }, 'logout_all');
+    res.json({ success: true, message: 'Logged out from all devices', data: { revokedSessions: revoked } });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+};
+
+/**
+ * GET /api/user/sessions
+ * Lists the calling user's active sessions.
+ */
+export const listSessionsController = async (req: Request, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.employeeId);
+    const currentSessionId = req.user?.sid;
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({ ...session, current: session.id === currentSessionId }))
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+};
+
+/**
+ * POST /api/user/revoke_sessions
+ * Body: { email: string }
+ * Ends every session of an employee of the caller's organization, e.g. right after deactivating them.
+ * Requires the 'sessions:revoke' permission.
+ */
+export const revokeUserSessionsController = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body || {};
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'email is required' });
+    }
+
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email },
+      select: { id: true, organizationId: true }
+    });
+    if (!user || user.organizationId !== req.user!.organizationId) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revoked = await revokeSessions({ userId: user.id }, 'revoked_by_admin');
+    console.log(`🔒 ${req.user!.email} revoked ${revoked} session(s) of ${email}`);
+
+    res.json({ success: true, message: 'Sessions revoked', data: { revokedSessions: revoked } });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+};
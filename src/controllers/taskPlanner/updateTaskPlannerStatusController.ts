@@ -2,6 +2,7 @@
 
 import express from 'express'
 import { Request, Response } from 'express'
+import { sendEmail } from '../../services/EmailService.js'
 
 export const updateTaskPlannerStatusController = async (req: Request, res: Response) => {
     try {
@@ -23,7 +24,7 @@ export const updateTaskPlannerStatusController = async (req: Request, res: Respo
         }
 
         const taskPlannerId = req.params.taskPlanner_id;
-        const { approvalStatus } = req.body;
+        const { approvalStatus, comments } = req.body;
 
         if (!taskPlannerId) {
             return res.status(400).json({
@@ -178,6 +179,25 @@ export const updateTaskPlannerStatusController = async (req: Request, res: Respo
             };
         });
 
+        // Let the planner's owner know about the decision; the status change stands even if this fails
+        if (approvalStatus === 'APPROVED' || approvalStatus === 'REJECTED') {
+            const { employee } = updatedData.planner;
+            try {
+                await sendEmail('plan_decision', employee.email, {
+                    userName: `${employee.firstName} ${employee.lastName || ''}`.trim(),
+                    userEmail: employee.email,
+                    decision: approvalStatus,
+                    startDate: taskPlanner.startDate,
+                    endDate: taskPlanner.endDate,
+                    taskCount: updatedData.updatedCounts.total,
+                    reviewerName: req.user!.email,
+                    comments: typeof comments === 'string' && comments.trim() ? comments.trim() : undefined
+                }, { organizationId: req.user!.organizationId });
+            } catch (emailError) {
+                console.error(`❌ Failed to queue plan decision email to ${employee.email}:`, emailError);
+            }
+        }
+
         // Prepare success message based on status
         let successMessage = 'Task planner status updated successfully';
         if (approvalStatus === 'PENDING_APPROVAL') {
@@ -14,6 +14,7 @@ interface DailyTask {
     completionStatus: string;
     approvalStatus: string;
     plannerId: string;
+    transferId?: string | null; // Set when a territory transfer flagged or reassigned the task
 }
 
 /**
@@ -122,7 +123,8 @@ export const getTasksController = async (req: Request, res: Response) => {
                 location: location,
                 completionStatus: task.completionStatus,
                 approvalStatus: task.approvalStatus,
-                plannerId: task.plannerId
+                plannerId: task.plannerId,
+                transferId: task.transferId
             });
         }
 
@@ -167,7 +169,8 @@ export const getTasksController = async (req: Request, res: Response) => {
                 location: location || 'Gowlidoddy,Hyderabad,Telangana',
                 completionStatus: task.completionStatus,
                 approvalStatus: task.approvalStatus,
-                plannerId: task.plannerId
+                plannerId: task.plannerId,
+                transferId: task.transferId
             });
         }
 
@@ -351,7 +354,8 @@ export const getTasksOfPlannerController = async (req: Request, res: Response) =
                 location: location,
                 completionStatus: task.completionStatus,
                 approvalStatus: task.approvalStatus,
-                plannerId: task.plannerId
+                plannerId: task.plannerId,
+                transferId: task.transferId
             });
         }
 
@@ -396,7 +400,8 @@ export const getTasksOfPlannerController = async (req: Request, res: Response) =
                 location: location || 'Gowlidoddy,Hyderabad,Telangana',
                 completionStatus: task.completionStatus,
                 approvalStatus: task.approvalStatus,
-                plannerId: task.plannerId
+                plannerId: task.plannerId,
+                transferId: task.transferId
             });
         }
 
@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import {
+    addTeamMembers,
+    createTeam,
+    disbandTeam,
+    getEmployeeTeams,
+    getTeam,
+    listTeams,
+    removeTeamMember,
+    renameTeam,
+    setTeamLead,
+    TeamError
+} from '../../services/TeamService.js';
+
+const handleTeamError = (res: Response, error: any, action: string) => {
+    if (error instanceof TeamError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+
+    console.error(`${action} error:`, error);
+    return res.status(500).json({
+        success: false,
+        message: `Failed to ${action.toLowerCase()}`,
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+};
+
+/**
+ * GET /api/teams?search=
+ * Lists active teams with their lead and members.
+ */
+export const listTeamsController = async (req: Request, res: Response) => {
+    try {
+        const search = typeof req.query.search === 'string' && req.query.search ? req.query.search : undefined;
+        const teams = await listTeams(req.tenantDb!, { search });
+
+        res.json({ success: true, data: teams });
+    } catch (error) {
+        handleTeamError(res, error, 'List teams');
+    }
+};
+
+/**
+ * GET /api/teams/me
+ * The team the caller leads, the team they belong to and the manager they report to.
+ */
+export const getMyTeamsController = async (req: Request, res: Response) => {
+    try {
+        if (!req.user?.employeeId) {
+            return res.status(403).json({ success: false, message: 'Only employees belong to teams' });
+        }
+
+        const teams = await getEmployeeTeams(req.tenantDb!, req.user.employeeId);
+        res.json({ success: true, data: teams });
+    } catch (error) {
+        handleTeamError(res, error, 'Get my teams');
+    }
+};
+
+/**
+ * GET /api/teams/:teamId
+ */
+export const getTeamController = async (req: Request, res: Response) => {
+    try {
+        const team = await getTeam(req.tenantDb!, req.params.teamId);
+        res.json({ success: true, data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Get team');
+    }
+};
+
+/**
+ * POST /api/teams
+ * Body: { teamName, leadId, memberIds?: string[] }
+ * The lead must be a sales manager or administrator who does not lead another team; members must
+ * not belong to another team. Members report to the lead from then on.
+ */
+export const createTeamController = async (req: Request, res: Response) => {
+    try {
+        const { teamName, leadId, memberIds } = req.body || {};
+        const team = await createTeam(req.tenantDb!, { teamName, leadId, memberIds });
+
+        res.status(201).json({ success: true, message: 'Team created', data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Create team');
+    }
+};
+
+/**
+ * PUT /api/teams/:teamId
+ * Body: { teamName }. Use the lead and members endpoints to change who is in the team.
+ */
+export const updateTeamController = async (req: Request, res: Response) => {
+    try {
+        const { teamName, leadId } = req.body || {};
+        if (leadId !== undefined) {
+            return res.status(400).json({ success: false, message: 'Use PUT /api/teams/:teamId/lead to change the lead' });
+        }
+
+        const team = await renameTeam(req.tenantDb!, req.params.teamId, teamName);
+        res.json({ success: true, message: 'Team updated', data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Update team');
+    }
+};
+
+/**
+ * PUT /api/teams/:teamId/lead
+ * Body: { leadId }
+ */
+export const setTeamLeadController = async (req: Request, res: Response) => {
+    try {
+        const team = await setTeamLead(req.tenantDb!, req.params.teamId, req.body?.leadId);
+        console.log(`👥 ${req.user!.email} changed the lead of team ${team.id}`);
+
+        res.json({ success: true, message: 'Team lead updated', data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Set team lead');
+    }
+};
+
+/**
+ * POST /api/teams/:teamId/members
+ * Body: { employeeIds: string[] }
+ */
+export const addTeamMembersController = async (req: Request, res: Response) => {
+    try {
+        const team = await addTeamMembers(req.tenantDb!, req.params.teamId, req.body?.employeeIds);
+        res.json({ success: true, message: 'Team members added', data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Add team members');
+    }
+};
+
+/**
+ * DELETE /api/teams/:teamId/members/:employeeId
+ */
+export const removeTeamMemberController = async (req: Request, res: Response) => {
+    try {
+        const team = await removeTeamMember(req.tenantDb!, req.params.teamId, req.params.employeeId);
+        res.json({ success: true, message: 'Team member removed', data: team });
+    } catch (error) {
+        handleTeamError(res, error, 'Remove team member');
+    }
+};
+
+/**
+ * DELETE /api/teams/:teamId
+ * Disbands the team. Its members stay employees but no longer report to the lead.
+ */
+export const disbandTeamController = async (req: Request, res: Response) => {
+    try {
+        const result = await disbandTeam(req.tenantDb!, req.params.teamId);
+        res.json({ success: true, message: 'Team disbanded', data: result });
+    } catch (error) {
+        handleTeamError(res, error, 'Disband team');
+    }
+};
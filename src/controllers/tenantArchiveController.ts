@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { exportTenantSchema, importTenantArchive, resolveArchivePath } from '../services/TenantExportService.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+/**
+ * POST /api/organizations/:organizationId/export
+ * Body: { format?: 'jsonl' | 'sql' }
+ * Writes a versioned archive of the organization's schema to the export directory.
+ * The returned archiveName and checksum are what a purge asks for.
+ */
+export const exportOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const { organizationId } = req.params;
+        const format = req.body?.format || 'jsonl';
+
+        if (format !== 'jsonl' && format !== 'sql') {
+            return res.status(400).json({
+                success: false,
+                message: "format must be 'jsonl' or 'sql'"
+            });
+        }
+
+        const organization = await schemaService.sharedDb.organization.findUnique({
+            where: { id: organizationId },
+            select: { id: true, schemaName: true }
+        });
+
+        if (!organization) {
+            return res.status(404).json({
+                success: false,
+                message: 'Organization not found'
+            });
+        }
+
+        if (!organization.schemaName) {
+            return res.status(409).json({
+                success: false,
+                message: 'Organization has no schema to export'
+            });
+        }
+
+        const result = await exportTenantSchema(organization.schemaName, format);
+
+        return res.status(201).json({
+            success: true,
+            message: 'Organization exported successfully',
+            data: {
+                archiveName: path.basename(result.exportPath),
+                checksum: result.checksum,
+                manifest: result.manifest
+            }
+        });
+    } catch (error: any) {
+        console.error('Export organization error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to export organization',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/import
+ * Body: { archiveName: string, organizationName: string, contactEmail?: string, allowMigrationMismatch?: boolean }
+ * Restores an archive from the export directory into a new organization and schema.
+ */
+export const importOrganizationController = async (req: Request, res: Response) => {
+    try {
+        const { archiveName, organizationName, contactEmail, allowMigrationMismatch } = req.body || {};
+
+        if (!archiveName || !organizationName) {
+            return res.status(400).json({
+                success: false,
+                message: 'archiveName and organizationName are required'
+            });
+        }
+
+        // Only archives inside the export directory may be imported
+        const archivePath = resolveArchivePath(archiveName);
+        if (!archivePath) {
+            return res.status(400).json({
+                success: false,
+                message: 'archiveName must be the name of an archive in the export directory'
+            });
+        }
+
+        const result = await importTenantArchive(archivePath, {
+            organizationName,
+            contactEmail,
+            allowMigrationMismatch: allowMigrationMismatch === true
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: 'Archive imported successfully',
+            data: result
+        });
+    } catch (error: any) {
+        console.error('Import organization error:', error);
+
+        if (error.code === 'P2002') {
+            return res.status(409).json({
+                success: false,
+                message: 'An organization with this name already exists'
+            });
+        }
+
+        if (error.code === 'ENOENT') {
+            return res.status(404).json({
+                success: false,
+                message: 'Archive not found'
+            });
+        }
+
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to import archive',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import SchemaManagementService, { TenantMigrationMode } from '../services/SchemaManagementService.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const MAX_CONCURRENCY = 10;
+
+/**
+ * GET /api/organizations/migrations
+ * Lists every organization's schema with its applied and pending tenant migrations.
+ * Pass `?schemas=a,b` to restrict the report and `?includeSql=true` to include the rewritten SQL.
+ */
+export const getTenantMigrationStatusController = async (req: Request, res: Response) => {
+    try {
+        const schemaNames = typeof req.query.schemas === 'string'
+            ? req.query.schemas.split(',').map(s => s.trim()).filter(Boolean)
+            : undefined;
+
+        const summary = await schemaService.runTenantMigrations({
+            mode: req.query.includeSql === 'true' ? 'dry-run' : 'status',
+            schemaNames,
+            concurrency: MAX_CONCURRENCY
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: summary
+        });
+    } catch (error: any) {
+        console.error('Tenant migration status error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to load tenant migration status',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/migrations/run
+ * Body: { dryRun?: boolean, schemaNames?: string[], concurrency?: number }
+ * Applies pending tenant migrations (or previews them when dryRun is true).
+ */
+export const runTenantMigrationsController = async (req: Request, res: Response) => {
+    try {
+        const { dryRun = true, schemaNames, concurrency = 2 } = req.body || {};
+
+        if (schemaNames !== undefined && (!Array.isArray(schemaNames) || schemaNames.some((s: any) => typeof s !== 'string'))) {
+            return res.status(400).json({
+                success: false,
+                message: 'schemaNames must be an array of schema names'
+            });
+        }
+
+        const parsedConcurrency = Number(concurrency);
+        if (!Number.isInteger(parsedConcurrency) || parsedConcurrency < 1 || parsedConcurrency > MAX_CONCURRENCY) {
+            return res.status(400).json({
+                success: false,
+                message: `concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`
+            });
+        }
+
+        const mode: TenantMigrationMode = dryRun === false ? 'apply' : 'dry-run';
+        const summary = await schemaService.runTenantMigrations({
+            mode,
+            schemaNames,
+            concurrency: parsedConcurrency
+        });
+
+        const hasFailures = summary.totals.failed > 0 || summary.totals.drifted > 0;
+        return res.status(hasFailures ? 207 : 200).json({
+            success: !hasFailures,
+            data: summary
+        });
+    } catch (error: any) {
+        console.error('Tenant migration run error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to run tenant migrations',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+/**
+ * POST /api/organizations/migrations/rollback
+ * Body: { targetMigration: string, schemaNames: string[], dryRun?: boolean, confirm?: string }
+ * Rolls the given schemas back to targetMigration using the paired rollback scripts.
+ * A real rollback requires `confirm` to repeat the target migration name.
+ */
+export const rollbackTenantMigrationsController = async (req: Request, res: Response) => {
+    try {
+        const { targetMigration, schemaNames, dryRun = true, confirm } = req.body || {};
+
+        if (!targetMigration || typeof targetMigration !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'targetMigration is required'
+            });
+        }
+
+        if (!Array.isArray(schemaNames) || schemaNames.length === 0 || schemaNames.some((s: any) => typeof s !== 'string')) {
+            return res.status(400).json({
+                success: false,
+                message: 'schemaNames must be a non-empty array of schema names'
+            });
+        }
+
+        if (dryRun === false && confirm !== targetMigration) {
+            return res.status(400).json({
+                success: false,
+                message: 'Set confirm to the target migration name to perform the rollback'
+            });
+        }
+
+        const summary = await schemaService.rollbackTenants({
+            targetMigration,
+            schemaNames,
+            dryRun: dryRun !== false,
+            concurrency: 1
+        });
+
+        const hasFailures = summary.totals.failed > 0 || summary.totals.drifted > 0;
+        return res.status(hasFailures ? 207 : 200).json({
+            success: !hasFailures,
+            data: summary
+        });
+    } catch (error: any) {
+        console.error('Tenant rollback error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to roll back tenant migrations',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
@@ -0,0 +1,400 @@
+import { Request, Response } from 'express';
+import {
+    createTerritory,
+    deleteTerritory,
+    getTerritory,
+    getTerritoryTree,
+    listTerritories,
+    mergeTerritory,
+    moveTerritory,
+    TerritoryError,
+    updateTerritory
+} from '../../services/TerritoryService.js';
+import {
+    findTerritoryMismatches,
+    locatePoint,
+    reassignMismatchedLocations,
+    setTerritoryBoundaries
+} from '../../services/TerritoryGeoService.js';
+import {
+    cancelTransfer,
+    getAssignmentHistory,
+    getTerritoryEmployeesAsOf,
+    getTransfer,
+    listTransfers,
+    parseDateOnly,
+    transferEmployee
+} from '../../services/TerritoryTransferService.js';
+
+const handleTerritoryError = (res: Response, error: any, action: string) => {
+    if (error instanceof TerritoryError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+
+    console.error(`${action} error:`, error);
+    return res.status(500).json({
+        success: false,
+        message: `Failed to ${action.toLowerCase()}`,
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+};
+
+/**
+ * GET /api/territories?type=&parentTerritoryId=&search=
+ * Lists territories with their counts. parentTerritoryId=root lists the top-level ones.
+ */
+export const listTerritoriesController = async (req: Request, res: Response) => {
+    try {
+        const { type, parentTerritoryId, search } = req.query as Record<string, string | undefined>;
+
+        const territories = await listTerritories(req.tenantDb!, {
+            type: type || undefined,
+            parentTerritoryId: parentTerritoryId === 'root' ? null : parentTerritoryId || undefined,
+            search: search || undefined
+        });
+
+        res.json({ success: true, data: territories });
+    } catch (error) {
+        handleTerritoryError(res, error, 'List territories');
+    }
+};
+
+/**
+ * GET /api/territories/tree?rootId=
+ * The territory hierarchy as nested nodes, from the top or from one territory down.
+ */
+export const getTerritoryTreeController = async (req: Request, res: Response) => {
+    try {
+        const rootId = typeof req.query.rootId === 'string' && req.query.rootId ? req.query.rootId : undefined;
+        const tree = await getTerritoryTree(req.tenantDb!, rootId);
+
+        res.json({ success: true, data: tree });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Get territory tree');
+    }
+};
+
+/**
+ * GET /api/territories/:territoryId
+ * One territory with its parent, children, ancestors and counts.
+ */
+export const getTerritoryController = async (req: Request, res: Response) => {
+    try {
+        const territory = await getTerritory(req.tenantDb!, req.params.territoryId);
+        res.json({ success: true, data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Get territory');
+    }
+};
+
+/**
+ * POST /api/territories
+ * Body: { name, type: region | state | city | area, parentTerritoryId?, boundaries? }
+ */
+export const createTerritoryController = async (req: Request, res: Response) => {
+    try {
+        const { name, type, parentTerritoryId, boundaries } = req.body || {};
+        const territory = await createTerritory(req.tenantDb!, req.user!.organizationId, { name, type, parentTerritoryId, boundaries });
+
+        res.status(201).json({ success: true, message: 'Territory created', data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Create territory');
+    }
+};
+
+/**
+ * PUT /api/territories/:territoryId
+ * Body: any of { name, type, boundaries }. Use the move endpoint to change the parent.
+ */
+export const updateTerritoryController = async (req: Request, res: Response) => {
+    try {
+        const { name, type, boundaries, parentTerritoryId } = req.body || {};
+        if (parentTerritoryId !== undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'Use POST /api/territories/:territoryId/move to change the parent territory'
+            });
+        }
+        if (name === undefined && type === undefined && boundaries === undefined) {
+            return res.status(400).json({ success: false, message: 'Provide at least one of: name, type, boundaries' });
+        }
+
+        const territory = await updateTerritory(req.tenantDb!, req.params.territoryId, { name, type, boundaries });
+
+        res.json({ success: true, message: 'Territory updated', data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Update territory');
+    }
+};
+
+/**
+ * DELETE /api/territories/:territoryId
+ * Only territories with nothing attached can be deleted (409 otherwise); merge the others.
+ */
+export const deleteTerritoryController = async (req: Request, res: Response) => {
+    try {
+        await deleteTerritory(req.tenantDb!, req.params.territoryId);
+        res.json({ success: true, message: 'Territory deleted' });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Delete territory');
+    }
+};
+
+/**
+ * POST /api/territories/:territoryId/move
+ * Body: { parentTerritoryId: string | null }
+ * Moves the territory and everything below it; null makes it a top-level territory.
+ */
+export const moveTerritoryController = async (req: Request, res: Response) => {
+    try {
+        const { parentTerritoryId } = req.body || {};
+        if (parentTerritoryId !== null && (typeof parentTerritoryId !== 'string' || !parentTerritoryId)) {
+            return res.status(400).json({ success: false, message: 'parentTerritoryId must be a territory id or null' });
+        }
+
+        const territory = await moveTerritory(req.tenantDb!, req.params.territoryId, parentTerritoryId);
+
+        res.json({ success: true, message: 'Territory moved', data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Move territory');
+    }
+};
+
+/**
+ * POST /api/territories/:territoryId/merge
+ * Body: { targetTerritoryId: string }
+ * Moves the territory's children, hospitals, chemists and employee assignments to the target,
+ * then deletes it.
+ */
+export const mergeTerritoryController = async (req: Request, res: Response) => {
+    try {
+        const { targetTerritoryId } = req.body || {};
+        if (typeof targetTerritoryId !== 'string' || !targetTerritoryId) {
+            return res.status(400).json({ success: false, message: 'targetTerritoryId is required' });
+        }
+
+        const result = await mergeTerritory(req.tenantDb!, req.params.territoryId, targetTerritoryId);
+        console.log(`🔀 ${req.user!.email} merged territory ${req.params.territoryId} into ${targetTerritoryId}`);
+
+        res.json({ success: true, message: 'Territories merged', data: result });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Merge territory');
+    }
+};
+
+/**
+ * GET /api/territories/locate?lat=&lng=
+ * Which territories contain a point, judged by their boundaries; the most specific one comes first.
+ */
+export const locatePointController = async (req: Request, res: Response) => {
+    try {
+        const { lat, lng } = req.query as Record<string, string | undefined>;
+        if (!lat || !lng) {
+            return res.status(400).json({ success: false, message: 'lat and lng are required' });
+        }
+
+        const result = await locatePoint(req.tenantDb!, Number(lat), Number(lng));
+
+        res.json({
+            success: true,
+            message: result.territory ? `Point is in ${result.territory.name}` : 'No territory contains this point',
+            data: result
+        });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Locate point');
+    }
+};
+
+/**
+ * PUT /api/territories/:territoryId/boundaries
+ * Body: a GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection, either as the JSON body or
+ * as a .geojson/.json file in the "file" field for boundaries too large for a JSON body.
+ */
+export const setTerritoryBoundariesController = async (req: Request, res: Response) => {
+    try {
+        let geoJson: unknown = req.body;
+        if (req.file) {
+            try {
+                geoJson = JSON.parse(req.file.buffer.toString('utf8'));
+            } catch {
+                return res.status(400).json({ success: false, message: 'The uploaded file is not valid JSON' });
+            }
+        }
+
+        if (!geoJson || typeof geoJson !== 'object' || Object.keys(geoJson).length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Send GeoJSON as the request body or upload a .geojson file in the "file" field'
+            });
+        }
+
+        const territory = await setTerritoryBoundaries(req.tenantDb!, req.params.territoryId, geoJson);
+        console.log(`🗺️ ${req.user!.email} set the boundaries of territory ${territory.id}`);
+
+        res.json({ success: true, message: 'Territory boundaries updated', data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Set territory boundaries');
+    }
+};
+
+/**
+ * DELETE /api/territories/:territoryId/boundaries
+ */
+export const clearTerritoryBoundariesController = async (req: Request, res: Response) => {
+    try {
+        const territory = await setTerritoryBoundaries(req.tenantDb!, req.params.territoryId, null);
+        res.json({ success: true, message: 'Territory boundaries removed', data: territory });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Remove territory boundaries');
+    }
+};
+
+/**
+ * GET /api/territories/mismatches
+ * Hospitals and chemists whose coordinates lie outside the boundaries of their assigned territory,
+ * each with the territory that does contain them, if any.
+ */
+export const territoryMismatchesController = async (req: Request, res: Response) => {
+    try {
+        const report = await findTerritoryMismatches(req.tenantDb!);
+
+        res.json({
+            success: true,
+            message: `${report.mismatches.length} of ${report.checked} checked locations are outside their territory`,
+            data: report
+        });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Find territory mismatches');
+    }
+};
+
+/**
+ * POST /api/territories/mismatches/reassign
+ * Body: { dryRun?: boolean }
+ * Moves mismatched hospitals and chemists into the territory containing them. Those outside every
+ * territory are left alone and listed as skipped.
+ */
+export const reassignMismatchesController = async (req: Request, res: Response) => {
+    try {
+        const dryRun = req.body?.dryRun === true || req.body?.dryRun === 'true';
+        const result = await reassignMismatchedLocations(req.tenantDb!, dryRun);
+
+        res.json({
+            success: true,
+            message: dryRun
+                ? `${result.reassigned.length} locations would be reassigned`
+                : `${result.reassigned.length} locations reassigned`,
+            data: result
+        });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Reassign territory mismatches');
+    }
+};
+
+/**
+ * GET /api/territories/:territoryId/employees?asOf=YYYY-MM-DD&includeSubtree=true
+ * Who covered the territory on a date (default today), counting transfers scheduled or recorded for it.
+ */
+export const territoryEmployeesController = async (req: Request, res: Response) => {
+    try {
+        const { asOf, includeSubtree } = req.query as Record<string, string | undefined>;
+        const date = asOf ? parseDateOnly(asOf, 'asOf') : new Date();
+
+        const result = await getTerritoryEmployeesAsOf(req.tenantDb!, req.params.territoryId, date, {
+            includeSubtree: includeSubtree === 'true'
+        });
+
+        res.json({ success: true, data: result });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Get territory employees');
+    }
+};
+
+/**
+ * GET /api/territories/assignments/:employeeId
+ * An employee's territory assignments over time, each marked past, current or scheduled.
+ */
+export const assignmentHistoryController = async (req: Request, res: Response) => {
+    try {
+        const history = await getAssignmentHistory(req.tenantDb!, req.params.employeeId);
+        res.json({ success: true, data: history });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Get assignment history');
+    }
+};
+
+/**
+ * GET /api/territories/transfers?employeeId=&territoryId=&includeCancelled=true
+ */
+export const listTransfersController = async (req: Request, res: Response) => {
+    try {
+        const { employeeId, territoryId, includeCancelled } = req.query as Record<string, string | undefined>;
+
+        const transfers = await listTransfers(req.tenantDb!, {
+            employeeId: employeeId || undefined,
+            territoryId: territoryId || undefined,
+            includeCancelled: includeCancelled === 'true'
+        });
+
+        res.json({ success: true, data: transfers });
+    } catch (error) {
+        handleTerritoryError(res, error, 'List transfers');
+    }
+};
+
+/**
+ * GET /api/territories/transfers/:transferId
+ * One transfer with the tasks it flagged or reassigned.
+ */
+export const getTransferController = async (req: Request, res: Response) => {
+    try {
+        const transfer = await getTransfer(req.tenantDb!, req.params.transferId);
+        res.json({ success: true, data: transfer });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Get transfer');
+    }
+};
+
+/**
+ * POST /api/territories/transfers
+ * Body: { employeeId, fromTerritoryId, toTerritoryId, effectiveDate: YYYY-MM-DD,
+ *         taskAction?: flag | reassign, reassignToEmployeeId?, reason? }
+ * Ends the employee's assignment to fromTerritoryId and starts one to toTerritoryId on the effective
+ * date. Their pending visits in the old territory from that date on are flagged (default) or handed
+ * to reassignToEmployeeId, who must cover the old territory.
+ */
+export const createTransferController = async (req: Request, res: Response) => {
+    try {
+        const { employeeId, fromTerritoryId, toTerritoryId, effectiveDate, taskAction, reassignToEmployeeId, reason } = req.body || {};
+
+        const transfer = await transferEmployee(
+            req.tenantDb!,
+            { employeeId, fromTerritoryId, toTerritoryId, effectiveDate, taskAction, reassignToEmployeeId, reason },
+            req.user!.id || null
+        );
+        const tasks = transfer._count.doctorTasks + transfer._count.chemistTasks;
+
+        res.status(201).json({
+            success: true,
+            message: `Transfer recorded; ${tasks} pending tasks ${transfer.taskAction === 'FLAG' ? 'flagged' : 'reassigned'}`,
+            data: transfer
+        });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Create transfer');
+    }
+};
+
+/**
+ * POST /api/territories/transfers/:transferId/cancel
+ * Only transfers that have not taken effect yet can be cancelled.
+ */
+export const cancelTransferController = async (req: Request, res: Response) => {
+    try {
+        const result = await cancelTransfer(req.tenantDb!, req.params.transferId);
+        console.log(`🔁 ${req.user!.email} cancelled transfer ${req.params.transferId}`);
+
+        res.json({ success: true, message: 'Transfer cancelled', data: result });
+    } catch (error) {
+        handleTerritoryError(res, error, 'Cancel transfer');
+    }
+};
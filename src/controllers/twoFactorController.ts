@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  getTwoFactorStatus,
+  isTwoFactorRole,
+  regenerateRecoveryCodes,
+  removeTwoFactor,
+  TwoFactorError,
+  TWO_FACTOR_ROLES,
+  verifyTwoFactorCode
+} from '../services/TwoFactorService.js';
+
+const handleTwoFactorError = (res: Response, error: any, action: string) => {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+
+  console.error(`${action} error:`, error);
+  return res.status(500).json({
+    success: false,
+    message: `Failed to ${action.toLowerCase()}`,
+    error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  });
+};
+
+const readCode = (req: Request, res: Response): string | null => {
+  const { code } = req.body || {};
+  if (!code || typeof code !== 'string') {
+    res.status(400).json({ success: false, message: 'code is required' });
+    return null;
+  }
+  return code;
+};
+
+/**
+ * GET /api/user/2fa
+ * Whether the caller has two-factor authentication, and whether their organization requires it.
+ */
+export const getTwoFactorStatusController = async (req: Request, res: Response) => {
+  try {
+    const status = await getTwoFactorStatus(req.user!.employeeId);
+
+    res.json({
+      success: true,
+      data: {
+        ...status,
+        available: isTwoFactorRole(req.user!.role),
+        required: isTwoFactorRole(req.user!.role) && !!req.organizationSettings?.requireTwoFactor
+      }
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Get two-factor status');
+  }
+};
+
+/**
+ * POST /api/user/2fa/setup
+ * Starts enrolment: returns the secret, the otpauth URI and a QR code (data URL) for an authenticator app.
+ */
+export const setupTwoFactorController = async (req: Request, res: Response) => {
+  try {
+    const enrollment = await beginTwoFactorEnrollment({
+      id: req.user!.employeeId,
+      email: req.user!.email,
+      role: req.user!.role
+    });
+
+    res.json({ success: true, data: enrollment });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Set up two-factor authentication');
+  }
+};
+
+/**
+ * POST /api/user/2fa/enable
+ * Body: { code: string }
+ * Turns two-factor authentication on with the first code from the app and returns the recovery codes.
+ */
+export const enableTwoFactorController = async (req: Request, res: Response) => {
+  try {
+    const code = readCode(req, res);
+    if (!code) return;
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(req.user!.employeeId, code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are not shown again.',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Enable two-factor authentication');
+  }
+};
+
+/**
+ * POST /api/user/2fa/disable
+ * Body: { code: string }
+ * Turns two-factor authentication off. Not allowed while the organization requires it.
+ */
+export const disableTwoFactorController = async (req: Request, res: Response) => {
+  try {
+    const code = readCode(req, res);
+    if (!code) return;
+
+    if (req.organizationSettings?.requireTwoFactor && isTwoFactorRole(req.user!.role)) {
+      return res.status(403).json({
+        success: false,
+        message: `Your organization requires two-factor authentication for ${TWO_FACTOR_ROLES.join(' and ')} accounts`
+      });
+    }
+
+    if (!(await verifyTwoFactorCode(req.user!.employeeId, code))) {
+      return res.status(400).json({ success: false, message: 'Invalid authentication code' });
+    }
+
+    await removeTwoFactor(req.user!.employeeId);
+    res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Disable two-factor authentication');
+  }
+};
+
+/**
+ * POST /api/user/2fa/recovery_codes
+ * Body: { code: string }
+ * Replaces all recovery codes; needs a current code from the app.
+ */
+export const regenerateRecoveryCodesController = async (req: Request, res: Response) => {
+  try {
+    const code = readCode(req, res);
+    if (!code) return;
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user!.employeeId, code);
+    res.json({ success: true, data: { recoveryCodes } });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Regenerate recovery codes');
+  }
+};
@@ -1,13 +1,16 @@
 import { Request, Response } from 'express';
-import bcrypt from 'bcrypt';
-import SchemaManagementService from '../services/SchemaManagementService.js';
-
-const schemaService = SchemaManagementService.getInstance();
+import { provisionUser, ProvisioningError } from '../services/UserProvisioningService.js';
 
 
+/**
+ * POST /api/user/createUserInsharedOnly
+ * Body: { org_id: string, email: string, password: string, firstName?: string }
+ * Creates an active administrator. Despite the route name, the tenant employee is created too,
+ * since a user without one cannot use any tenant route.
+ */
 export const createUserInShared = async (req: Request, res: Response) => {
     try {
-        const { org_id, email, password } = req.body;
+        const { org_id, email, password, firstName } = req.body;
 
         // Input validation
         if (!org_id || !email || !password) {
@@ -17,33 +20,15 @@ export const createUserInShared = async (req: Request, res: Response) => {
             });
         }
 
-        // Hash the password before storing
-        const hashedPassword = await bcrypt.hash(password, 10);
-
-        // Check if user already exists
-        const existingUser = await schemaService.sharedDb.user.findUnique({
-            where: { email: email }
+        const { user: adminUser } = await provisionUser(org_id, {
+            email,
+            password,
+            role: 'SYSTEM_ADMINISTRATOR',
+            firstName: firstName || email.split('@')[0],
+            isActive: true
         });
 
-        if (existingUser) {
-            return res.status(409).json({
-                success: false,
-                message: 'User with this email already exists'
-            });
-        }
-
-        // Create admin user
-        const adminUser = await schemaService.sharedDb.user.create({
-            data: {
-                email: email,
-                password: hashedPassword, // Use hashed password
-                role: 'SYSTEM_ADMINISTRATOR',
-                organizationId: org_id,
-                isActive: true
-            }
-        });
-
-        console.log(`Admin user "${adminUser.email}" created successfully in shared schema`);
+        console.log(`Admin user "${adminUser.email}" created successfully`);
 
         res.status(201).json({
             success: true,
@@ -57,6 +42,13 @@ export const createUserInShared = async (req: Request, res: Response) => {
         });
 
     } catch (error: any) {
+        if (error instanceof ProvisioningError) {
+            return res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+        }
+
         console.error('Error creating user:', error);
         res.status(500).json({
             success: false,
@@ -65,4 +57,3 @@ export const createUserInShared = async (req: Request, res: Response) => {
         });
     }
 };
-
@@ -0,0 +1,261 @@
+import { Request, Response } from 'express';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { listActiveLockouts, listLoginHistory, unlockAccount } from '../services/LoginThrottleService.js';
+import { removeTwoFactor } from '../services/TwoFactorService.js';
+import {
+  deactivateProvisionedUser,
+  deleteProvisionedUser,
+  ProvisioningError,
+  updateProvisionedUser,
+  UpdateUserInput
+} from '../services/UserProvisioningService.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const MAX_PAGE_SIZE = 100;
+
+const UPDATABLE_FIELDS: (keyof UpdateUserInput)[] = [
+  'role',
+  'firstName',
+  'lastName',
+  'phone',
+  'employeeCode',
+  'city',
+  'state',
+  'profilePic'
+];
+
+const handleUserManagementError = (res: Response, error: any, action: string) => {
+  if (error instanceof ProvisioningError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+
+  console.error(`${action} error:`, error);
+  return res.status(500).json({
+    success: false,
+    message: `Failed to ${action.toLowerCase()}`,
+    error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  });
+};
+
+const toUserResponse = (result: Awaited<ReturnType<typeof updateProvisionedUser>>) => ({
+  id: result.user.id,
+  email: result.user.email,
+  role: result.user.role,
+  isActive: result.user.isActive,
+  employee: {
+    id: result.employee.id,
+    firstName: result.employee.firstName,
+    lastName: result.employee.lastName,
+    phone: result.employee.phone,
+    employeeCode: result.employee.employeeCode,
+    city: result.employee.city,
+    state: result.employee.state,
+    profilePic: result.employee.profilePic
+  }
+});
+
+/**
+ * PUT /api/user/users/:userEmail
+ * Body: any of { role, firstName, lastName, phone, employeeCode, city, state, profilePic }
+ * Updates a user of the caller's organization in both the shared and the tenant database.
+ */
+export const updateUserController = async (req: Request, res: Response) => {
+  try {
+    const changes: UpdateUserInput = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (req.body?.[field] !== undefined) {
+        (changes as any)[field] = req.body[field];
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Provide at least one of: ${UPDATABLE_FIELDS.join(', ')}`
+      });
+    }
+
+    // Demoting yourself could leave the organization without an administrator
+    if (changes.role && req.params.userEmail === req.user!.email) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+    }
+
+    const result = await updateProvisionedUser(req.user!.organizationId, req.params.userEmail, changes);
+
+    res.json({ success: true, message: 'User updated', data: toUserResponse(result) });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Update user');
+  }
+};
+
+/**
+ * POST /api/user/users/:userEmail/deactivate
+ * Blocks the user in both databases and revokes all of their sessions.
+ */
+export const deactivateUserController = async (req: Request, res: Response) => {
+  try {
+    if (req.params.userEmail === req.user!.email) {
+      return res.status(400).json({ success: false, message: 'You cannot deactivate your own account' });
+    }
+
+    const { revokedSessions, ...result } = await deactivateProvisionedUser(req.user!.organizationId, req.params.userEmail);
+    console.log(`🚫 ${req.user!.email} deactivated ${req.params.userEmail}`);
+
+    res.json({ success: true, message: 'User deactivated', data: { ...toUserResponse(result), revokedSessions } });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Deactivate user');
+  }
+};
+
+/**
+ * POST /api/user/users/:userEmail/reactivate
+ * Lets a deactivated user log in again.
+ */
+export const reactivateUserController = async (req: Request, res: Response) => {
+  try {
+    const result = await updateProvisionedUser(req.user!.organizationId, req.params.userEmail, { isActive: true });
+    console.log(`✅ ${req.user!.email} reactivated ${req.params.userEmail}`);
+
+    res.json({ success: true, message: 'User reactivated', data: toUserResponse(result) });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Reactivate user');
+  }
+};
+
+/**
+ * DELETE /api/user/users/:userEmail
+ * Deletes a user from both databases. Users with recorded activity must be deactivated instead (409).
+ */
+export const deleteUserController = async (req: Request, res: Response) => {
+  try {
+    if (req.params.userEmail === req.user!.email) {
+      return res.status(400).json({ success: false, message: 'You cannot delete your own account' });
+    }
+
+    await deleteProvisionedUser(req.user!.organizationId, req.params.userEmail);
+
+    res.json({ success: true, message: 'User deleted' });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Delete user');
+  }
+};
+
+/**
+ * POST /api/user/users/:userEmail/unlock
+ * Lifts a lockout caused by repeated failed logins.
+ */
+export const unlockUserController = async (req: Request, res: Response) => {
+  try {
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email: req.params.userEmail },
+      select: { organizationId: true }
+    });
+    if (!user || user.organizationId !== req.user!.organizationId) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const unlocked = await unlockAccount(req.params.userEmail, req.user!.email);
+
+    res.json({
+      success: true,
+      message: unlocked > 0 ? 'Account unlocked' : 'Account was not locked',
+      data: { unlocked: unlocked > 0 }
+    });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Unlock user');
+  }
+};
+
+/**
+ * POST /api/user/users/:userEmail/reset_2fa
+ * Removes a user's second factor after they lost both their device and their recovery codes.
+ * They are asked to enrol again at their next login if the organization requires it.
+ */
+export const resetUserTwoFactorController = async (req: Request, res: Response) => {
+  try {
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email: req.params.userEmail },
+      select: { id: true, organizationId: true }
+    });
+    if (!user || user.organizationId !== req.user!.organizationId) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const removed = await removeTwoFactor(user.id);
+    console.log(`🔓 ${req.user!.email} reset two-factor authentication of ${req.params.userEmail}`);
+
+    res.json({
+      success: true,
+      message: removed ? 'Two-factor authentication reset' : 'User had no two-factor authentication',
+      data: { reset: removed }
+    });
+  } catch (error) {
+    handleUserManagementError(res, error, 'Reset two-factor authentication');
+  }
+};
+
+/**
+ * GET /api/user/lockouts
+ * Lists the organization's accounts that are currently locked.
+ */
+export const listLockoutsController = async (req: Request, res: Response) => {
+  try {
+    const lockouts = await listActiveLockouts(req.user!.organizationId);
+    res.json({ success: true, data: lockouts });
+  } catch (error) {
+    handleUserManagementError(res, error, 'List lockouts');
+  }
+};
+
+/**
+ * GET /api/user/login_history?email=&success=&from=&to=&page=&limit=
+ * Pages through the organization's login attempts, newest first.
+ */
+export const loginHistoryController = async (req: Request, res: Response) => {
+  try {
+    const { email, success, from, to, page = '1', limit = '25' } = req.query as Record<string, string | undefined>;
+
+    if (success !== undefined && success !== 'true' && success !== 'false') {
+      return res.status(400).json({ success: false, message: 'success must be true or false' });
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ success: false, message: 'from and to must be ISO dates' });
+    }
+
+    const pageNumber = parseInt(page, 10);
+    const pageSize = parseInt(limit, 10);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        message: `page must be a positive integer and limit between 1 and ${MAX_PAGE_SIZE}`
+      });
+    }
+
+    const { attempts, total } = await listLoginHistory({
+      organizationId: req.user!.organizationId,
+      email: email || undefined,
+      success: success === undefined ? undefined : success === 'true',
+      from: fromDate,
+      to: toDate,
+      page: pageNumber,
+      limit: pageSize
+    });
+
+    res.json({
+      success: true,
+      data: attempts,
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    handleUserManagementError(res, error, 'List login history');
+  }
+};
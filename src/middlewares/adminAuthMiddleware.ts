@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Protects platform administration routes with the shared ADMIN_API_KEY.
+ * Callers send the key in the `x-admin-key` header.
+ */
+function adminAuthMiddleware(req: Request, res: Response, next: NextFunction) {
+  const configuredKey = process.env.ADMIN_API_KEY;
+
+  if (!configuredKey) {
+    console.error('ADMIN_API_KEY is not configured; refusing admin request');
+    return res.status(503).json({ error: 'Admin API is not configured' });
+  }
+
+  const providedKey = req.headers['x-admin-key'];
+  if (typeof providedKey !== 'string' || !providedKey) {
+    return res.status(401).json({ error: 'Admin key required' });
+  }
+
+  // Compare digests so the check takes the same time regardless of where the keys differ
+  const expected = crypto.createHash('sha256').update(configuredKey).digest();
+  const provided = crypto.createHash('sha256').update(providedKey).digest();
+  if (!crypto.timingSafeEqual(expected, provided)) {
+    return res.status(403).json({ error: 'Invalid admin key' });
+  }
+
+  next();
+}
+
+export default adminAuthMiddleware;
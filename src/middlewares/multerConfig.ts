@@ -23,4 +23,22 @@ const storage = multer.diskStorage({
   }
 });
 
-export const upload = multer({ storage });
\ No newline at end of file
+export const upload = multer({ storage });
+
+// Spreadsheets are parsed straight from memory and never written to disk
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    cb(null, /\.(csv|xlsx)$/i.test(file.originalname));
+  }
+});
+
+// GeoJSON territory boundaries, kept in memory; detailed polygons easily exceed the JSON body limit
+export const geoJsonUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    cb(null, /\.(geojson|json)$/i.test(file.originalname));
+  }
+});
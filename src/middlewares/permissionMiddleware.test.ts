@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { NextFunction, Request, Response } from 'express';
+import type { AddressInfo } from 'net';
+import { requireEmployee, requirePermission, routeDeclaresPermission } from './permissionMiddleware.js';
+
+/**
+ * Stands in for tenantMiddleware with an API key holding `doctors:read` and the master data scopes:
+ * refuses the request unless the route declares a scope, as tenantMiddleware does.
+ */
+function asApiKey(req: Request, res: Response, next: NextFunction) {
+    if (!routeDeclaresPermission(req)) {
+        return res.status(403).json({ error: 'API keys are not accepted on this route' });
+    }
+    req.user = { id: undefined as unknown as string, employeeId: 'user-1', email: 'ERP sync', organizationId: 'org-1', role: 'API_KEY' };
+    req.principal = { type: 'api_key', apiKeyId: 'key-1' };
+    req.apiKey = { id: 'key-1', name: 'ERP sync', keyPrefix: 'pk_test', scopes: ['doctors:read', 'drugs:manage', 'hospitals:manage'] };
+    next();
+}
+
+async function statusOf(app: express.Express, path: string, method = 'GET'): Promise<number> {
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    try {
+        const { port } = server.address() as AddressInfo;
+        return (await fetch(`http://127.0.0.1:${port}${path}`, { method })).status;
+    } finally {
+        server.close();
+    }
+}
+
+function buildApp() {
+    const app = express();
+    const ok = (req: Request, res: Response) => res.json({ success: true });
+
+    app.get('/doctors', asApiKey, requirePermission('doctors:read'), ok);
+    app.get('/sessions', asApiKey, ok);
+    app.get('/tasks', asApiKey, requirePermission('doctors:read'), requireEmployee, ok);
+    app.get('/orders', asApiKey, requirePermission('orders:read'), ok);
+    // Declared like the drug and hospital routes in src/routes
+    app.put('/drugs/updateDrug/:drugId', asApiKey, requirePermission('drugs:manage'), ok);
+    app.post('/drugs/create', asApiKey, requirePermission('drugs:manage'), requireEmployee, ok);
+    app.post('/hospitals/create', asApiKey, requirePermission('hospitals:manage'), ok);
+    return app;
+}
+
+describe('API keys on tenant routes', () => {
+    it('are accepted on routes that declare a scope the key holds', async () => {
+        assert.equal(await statusOf(buildApp(), '/doctors'), 200);
+    });
+
+    it('are refused on routes that declare no scope', async () => {
+        assert.equal(await statusOf(buildApp(), '/sessions'), 403);
+    });
+
+    it('are refused when the key lacks the declared scope', async () => {
+        assert.equal(await statusOf(buildApp(), '/orders'), 403);
+    });
+
+    it('are refused on routes that act on an employee\'s own records', async () => {
+        assert.equal(await statusOf(buildApp(), '/tasks'), 403);
+    });
+
+    it('can manage hospitals and update drugs with the master data scopes', async () => {
+        assert.equal(await statusOf(buildApp(), '/hospitals/create', 'POST'), 200);
+        assert.equal(await statusOf(buildApp(), '/drugs/updateDrug/drug-1', 'PUT'), 200);
+    });
+
+    it('cannot create drugs, which record the employee who created them', async () => {
+        assert.equal(await statusOf(buildApp(), '/drugs/create', 'POST'), 403);
+    });
+});
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { hasPermission, Permission } from '../services/PermissionService.js';
+
+// Marks the guards made by requirePermission so tenantMiddleware can tell whether a route declares a scope
+const DECLARED_PERMISSION = Symbol('declaredPermission');
+
+type PermissionGuard = ((req: Request, res: Response, next: NextFunction) => unknown) & { [DECLARED_PERMISSION]?: Permission };
+
+/**
+ * Whether the matched route is guarded by requirePermission. API keys are only accepted on such routes;
+ * it must be called from a route-level middleware (req.route is not set for router.use middleware).
+ */
+export function routeDeclaresPermission(req: Request): boolean {
+  const stack: { handle: PermissionGuard }[] = req.route?.stack || [];
+  return stack.some(layer => layer.handle[DECLARED_PERMISSION] !== undefined);
+}
+
+/**
+ * Route guard for tenant routes; mount after tenantMiddleware, e.g.
+ * `router.post('/create', tenantMiddleware, requirePermission('drugs:manage'), createDrug)`.
+ * Checks the caller's EmployeeRole against the organization's permission matrix, or the scopes of an API key.
+ */
+export function requirePermission(permission: Permission) {
+  const guard: PermissionGuard = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // API keys hold an explicit list of scopes instead of a role
+    if (req.apiKey) {
+      if (!req.apiKey.scopes.includes(permission)) {
+        console.warn(`🚫 API key ${req.apiKey.keyPrefix} (${req.apiKey.name}) denied ${permission} on ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `This API key does not have the '${permission}' scope`,
+          requiredPermission: permission
+        });
+      }
+      return next();
+    }
+
+    if (!hasPermission(req.user.role, permission, req.organizationSettings)) {
+      console.warn(`🚫 ${req.user.email} (${req.user.role}) denied ${permission} on ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Your role does not have the '${permission}' permission`,
+        requiredPermission: permission
+      });
+    }
+
+    next();
+  };
+  guard[DECLARED_PERMISSION] = permission;
+  return guard;
+}
+
+/**
+ * Route guard for endpoints that act on the caller's own records (their tasks, orders, reports,
+ * inventory) or record them as the author. API keys and users without a tenant employee record
+ * are refused instead of reaching queries that filter on an employee id they do not have.
+ */
+export function requireEmployee(req: Request, res: Response, next: NextFunction) {
+  if (req.principal?.type !== 'employee' || !req.principal.employeeId) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: req.principal?.type === 'api_key'
+        ? 'This endpoint acts on an employee\'s own records and cannot be used with an API key'
+        : 'This endpoint requires an employee account'
+    });
+  }
+  next();
+}
+
+export default requirePermission;
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { isSessionActive, verifyAccessToken } from '../services/SessionService.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+/**
+ * Protects /api/platform routes. Callers log in through the normal login endpoint and send the
+ * JWT as a Bearer token; the platform role is read from the shared database on every request,
+ * never from the token, so revoking it takes effect immediately.
+ */
+async function platformAuthMiddleware(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = verifyAccessToken(token);
+
+    // Reject access tokens whose session was revoked
+    if (!(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
+    const user = await schemaService.sharedDb.user.findUnique({
+      where: { email: decoded.email },
+      select: { id: true, email: true, isActive: true, platformRole: true }
+    });
+
+    if (!user || !user.isActive || user.platformRole !== 'SUPER_ADMIN') {
+      return res.status(403).json({ error: 'Platform super-admin access required' });
+    }
+
+    req.platformUser = {
+      id: user.id,
+      email: user.email,
+      platformRole: user.platformRole
+    };
+
+    next();
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    console.error('Platform auth middleware error:', error);
+    res.status(500).json({ error: 'Failed to authorize platform request' });
+  }
+}
+
+export default platformAuthMiddleware;
@@ -1,98 +1,214 @@
 import SchemaManagementService from '../services/SchemaManagementService.js';
-import { PrismaClient as SharedPrismaClient } from '../../generated/prisma-shared/index.js';
+import { isSessionActive, verifyAccessToken } from '../services/SessionService.js';
+import { API_KEY_ROLE, authenticateApiKey, isApiKeyFormat } from '../services/ApiKeyService.js';
 import jwt from 'jsonwebtoken';
+import { resolveOrganizationSettings } from '../services/OrganizationSettingsService.js';
+import { routeDeclaresPermission } from './permissionMiddleware.js';
+import { cacheTenantContext, getCachedTenantContext, TenantContext } from '../services/TenantContextCache.js';
 import { Request, Response, NextFunction } from 'express';
 
 const schemaService = SchemaManagementService.getInstance();
 
+// Methods still allowed while an organization is archived
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Loads a user's identity and tenant context from the shared and tenant databases.
+ * @returns The context, or null if the user does not exist.
+ */
+async function resolveTenantContext(email: string): Promise<TenantContext | null> {
+  const user = await schemaService.sharedDb.user.findUnique({
+    where: {
+      email
+    },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      isActive: true,
+      organizationId: true,
+      organization: {
+        select: {
+          id: true,
+          name: true,
+          schemaName: true,
+          isActive: true,
+          status: true,
+          settings: true
+        }
+      }
+    }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  let tenantEmployeeId: string | undefined;
+  if (user.organization.schemaName && user.organization.isActive) {
+    const tenantDb = await schemaService.getTenantClient(user.organization.schemaName);
+    const employee = await tenantDb.employee.findUnique({
+      where: {
+        email
+      },
+      select: {
+        id: true
+      }
+    });
+    tenantEmployeeId = employee?.id;
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    isActive: user.isActive,
+    organizationId: user.organizationId,
+    organizationName: user.organization.name,
+    organizationIsActive: user.organization.isActive,
+    organizationStatus: user.organization.status,
+    schemaName: user.organization.schemaName,
+    settings: resolveOrganizationSettings(user.organization.settings),
+    tenantEmployeeId
+  };
+}
+
+/**
+ * Builds the tenant context of a request made with an API key. The key is not an employee:
+ * it has no tenant employee id and its role is only used for logging.
+ */
+function apiKeyTenantContext(apiKey: NonNullable<Awaited<ReturnType<typeof authenticateApiKey>>>): TenantContext {
+  return {
+    userId: `apikey:${apiKey.id}`,
+    email: `apikey:${apiKey.keyPrefix}`,
+    role: API_KEY_ROLE,
+    isActive: true,
+    organizationId: apiKey.organizationId,
+    organizationName: apiKey.organization.name,
+    organizationIsActive: apiKey.organization.isActive,
+    organizationStatus: apiKey.organization.status,
+    schemaName: apiKey.organization.schemaName,
+    settings: resolveOrganizationSettings(apiKey.organization.settings)
+  };
+}
+
 async function tenantMiddleware(req: Request, res: Response, next: NextFunction) {
   try {
-    // Extract token
-    const token = req.headers.authorization?.split(' ')[1];
+    let decoded: any = {};
+    let context: TenantContext | null | undefined;
+    let apiKey: Awaited<ReturnType<typeof authenticateApiKey>> = null;
+
+    // Integrations authenticate with an organization API key instead of a user JWT
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      apiKey = isApiKeyFormat(apiKeyHeader) ? await authenticateApiKey(apiKeyHeader) : null;
+      if (!apiKey) {
+        return res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+      }
 
-    if (!token) {
-      return res.status(401).json({ error: 'No token provided' });
-    }
+      // Keys only reach routes that declare the scope they need; everything else acts as a user
+      if (!routeDeclaresPermission(req)) {
+        console.warn(`🚫 API key ${apiKey.keyPrefix} (${apiKey.name}) refused on unscoped route ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({ error: 'API keys are not accepted on this route' });
+      }
+
+      console.log(`🔑 API key ${apiKey.keyPrefix} (${apiKey.name}) ${req.method} ${req.originalUrl}`);
+      context = apiKeyTenantContext(apiKey);
+    } else {
+      // Extract token
+      const token = req.headers.authorization?.split(' ')[1];
 
-    // Verify token and get payload
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      if (!token) {
+        return res.status(401).json({ error: 'No token provided' });
+      }
 
-    // Extract email from token
-    const userEmail = decoded.email;
+      // Verify token and get payload; activation, reset and 2FA challenge tokens are refused here
+      decoded = verifyAccessToken(token);
+      const userEmail = decoded.email;
 
-    if (!userEmail) {
-      return res.status(401).json({ error: 'No email found in token' });
-    }
+      // verifyAccessToken refuses tokens without a session, so every token can be revoked
+      if (!(await isSessionActive(decoded.sid))) {
+        return res.status(401).json({ error: 'Session has been revoked' });
+      }
 
-    // Look up user in shared database to get organization ID
-    const employeeWithOrg = await schemaService.sharedDb.user.findUnique({
-      where: {
-        email: userEmail
-      },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        organizationId: true,
-        organization: {
-          select: {
-            id: true,
-            name: true,
-            schemaName: true,
-            isActive: true
-          }
+      // Identity and tenant context are cached briefly; mobile clients make many calls per screen
+      context = getCachedTenantContext(userEmail);
+      if (!context) {
+        context = await resolveTenantContext(userEmail);
+        if (context) {
+          cacheTenantContext(context);
         }
       }
-    });
+    }
 
-    if (!employeeWithOrg) {
+    if (!context) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    if (!employeeWithOrg.organizationId) {
+    if (!context.organizationId) {
       return res.status(400).json({ error: 'User not associated with any organization' });
     }
 
+    if (!context.isActive) {
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
     // Check if organization is active
-    if (!employeeWithOrg.organization?.isActive) {
+    if (!context.organizationIsActive) {
       return res.status(403).json({ error: 'Organization is not active' });
     }
 
+    // Archived organizations are read-only
+    if (context.organizationStatus === 'ARCHIVED' && !READ_ONLY_METHODS.includes(req.method)) {
+      return res.status(403).json({ error: 'Organization is archived (read-only)' });
+    }
+
     // Check if organization has a schema
-    if (!employeeWithOrg.organization?.schemaName) {
+    if (!context.schemaName) {
       return res.status(500).json({ error: 'Organization schema not configured' });
     }
 
     // Add user info and organization details to request
-    const schemaName = employeeWithOrg.organization?.schemaName;
-    console.log(schemaName);
-
-    const tenantDb = await schemaService.getTenantClient(schemaName);
+    const schemaName = context.schemaName;
+
+    // Lease the pooled client for the lifetime of the request so it cannot be evicted mid-request
+    const tenantDb = schemaService.acquireTenantClient(schemaName);
+    let released = false;
+    const releaseClient = () => {
+      if (released) return;
+      released = true;
+      schemaService.releaseTenantClient(schemaName);
+    };
+    res.once('finish', releaseClient);
+    res.once('close', releaseClient);
     req.tenantDb = tenantDb;
-    const emp_user = await tenantDb.employee.findUnique({
-      where: {
-        email: userEmail
-      },
-      select: {
-        id: true
-      }
-    })
+    req.organizationSettings = context.settings;
 
     req.user = {
       ...decoded,
-      id: emp_user?.id,
-      email: employeeWithOrg.email,
-      employeeId: employeeWithOrg.id,
-      organizationId: employeeWithOrg.organizationId,
-      organizationName: employeeWithOrg.organization.name,
-      role: employeeWithOrg.role,
+      id: context.tenantEmployeeId,
+      email: context.email,
+      employeeId: context.userId,
+      organizationId: context.organizationId,
+      organizationName: context.organizationName,
+      role: context.role,
     };
 
-    // Get tenant database connection using organizationId
-
-
+    // Key requests have no employee: routes acting on an employee's own records check the principal
+    // (requireEmployee) rather than filtering on an undefined req.user.id
+    req.principal = apiKey
+      ? { type: 'api_key', apiKeyId: apiKey.id }
+      : { type: 'employee', userId: context.userId, employeeId: context.tenantEmployeeId || null };
+
+    if (apiKey) {
+      req.apiKey = {
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        scopes: apiKey.scopes
+      };
+    }
 
-    console.log("middleware completes")
     next();
   } catch (error) {
     console.error('Tenant middleware error:', error);
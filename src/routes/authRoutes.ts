@@ -1,19 +1,72 @@
 import express from 'express';
 import SchemaManagementService from '../services/SchemaManagementService.js';
-import { loginController, createUserController, googleLoginController, activateAccountController, fetchUsersController } from '../controllers/authController.js'
-import { upload } from '../middlewares/multerConfig.js';
+import { loginController, createUserController, googleLoginController, activateAccountController, resendActivationController, forgotPasswordController, resetPasswordController, fetchUsersController, bulkImportUsersController, loginTwoFactorController, loginTwoFactorSetupController, loginTwoFactorEnableController } from '../controllers/authController.js'
+import { upload, spreadsheetUpload } from '../middlewares/multerConfig.js';
 import { Request, Response } from 'express';
 import { createUserInShared } from '../controllers/userInSharedDB.js'
+import {
+  refreshTokenController,
+  logoutController,
+  logoutAllController,
+  listSessionsController,
+  revokeUserSessionsController
+} from '../controllers/sessionController.js';
+import {
+  updateUserController,
+  deactivateUserController,
+  reactivateUserController,
+  deleteUserController,
+  unlockUserController,
+  listLockoutsController,
+  loginHistoryController,
+  resetUserTwoFactorController
+} from '../controllers/userManagementController.js';
+import {
+  getTwoFactorStatusController,
+  setupTwoFactorController,
+  enableTwoFactorController,
+  disableTwoFactorController,
+  regenerateRecoveryCodesController
+} from '../controllers/twoFactorController.js';
+import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import adminAuthMiddleware from '../middlewares/adminAuthMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
 const router = express.Router();
 const schemaService = SchemaManagementService.getInstance();
 
 
-router.post('/create', upload.single('image'), createUserController);
+router.post('/create', tenantMiddleware, requirePermission('users:manage'), upload.single('image'), createUserController);
+router.post('/bulk_import', tenantMiddleware, requirePermission('users:manage'), spreadsheetUpload.single('file'), bulkImportUsersController);
 router.post('/login', loginController);
+router.post('/login/2fa', loginTwoFactorController);
+router.post('/login/2fa/setup', loginTwoFactorSetupController);
+router.post('/login/2fa/enable', loginTwoFactorEnableController);
 router.post('/google_login', googleLoginController);
+router.post('/refresh', refreshTokenController);
+router.post('/logout', logoutController);
+router.post('/logout_all', tenantMiddleware, logoutAllController);
+router.get('/sessions', tenantMiddleware, listSessionsController);
+router.post('/revoke_sessions', tenantMiddleware, requirePermission('sessions:revoke'), revokeUserSessionsController);
+router.get('/2fa', tenantMiddleware, getTwoFactorStatusController);
+router.post('/2fa/setup', tenantMiddleware, setupTwoFactorController);
+router.post('/2fa/enable', tenantMiddleware, enableTwoFactorController);
+router.post('/2fa/disable', tenantMiddleware, disableTwoFactorController);
+router.post('/2fa/recovery_codes', tenantMiddleware, regenerateRecoveryCodesController);
 router.post('/activate_account', activateAccountController);
-router.get('/get_users', fetchUsersController);
-router.post('/createUserInsharedOnly', createUserInShared);
+router.post('/resend_activation', resendActivationController);
+router.post('/forgot_password', forgotPasswordController);
+router.post('/reset_password', resetPasswordController);
+router.get('/get_users', tenantMiddleware, requirePermission('users:manage'), fetchUsersController);
+router.post('/createUserInsharedOnly', adminAuthMiddleware, createUserInShared);
+
+router.put('/users/:userEmail', tenantMiddleware, requirePermission('users:manage'), updateUserController);
+router.post('/users/:userEmail/deactivate', tenantMiddleware, requirePermission('users:manage'), deactivateUserController);
+router.post('/users/:userEmail/reactivate', tenantMiddleware, requirePermission('users:manage'), reactivateUserController);
+router.delete('/users/:userEmail', tenantMiddleware, requirePermission('users:manage'), deleteUserController);
+router.post('/users/:userEmail/unlock', tenantMiddleware, requirePermission('users:manage'), unlockUserController);
+router.post('/users/:userEmail/reset_2fa', tenantMiddleware, requirePermission('users:manage'), resetUserTwoFactorController);
+router.get('/lockouts', tenantMiddleware, requirePermission('users:manage'), listLockoutsController);
+router.get('/login_history', tenantMiddleware, requirePermission('users:manage'), loginHistoryController);
 
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import express from 'express';
 import SchemaManagementService from '../services/SchemaManagementService.js';
 import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
 import {
     createChemistController,
     updateChemist,
@@ -40,31 +41,31 @@ const router = express.Router();
 const schemaService = SchemaManagementService.getInstance();
 
 // Basic Chemist routes
-router.get('/', tenantMiddleware, getChemistListController);
-router.post('/create', tenantMiddleware, createChemistController);
-router.put('/updateChemists/:chemistId', tenantMiddleware, updateChemist);
-router.delete('/deleteChemists/:chemistId', tenantMiddleware, deleteChemist);
-router.get('/getDetails/:chemistId', tenantMiddleware, getChemistDetails);
+router.get('/', tenantMiddleware, requirePermission('chemists:read'), getChemistListController);
+router.post('/create', tenantMiddleware, requirePermission('chemists:manage'), createChemistController);
+router.put('/updateChemists/:chemistId', tenantMiddleware, requirePermission('chemists:manage'), updateChemist);
+router.delete('/deleteChemists/:chemistId', tenantMiddleware, requirePermission('chemists:manage'), deleteChemist);
+router.get('/getDetails/:chemistId', tenantMiddleware, requirePermission('chemists:read'), getChemistDetails);
 
 // ChemistNote routes
-router.post('/createNotes', tenantMiddleware, createChemistNote);
-router.get('/:chemistId/notes', tenantMiddleware, getNotesForChemist);
-router.get('/employees/:employeeId/notes', tenantMiddleware, getChemistNotesByEmployee);
-router.put('/updateNotes/:noteId', tenantMiddleware, updateChemistNote);
-router.delete('/deleteNotes/:noteId', tenantMiddleware, deleteChemistNote);
+router.post('/createNotes', tenantMiddleware, requirePermission('notes:write'), createChemistNote);
+router.get('/:chemistId/notes', tenantMiddleware, requirePermission('chemists:read'), getNotesForChemist);
+router.get('/employees/:employeeId/notes', tenantMiddleware, requirePermission('chemists:read'), getChemistNotesByEmployee);
+router.put('/updateNotes/:noteId', tenantMiddleware, requirePermission('notes:write'), updateChemistNote);
+router.delete('/deleteNotes/:noteId', tenantMiddleware, requirePermission('notes:write'), deleteChemistNote);
 
 // ChemistInteraction routes
-router.post('/interactions', tenantMiddleware, createChemistInteraction);
-router.get('/:chemistId/interactions', tenantMiddleware, getInteractionsForChemist);
-router.get('/employees/:employeeId/interactions', tenantMiddleware, getChemistInteractionsByEmployee);
-router.put('/updateInteractions/:interactionId', tenantMiddleware, updateChemistInteraction);
-router.delete('/deleteInteractions/:interactionId', tenantMiddleware, deleteChemistInteraction);
+router.post('/interactions', tenantMiddleware, requirePermission('interactions:write'), createChemistInteraction);
+router.get('/:chemistId/interactions', tenantMiddleware, requirePermission('chemists:read'), getInteractionsForChemist);
+router.get('/employees/:employeeId/interactions', tenantMiddleware, requirePermission('chemists:read'), getChemistInteractionsByEmployee);
+router.put('/updateInteractions/:interactionId', tenantMiddleware, requirePermission('interactions:write'), updateChemistInteraction);
+router.delete('/deleteInteractions/:interactionId', tenantMiddleware, requirePermission('interactions:write'), deleteChemistInteraction);
 
 // DoctorChemistRelation routes
-router.post('/doctor-relations', tenantMiddleware, createDoctorChemistRelation);
-router.get('/doctors/:doctorId/chemists', tenantMiddleware, getChemistsForDoctor);
-router.get('/:chemistId/doctors', tenantMiddleware, getDoctorsForChemist);
-router.delete('/doctor-relations/:relationId', tenantMiddleware, deleteDoctorChemistRelation);
+router.post('/doctor-relations', tenantMiddleware, requirePermission('chemists:manage'), createDoctorChemistRelation);
+router.get('/doctors/:doctorId/chemists', tenantMiddleware, requirePermission('chemists:read'), getChemistsForDoctor);
+router.get('/:chemistId/doctors', tenantMiddleware, requirePermission('chemists:read'), getDoctorsForChemist);
+router.delete('/doctor-relations/:relationId', tenantMiddleware, requirePermission('chemists:manage'), deleteDoctorChemistRelation);
 
 export default router;
 
@@ -1,5 +1,6 @@
 import express from 'express';
 import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requireEmployee, requirePermission } from '../middlewares/permissionMiddleware.js';
 import { createDcr, getTasksForDcr } from '../controllers/dcr/createDcrController.js';
 import { getDcrList } from '../controllers/dcr/getDcrListController.js';
 import { getDcrDetails } from '../controllers/dcr/getDcrDetailsController.js';
@@ -8,16 +9,12 @@ import { deleteDcr } from '../controllers/dcr/deleteDcrController.js';
 
 const router = express.Router();
 
-// Apply tenant middleware to all DCR routes
-// This ensures all routes have access to req.user and req.tenantDb
-router.use(tenantMiddleware);
-
 // DCR Routes
-router.get('/', getDcrList);                       // GET /api/dcr - List all DCR reports
-router.get('/tasks/available', getTasksForDcr);    // GET /api/dcr/tasks/available - Get tasks for DCR creation
-router.get('/:dcrId', getDcrDetails);              // GET /api/dcr/:dcrId - Get single DCR details
-router.post('/', createDcr);                       // POST /api/dcr - Create new DCR report
-router.put('/:dcrId', updateDcr);                  // PUT /api/dcr/:dcrId - Update existing DCR report
-router.delete('/:dcrId', deleteDcr);               // DELETE /api/dcr/:dcrId - Delete DCR report
+router.get('/', tenantMiddleware, requirePermission('dcr:read'), getDcrList);                                      // GET /api/dcr - List all DCR reports
+router.get('/tasks/available', tenantMiddleware, requirePermission('dcr:read'), requireEmployee, getTasksForDcr);  // GET /api/dcr/tasks/available - Get tasks for DCR creation
+router.get('/:dcrId', tenantMiddleware, requirePermission('dcr:read'), requireEmployee, getDcrDetails);            // GET /api/dcr/:dcrId - Get single DCR details
+router.post('/', tenantMiddleware, requirePermission('dcr:write'), requireEmployee, createDcr);                    // POST /api/dcr - Create new DCR report
+router.put('/:dcrId', tenantMiddleware, requirePermission('dcr:write'), requireEmployee, updateDcr);               // PUT /api/dcr/:dcrId - Update existing DCR report
+router.delete('/:dcrId', tenantMiddleware, requirePermission('dcr:write'), requireEmployee, deleteDcr);            // DELETE /api/dcr/:dcrId - Delete DCR report
 
 export default router;
\ No newline at end of file
@@ -42,43 +42,44 @@ import {
     deleteDoctorInteraction
 } from '../controllers/doctors/doctorIntreactionController.js'
 import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
 
 const router = express.Router();
 const schemaService = SchemaManagementService.getInstance();
 
 // Doctor basic routes
-router.get('/', tenantMiddleware, getDoctorListController);
-router.post('/create', tenantMiddleware, createDoctorController);
-router.put('/updateDoctors/:doctorId', tenantMiddleware, updateDoctor);
-router.delete('/deleteDoctors/:doctorId', tenantMiddleware, deleteDoctor);
-router.get('/getDetails/:doctorId', tenantMiddleware, getDoctorDetails);
+router.get('/', tenantMiddleware, requirePermission('doctors:read'), getDoctorListController);
+router.post('/create', tenantMiddleware, requirePermission('doctors:manage'), createDoctorController);
+router.put('/updateDoctors/:doctorId', tenantMiddleware, requirePermission('doctors:manage'), updateDoctor);
+router.delete('/deleteDoctors/:doctorId', tenantMiddleware, requirePermission('doctors:manage'), deleteDoctor);
+router.get('/getDetails/:doctorId', tenantMiddleware, requirePermission('doctors:read'), getDoctorDetails);
 
 // DoctorHospitalAssociation routes
-router.post('/createAssociations', tenantMiddleware, createDoctorHospitalAssociation);
-router.get('/:doctorId/hospitals', tenantMiddleware, getDoctorHospitals);
-router.put('/updateAssociations/:associationId', tenantMiddleware, updateDoctorHospitalAssociation);
-router.delete('/deleteAssociations/:associationId', tenantMiddleware, deleteDoctorHospitalAssociation);
-router.put('/:doctorId/hospitals/:hospitalId/set-primary', tenantMiddleware, setPrimaryHospital);
+router.post('/createAssociations', tenantMiddleware, requirePermission('doctors:manage'), createDoctorHospitalAssociation);
+router.get('/:doctorId/hospitals', tenantMiddleware, requirePermission('doctors:read'), getDoctorHospitals);
+router.put('/updateAssociations/:associationId', tenantMiddleware, requirePermission('doctors:manage'), updateDoctorHospitalAssociation);
+router.delete('/deleteAssociations/:associationId', tenantMiddleware, requirePermission('doctors:manage'), deleteDoctorHospitalAssociation);
+router.put('/:doctorId/hospitals/:hospitalId/set-primary', tenantMiddleware, requirePermission('doctors:manage'), setPrimaryHospital);
 
 // DoctorConsultationSchedule routes
-router.post('/createSchedules', tenantMiddleware, createDoctorConsultationSchedule);
-router.get('/:doctorId/schedules', tenantMiddleware, getDoctorSchedules);
-router.put('/updateSchedules/:scheduleId', tenantMiddleware, updateDoctorConsultationSchedule);
-router.delete('/deleteSchedules/:scheduleId', tenantMiddleware, deleteDoctorConsultationSchedule);
-router.patch('/schedules/:scheduleId/toggle-status', tenantMiddleware, toggleScheduleStatus);
+router.post('/createSchedules', tenantMiddleware, requirePermission('doctors:manage'), createDoctorConsultationSchedule);
+router.get('/:doctorId/schedules', tenantMiddleware, requirePermission('doctors:read'), getDoctorSchedules);
+router.put('/updateSchedules/:scheduleId', tenantMiddleware, requirePermission('doctors:manage'), updateDoctorConsultationSchedule);
+router.delete('/deleteSchedules/:scheduleId', tenantMiddleware, requirePermission('doctors:manage'), deleteDoctorConsultationSchedule);
+router.patch('/schedules/:scheduleId/toggle-status', tenantMiddleware, requirePermission('doctors:manage'), toggleScheduleStatus);
 
 // DoctorNote routes
-router.post('/createNotes', tenantMiddleware, createDoctorNote);
-router.get('/:doctorId/notes', tenantMiddleware, getNotesForDoctor);
-router.get('/employees/:employeeId/notes', tenantMiddleware, getNotesByEmployee);
-router.put('/updateNotes/:noteId', tenantMiddleware, updateDoctorNote);
-router.delete('/deleteNotes/:noteId', tenantMiddleware, deleteDoctorNote);
+router.post('/createNotes', tenantMiddleware, requirePermission('notes:write'), createDoctorNote);
+router.get('/:doctorId/notes', tenantMiddleware, requirePermission('doctors:read'), getNotesForDoctor);
+router.get('/employees/:employeeId/notes', tenantMiddleware, requirePermission('doctors:read'), getNotesByEmployee);
+router.put('/updateNotes/:noteId', tenantMiddleware, requirePermission('notes:write'), updateDoctorNote);
+router.delete('/deleteNotes/:noteId', tenantMiddleware, requirePermission('notes:write'), deleteDoctorNote);
 
 // DoctorInteraction routes
-router.post('/createInteractions', tenantMiddleware, createDoctorInteraction);
-router.get('/:doctorId/interactions', tenantMiddleware, getInteractionsForDoctor);
-router.get('/:employeeId/interactions', tenantMiddleware, getInteractionsByEmployee);
-router.put('/updateInteractions/:interactionId', tenantMiddleware, updateDoctorInteraction);
-router.delete('/deleteInteractions/:interactionId', tenantMiddleware, deleteDoctorInteraction);
+router.post('/createInteractions', tenantMiddleware, requirePermission('interactions:write'), createDoctorInteraction);
+router.get('/:doctorId/interactions', tenantMiddleware, requirePermission('doctors:read'), getInteractionsForDoctor);
+router.get('/:employeeId/interactions', tenantMiddleware, requirePermission('doctors:read'), getInteractionsByEmployee);
+router.put('/updateInteractions/:interactionId', tenantMiddleware, requirePermission('interactions:write'), updateDoctorInteraction);
+router.delete('/deleteInteractions/:interactionId', tenantMiddleware, requirePermission('interactions:write'), deleteDoctorInteraction);
 
 export default router;
\ No newline at end of file
@@ -6,25 +6,16 @@ import { getDrugDetails } from '../controllers/drugs/drugDetailsController.js'
 import { getDrugList } from '../controllers/drugs/getDrugListController.js'
 import { updateDrug } from '../controllers/drugs/updateDrugController.js'
 import tenantMiddleware from '@/middlewares/tenantMiddleware.js';
+import { requireEmployee, requirePermission } from '@/middlewares/permissionMiddleware.js';
 
 const router = express.Router();
 const schemaService = SchemaManagementService.getInstance();
 
-router.use(tenantMiddleware);
-
-router.post('/create', createDrug);
-router.delete('/delete/:drugId', deleteDrug);
-router.get('/getDrugDetails/:drugId', getDrugDetails);
-router.get('/getDrugsList', getDrugList);
-router.put('/updateDrug/:drugId', updateDrug);
-
-
-
+router.post('/create', tenantMiddleware, requirePermission('drugs:manage'), requireEmployee, createDrug);
+router.delete('/delete/:drugId', tenantMiddleware, requirePermission('drugs:manage'), deleteDrug);
+router.get('/getDrugDetails/:drugId', tenantMiddleware, requirePermission('drugs:read'), getDrugDetails);
+router.get('/getDrugsList', tenantMiddleware, requirePermission('drugs:read'), getDrugList);
+router.put('/updateDrug/:drugId', tenantMiddleware, requirePermission('drugs:manage'), updateDrug);
 
 export default router;
 
-
-
-
-
-
@@ -1,10 +1,11 @@
 import express from 'express';
 import { createHospital, fetchHospitals } from '../controllers/hospitals/hospitalController.js';
 import tenantMiddleware from '@/middlewares/tenantMiddleware.js';
+import { requirePermission } from '@/middlewares/permissionMiddleware.js';
 const router = express.Router();
 
 
-router.post('/create', tenantMiddleware, createHospital);
-router.get('/', tenantMiddleware, fetchHospitals);
+router.post('/create', tenantMiddleware, requirePermission('hospitals:manage'), createHospital);
+router.get('/', tenantMiddleware, requirePermission('hospitals:read'), fetchHospitals);
 
 export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requireEmployee, requirePermission } from '../middlewares/permissionMiddleware.js';
 import { createOrder } from '../controllers/orders/createOrderController.js';
 import { getOrderList } from '../controllers/orders/getOrderListController.js';
 import { getOrderDetails } from '../controllers/orders/getOrderDetailsController.js';
@@ -9,16 +10,12 @@ import { getDrugsForOrder } from '../controllers/orders/getDrugsForOrderControll
 
 const router = express.Router();
 
-// Apply tenant middleware to all order routes
-// This ensures all routes have access to req.user and req.tenantDb
-router.use(tenantMiddleware);
-
 // Order Routes
-router.get('/', getOrderList);                     // GET /api/orders - List all orders
-router.get('/drugs', getDrugsForOrder);            // GET /api/orders/drugs - Get drugs for order
-router.get('/:orderId', getOrderDetails);          // GET /api/orders/:orderId - Get single order details
-router.post('/', createOrder);                     // POST /api/orders - Create new order
-router.put('/:orderId', updateOrder);              // PUT /api/orders/:orderId - Update order
-router.delete('/:orderId', deleteOrder);           // DELETE /api/orders/:orderId - Delete/cancel order
+router.get('/', tenantMiddleware, requirePermission('orders:read'), getOrderList);                              // GET /api/orders - List all orders
+router.get('/drugs', tenantMiddleware, requirePermission('orders:read'), getDrugsForOrder);                     // GET /api/orders/drugs - Get drugs for order
+router.get('/:orderId', tenantMiddleware, requirePermission('orders:read'), requireEmployee, getOrderDetails);  // GET /api/orders/:orderId - Get single order details
+router.post('/', tenantMiddleware, requirePermission('orders:write'), requireEmployee, createOrder);            // POST /api/orders - Create new order
+router.put('/:orderId', tenantMiddleware, requirePermission('orders:write'), requireEmployee, updateOrder);     // PUT /api/orders/:orderId - Update order
+router.delete('/:orderId', tenantMiddleware, requirePermission('orders:write'), requireEmployee, deleteOrder);  // DELETE /api/orders/:orderId - Delete/cancel order
 
 export default router;
@@ -1,6 +1,25 @@
 import express from 'express';
 import SchemaManagementService from '../services/SchemaManagementService.js';
-import { createOrganizationController } from '../controllers/organizationController.js';
+import {
+    createOrganizationController,
+    listOnboardingsController,
+    getOnboardingController,
+    resumeOnboardingController,
+    cancelOnboardingController
+} from '../controllers/organizationController.js';
+import { getTenantMigrationStatusController, runTenantMigrationsController, rollbackTenantMigrationsController } from '../controllers/tenantMigrationController.js';
+import {
+    suspendOrganizationController,
+    reactivateOrganizationController,
+    archiveOrganizationController,
+    purgeOrganizationController
+} from '../controllers/organizationLifecycleController.js';
+import { exportOrganizationController, importOrganizationController } from '../controllers/tenantArchiveController.js';
+import { getOrganizationSettingsController, updateOrganizationSettingsController, getOrganizationPermissionsController } from '../controllers/organizationSettingsController.js';
+import { listApiKeysController, createApiKeyController, revokeApiKeyController } from '../controllers/apiKeyController.js';
+import adminAuthMiddleware from '../middlewares/adminAuthMiddleware.js';
+import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
 
 const router = express.Router();
 const schemaService = SchemaManagementService.getInstance();
@@ -27,6 +46,37 @@ console.log("organization ROutes");
 
 router.post('/create', createOrganizationController)
 
+// Tracking, resuming and cancelling onboardings (requires x-admin-key)
+router.get('/onboarding', adminAuthMiddleware, listOnboardingsController)
+router.get('/onboarding/:onboardingId', adminAuthMiddleware, getOnboardingController)
+router.post('/onboarding/:onboardingId/resume', adminAuthMiddleware, resumeOnboardingController)
+router.post('/onboarding/:onboardingId/cancel', adminAuthMiddleware, cancelOnboardingController)
+
+// Settings of the caller's own organization
+router.get('/settings', tenantMiddleware, getOrganizationSettingsController)
+router.put('/settings', tenantMiddleware, requirePermission('organization:settings'), updateOrganizationSettingsController)
+router.get('/permissions', tenantMiddleware, getOrganizationPermissionsController)
+
+// API keys for integrations of the caller's own organization
+router.get('/api-keys', tenantMiddleware, requirePermission('integrations:manage'), listApiKeysController)
+router.post('/api-keys', tenantMiddleware, requirePermission('integrations:manage'), createApiKeyController)
+router.post('/api-keys/:keyId/revoke', tenantMiddleware, requirePermission('integrations:manage'), revokeApiKeyController)
+
+// Tenant migration administration (requires x-admin-key)
+router.get('/migrations', adminAuthMiddleware, getTenantMigrationStatusController)
+router.post('/migrations/run', adminAuthMiddleware, runTenantMigrationsController)
+router.post('/migrations/rollback', adminAuthMiddleware, rollbackTenantMigrationsController)
+
+// Organization lifecycle (requires x-admin-key)
+router.post('/:organizationId/suspend', adminAuthMiddleware, suspendOrganizationController)
+router.post('/:organizationId/reactivate', adminAuthMiddleware, reactivateOrganizationController)
+router.post('/:organizationId/archive', adminAuthMiddleware, archiveOrganizationController)
+router.post('/:organizationId/purge', adminAuthMiddleware, purgeOrganizationController)
+
+// Tenant export and restore (requires x-admin-key)
+router.post('/import', adminAuthMiddleware, importOrganizationController)
+router.post('/:organizationId/export', adminAuthMiddleware, exportOrganizationController)
+
 
 
 export default router;
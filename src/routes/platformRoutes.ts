@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+    listPlatformOrganizationsController,
+    getPlatformOrganizationController,
+    searchPlatformUsersController,
+    verifyPlatformOrganizationController,
+    migratePlatformOrganizationController,
+    reconcilePlatformOrganizationUsersController
+} from '../controllers/platformController.js';
+import platformAuthMiddleware from '../middlewares/platformAuthMiddleware.js';
+
+const router = express.Router();
+
+// Every platform route requires a super-admin
+router.use(platformAuthMiddleware);
+
+router.get('/organizations', listPlatformOrganizationsController);
+router.get('/organizations/:organizationId', getPlatformOrganizationController);
+router.post('/organizations/:organizationId/verify', verifyPlatformOrganizationController);
+router.post('/organizations/:organizationId/migrate', migratePlatformOrganizationController);
+router.post('/organizations/:organizationId/reconcile-users', reconcilePlatformOrganizationUsersController);
+
+router.get('/users', searchPlatformUsersController);
+
+export default router;
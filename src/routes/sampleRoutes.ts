@@ -1,5 +1,6 @@
 import express from 'express';
 import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requireEmployee, requirePermission } from '../middlewares/permissionMiddleware.js';
 import { getDrugInventory, getGiftInventory } from '../controllers/samples/getInventoryController.js';
 import { getCustomers, createDistribution } from '../controllers/samples/createDistributionController.js';
 import { getDistributions } from '../controllers/samples/getDistributionsController.js';
@@ -7,18 +8,14 @@ import { getDistributionDetails } from '../controllers/samples/getDistributionDe
 
 const router = express.Router();
 
-// Apply tenant middleware to all sample routes
-// This ensures all routes have access to req.user and req.tenantDb
-router.use(tenantMiddleware);
-
 // Sample Inventory Routes
-router.get('/inventory/drugs', getDrugInventory);          // GET /api/samples/inventory/drugs - Get drug inventory only
-router.get('/inventory/gifts', getGiftInventory);          // GET /api/samples/inventory/gifts - Get gift inventory only
+router.get('/inventory/drugs', tenantMiddleware, requirePermission('samples:read'), requireEmployee, getDrugInventory);  // GET /api/samples/inventory/drugs - Get drug inventory only
+router.get('/inventory/gifts', tenantMiddleware, requirePermission('samples:read'), requireEmployee, getGiftInventory);  // GET /api/samples/inventory/gifts - Get gift inventory only
 
 // Sample Distribution Routes
-router.get('/customers', getCustomers);                    // GET /api/samples/customers - Get all customers in territory
-router.get('/distributions', getDistributions);            // GET /api/samples/distributions - Get all distributions
-router.get('/distributions/:distributionId', getDistributionDetails); // GET /api/samples/distributions/:id - Get distribution details
-router.post('/distributions', createDistribution);         // POST /api/samples/distributions - Create new distribution
+router.get('/customers', tenantMiddleware, requirePermission('samples:read'), getCustomers);                                                 // GET /api/samples/customers - Get all customers in territory
+router.get('/distributions', tenantMiddleware, requirePermission('samples:read'), requireEmployee, getDistributions);                        // GET /api/samples/distributions - Get all distributions
+router.get('/distributions/:distributionId', tenantMiddleware, requirePermission('samples:read'), requireEmployee, getDistributionDetails);  // GET /api/samples/distributions/:id - Get distribution details
+router.post('/distributions', tenantMiddleware, requirePermission('samples:distribute'), requireEmployee, createDistribution);               // POST /api/samples/distributions - Create new distribution
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import express from 'express'
 import tenantMiddleware from '@/middlewares/tenantMiddleware.js'
+import { requireEmployee, requirePermission } from '@/middlewares/permissionMiddleware.js'
 import { createTaskPlannerController } from '../controllers/taskPlanner/createTaskPlannerControlller.js';
 import { deleteTaskPlannerController } from '../controllers/taskPlanner/deleteTaskPlannerController.js';
 import { getTaskPlannerController } from '../controllers/taskPlanner/getTaskPlannerController.js';
@@ -7,12 +8,10 @@ import { updateTaskPlannerStatusController } from '../controllers/taskPlanner/up
 
 const router = express.Router();
 
+router.post('/createTaskPlanner', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, createTaskPlannerController);
+router.delete('/deleteTaskPlanner/:taskPlanner_id', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, deleteTaskPlannerController)
+router.put('/updateTaskPlannerStatus/:taskPlanner_id', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, updateTaskPlannerStatusController)
 
-router.use(tenantMiddleware);
-router.post('/createTaskPlanner', createTaskPlannerController);
-router.delete('/deleteTaskPlanner/:taskPlanner_id', deleteTaskPlannerController)
-router.put('/updateTaskPlannerStatus/:taskPlanner_id', updateTaskPlannerStatusController)
-
-router.get('/getTaskPlanner', getTaskPlannerController)
+router.get('/getTaskPlanner', tenantMiddleware, requirePermission('tasks:read'), requireEmployee, getTaskPlannerController)
 
 export default router;
@@ -1,5 +1,6 @@
 import express from 'express'
 import tenantMiddleware from '@/middlewares/tenantMiddleware.js'
+import { requireEmployee, requirePermission } from '@/middlewares/permissionMiddleware.js'
 import { createTaskController } from '@/controllers/tasks/createtaskController.js';
 import { deleteTaskController } from '@/controllers/tasks/deleteTasksController.js';
 import { getTasksController, getTasksOfPlannerController } from '@/controllers/tasks/getTasksController.js';
@@ -8,16 +9,11 @@ import { updateTaskCompletionStatusController } from '@/controllers/tasks/update
 
 const router = express.Router();
 
-
-router.use(tenantMiddleware);
-
-router.post('/createTask', createTaskController)
-router.delete('/deletetask/:type/:task_id', deleteTaskController)
-router.put('/updateTask/:type/:task_id', updateTaskController)
-router.put('/updateTaskCompletionStatus/:type/:task_id', updateTaskCompletionStatusController)
-router.get('/getTasks/:date', getTasksController)
-router.get('/getTasksOfPlannerId/:plannerId', getTasksOfPlannerController)
-
-
+router.post('/createTask', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, createTaskController)
+router.delete('/deletetask/:type/:task_id', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, deleteTaskController)
+router.put('/updateTask/:type/:task_id', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, updateTaskController)
+router.put('/updateTaskCompletionStatus/:type/:task_id', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, updateTaskCompletionStatusController)
+router.get('/getTasks/:date', tenantMiddleware, requirePermission('tasks:read'), requireEmployee, getTasksController)
+router.get('/getTasksOfPlannerId/:plannerId', tenantMiddleware, requirePermission('tasks:read'), requireEmployee, getTasksOfPlannerController)
 
 export default router;
\ No newline at end of file
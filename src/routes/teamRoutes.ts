@@ -0,0 +1,29 @@
+import express from 'express';
+import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
+import {
+    addTeamMembersController,
+    createTeamController,
+    disbandTeamController,
+    getMyTeamsController,
+    getTeamController,
+    listTeamsController,
+    removeTeamMemberController,
+    setTeamLeadController,
+    updateTeamController
+} from '../controllers/teams/teamController.js';
+
+const router = express.Router();
+
+router.get('/', tenantMiddleware, requirePermission('teams:read'), listTeamsController);
+router.get('/me', tenantMiddleware, requirePermission('teams:read'), getMyTeamsController);
+router.get('/:teamId', tenantMiddleware, requirePermission('teams:read'), getTeamController);
+
+router.post('/', tenantMiddleware, requirePermission('teams:manage'), createTeamController);
+router.put('/:teamId', tenantMiddleware, requirePermission('teams:manage'), updateTeamController);
+router.delete('/:teamId', tenantMiddleware, requirePermission('teams:manage'), disbandTeamController);
+router.put('/:teamId/lead', tenantMiddleware, requirePermission('teams:manage'), setTeamLeadController);
+router.post('/:teamId/members', tenantMiddleware, requirePermission('teams:manage'), addTeamMembersController);
+router.delete('/:teamId/members/:employeeId', tenantMiddleware, requirePermission('teams:manage'), removeTeamMemberController);
+
+export default router;
@@ -0,0 +1,50 @@
+import express from 'express';
+import tenantMiddleware from '../middlewares/tenantMiddleware.js';
+import { requirePermission } from '../middlewares/permissionMiddleware.js';
+import { geoJsonUpload } from '../middlewares/multerConfig.js';
+import {
+    assignmentHistoryController,
+    cancelTransferController,
+    clearTerritoryBoundariesController,
+    createTerritoryController,
+    createTransferController,
+    deleteTerritoryController,
+    getTerritoryController,
+    getTerritoryTreeController,
+    getTransferController,
+    listTerritoriesController,
+    listTransfersController,
+    locatePointController,
+    mergeTerritoryController,
+    moveTerritoryController,
+    reassignMismatchesController,
+    setTerritoryBoundariesController,
+    territoryEmployeesController,
+    territoryMismatchesController,
+    updateTerritoryController
+} from '../controllers/territories/territoryController.js';
+
+const router = express.Router();
+
+router.get('/', tenantMiddleware, requirePermission('territories:read'), listTerritoriesController);
+router.get('/tree', tenantMiddleware, requirePermission('territories:read'), getTerritoryTreeController);
+router.get('/locate', tenantMiddleware, requirePermission('territories:read'), locatePointController);
+router.get('/mismatches', tenantMiddleware, requirePermission('territories:manage'), territoryMismatchesController);
+router.post('/mismatches/reassign', tenantMiddleware, requirePermission('territories:manage'), reassignMismatchesController);
+router.get('/transfers', tenantMiddleware, requirePermission('territories:manage'), listTransfersController);
+router.post('/transfers', tenantMiddleware, requirePermission('territories:manage'), createTransferController);
+router.get('/transfers/:transferId', tenantMiddleware, requirePermission('territories:manage'), getTransferController);
+router.post('/transfers/:transferId/cancel', tenantMiddleware, requirePermission('territories:manage'), cancelTransferController);
+router.get('/assignments/:employeeId', tenantMiddleware, requirePermission('territories:manage'), assignmentHistoryController);
+router.get('/:territoryId', tenantMiddleware, requirePermission('territories:read'), getTerritoryController);
+router.get('/:territoryId/employees', tenantMiddleware, requirePermission('territories:read'), territoryEmployeesController);
+
+router.post('/', tenantMiddleware, requirePermission('territories:manage'), createTerritoryController);
+router.put('/:territoryId', tenantMiddleware, requirePermission('territories:manage'), updateTerritoryController);
+router.delete('/:territoryId', tenantMiddleware, requirePermission('territories:manage'), deleteTerritoryController);
+router.post('/:territoryId/move', tenantMiddleware, requirePermission('territories:manage'), moveTerritoryController);
+router.post('/:territoryId/merge', tenantMiddleware, requirePermission('territories:manage'), mergeTerritoryController);
+router.put('/:territoryId/boundaries', tenantMiddleware, requirePermission('territories:manage'), geoJsonUpload.single('file'), setTerritoryBoundariesController);
+router.delete('/:territoryId/boundaries', tenantMiddleware, requirePermission('territories:manage'), clearTerritoryBoundariesController);
+
+export default router;
@@ -1,13 +1,12 @@
 import express from 'express'
 import tenantMiddleware from '@/middlewares/tenantMiddleware.js'
+import { requireEmployee, requirePermission } from '@/middlewares/permissionMiddleware.js'
 import { createTourPlanController } from '@/controllers/tourPlan/createTourPlanController.js';
 import { getTourPlansController } from '@/controllers/tourPlan/getTourPlanController.js';
 
-
 const router = express.Router();
-router.use(tenantMiddleware);
 
-router.post('/createTourPlan', createTourPlanController)
-router.get('/getTourPlans', getTourPlansController)
+router.post('/createTourPlan', tenantMiddleware, requirePermission('tasks:write'), requireEmployee, createTourPlanController)
+router.get('/getTourPlans', tenantMiddleware, requirePermission('tasks:read'), requireEmployee, getTourPlansController)
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,86 @@
+import dotenv from 'dotenv';
+import SchemaManagementService, { TenantMigrationMode } from '../services/SchemaManagementService.js';
+
+/**
+ * Tenant migration runner.
+ *
+ * Usage:
+ *   npm run tenants:migrate -- [--status | --dry-run | --apply] [--schemas=a,b] [--concurrency=4] [--output=summary.json]
+ *
+ * Defaults to --status. The JSON summary is the only thing written to stdout so it can be piped;
+ * progress logs go to stderr. Exits with code 1 when any tenant failed or has migration drift.
+ */
+
+interface CliOptions {
+  mode: TenantMigrationMode;
+  schemaNames?: string[];
+  concurrency: number;
+  output?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { mode: 'status', concurrency: 4 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+    switch (flag) {
+      case '--status':
+        options.mode = 'status';
+        break;
+      case '--dry-run':
+        options.mode = 'dry-run';
+        break;
+      case '--apply':
+        options.mode = 'apply';
+        break;
+      case '--schemas':
+        options.schemaNames = (value || '').split(',').map(s => s.trim()).filter(Boolean);
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(value, 10);
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+          throw new Error('--concurrency must be a positive integer');
+        }
+        break;
+      case '--output':
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+dotenv.config({ quiet: true });
+
+async function main() {
+  // Keep stdout reserved for the machine-readable summary
+  console.log = console.error;
+  console.info = console.error;
+
+  const options = parseArgs(process.argv.slice(2));
+  const schemaService = SchemaManagementService.getInstance();
+
+  try {
+    const summary = await schemaService.runTenantMigrations(options);
+    const json = JSON.stringify(summary, null, 2);
+
+    if (options.output) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(options.output, json, 'utf8');
+      console.error(`Summary written to ${options.output}`);
+    }
+    process.stdout.write(json + '\n');
+
+    process.exitCode = summary.totals.failed > 0 || summary.totals.drifted > 0 ? 1 : 0;
+  } finally {
+    await schemaService.closeAllConnections();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Tenant migration runner failed:', error);
+  process.exit(1);
+});
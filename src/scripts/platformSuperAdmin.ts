@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+
+/**
+ * Grants or revokes the platform super-admin role.
+ *
+ * Usage:
+ *   npm run platform:super-admin -- --email=ops@example.com [--revoke]
+ *
+ * The user must already exist in the shared database; super-admins keep their organization
+ * membership and log in through the normal login endpoint.
+ */
+
+dotenv.config({ quiet: true });
+
+async function main() {
+  let email: string | undefined;
+  let revoke = false;
+
+  for (const arg of process.argv.slice(2)) {
+    const [flag, value] = arg.split('=');
+    if (flag === '--email') email = value;
+    else if (flag === '--revoke') revoke = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  if (!email) {
+    throw new Error('--email=<user email> is required');
+  }
+
+  const schemaService = SchemaManagementService.getInstance();
+  try {
+    const user = await schemaService.sharedDb.user.findUnique({ where: { email } });
+    if (!user) {
+      throw new Error(`No user found with email ${email}`);
+    }
+
+    await schemaService.sharedDb.user.update({
+      where: { id: user.id },
+      data: { platformRole: revoke ? null : 'SUPER_ADMIN' }
+    });
+    console.log(revoke ? `✅ Revoked super-admin from ${email}` : `✅ Granted super-admin to ${email}`);
+  } finally {
+    await schemaService.closeAllConnections();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Failed to update platform role:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { reconcileAllOrganizations, reconcileOrganizationUsers } from '../services/UserProvisioningService.js';
+
+/**
+ * User reconciliation between the shared database and the tenant schemas.
+ *
+ * Usage:
+ *   npm run users:reconcile -- [--repair] [--organization=<id>] [--concurrency=2] [--output=report.json]
+ *
+ * Reports only unless --repair is given. The JSON report is the only thing written to stdout;
+ * progress logs go to stderr. Exits with code 1 when any organization failed or still has mismatches.
+ */
+
+interface CliOptions {
+  repair: boolean;
+  organizationId?: string;
+  concurrency: number;
+  output?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { repair: false, concurrency: 2 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+    switch (flag) {
+      case '--repair':
+        options.repair = true;
+        break;
+      case '--organization':
+        options.organizationId = value;
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(value, 10);
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+          throw new Error('--concurrency must be a positive integer');
+        }
+        break;
+      case '--output':
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+dotenv.config({ quiet: true });
+
+async function main() {
+  // Keep stdout reserved for the machine-readable report
+  console.log = console.error;
+  console.info = console.error;
+
+  const options = parseArgs(process.argv.slice(2));
+  const schemaService = SchemaManagementService.getInstance();
+
+  try {
+    const reports = options.organizationId
+      ? [await reconcileOrganizationUsers(options.organizationId, options.repair)]
+      : await reconcileAllOrganizations(options.repair, options.concurrency);
+    const json = JSON.stringify(reports, null, 2);
+
+    if (options.output) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(options.output, json, 'utf8');
+      console.error(`Report written to ${options.output}`);
+    }
+    process.stdout.write(json + '\n');
+
+    process.exitCode = reports.some(r => r.status === 'failed' || r.status === 'mismatched') ? 1 : 0;
+  } finally {
+    await schemaService.closeAllConnections();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ User reconciliation failed:', error);
+  process.exit(1);
+});
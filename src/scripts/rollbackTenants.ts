@@ -0,0 +1,111 @@
+import dotenv from 'dotenv';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+
+/**
+ * Tenant migration rollback.
+ *
+ * Usage:
+ *   npm run tenants:rollback -- --to=V002_add_visits (--schemas=a,b | --all) [--dry-run] [--concurrency=2] [--output=summary.json]
+ *
+ * Reverts every migration applied after --to using the paired '<name>.down.sql' scripts in
+ * tenant-migrations/ and records rolled_back_at in each schema's _prisma_migrations.
+ * The JSON summary is the only thing written to stdout; progress logs go to stderr.
+ */
+
+interface CliOptions {
+  targetMigration?: string;
+  schemaNames?: string[];
+  all: boolean;
+  dryRun: boolean;
+  concurrency: number;
+  output?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { all: false, dryRun: false, concurrency: 1 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+    switch (flag) {
+      case '--to':
+        options.targetMigration = value;
+        break;
+      case '--schemas':
+        options.schemaNames = (value || '').split(',').map(s => s.trim()).filter(Boolean);
+        break;
+      case '--all':
+        options.all = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(value, 10);
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+          throw new Error('--concurrency must be a positive integer');
+        }
+        break;
+      case '--output':
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.targetMigration) {
+    throw new Error('--to=<migration name> is required');
+  }
+  // Rolling back every tenant must be asked for explicitly
+  if (!options.all && (!options.schemaNames || options.schemaNames.length === 0)) {
+    throw new Error('Pass --schemas=a,b or --all');
+  }
+
+  return options;
+}
+
+dotenv.config({ quiet: true });
+
+async function main() {
+  // Keep stdout reserved for the machine-readable summary
+  console.log = console.error;
+  console.info = console.error;
+
+  const options = parseArgs(process.argv.slice(2));
+  const schemaService = SchemaManagementService.getInstance();
+
+  try {
+    let schemaNames = options.schemaNames || [];
+    if (options.all) {
+      const organizations = await schemaService.sharedDb.organization.findMany({
+        where: { schemaName: { not: null } },
+        select: { schemaName: true }
+      });
+      schemaNames = organizations.map(org => org.schemaName!);
+    }
+
+    const summary = await schemaService.rollbackTenants({
+      schemaNames,
+      targetMigration: options.targetMigration!,
+      dryRun: options.dryRun,
+      concurrency: options.concurrency
+    });
+    const json = JSON.stringify(summary, null, 2);
+
+    if (options.output) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(options.output, json, 'utf8');
+      console.error(`Summary written to ${options.output}`);
+    }
+    process.stdout.write(json + '\n');
+
+    process.exitCode = summary.totals.failed > 0 || summary.totals.drifted > 0 ? 1 : 0;
+  } finally {
+    await schemaService.closeAllConnections();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Tenant rollback failed:', error);
+  process.exit(1);
+});
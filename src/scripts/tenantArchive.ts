@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import SchemaManagementService from '../services/SchemaManagementService.js';
+import { exportTenantSchema, importTenantArchive } from '../services/TenantExportService.js';
+
+/**
+ * Tenant export and restore.
+ *
+ * Usage:
+ *   npm run tenants:export -- --schema=org_acme_123 [--format=jsonl|sql]
+ *   npm run tenants:import -- --archive=exports/org_acme_123_1700000000000 --name="Acme Sandbox" [--contact-email=x@y.z] [--allow-migration-mismatch]
+ *
+ * Prints a JSON result to stdout; progress logs go to stderr.
+ */
+
+dotenv.config({ quiet: true });
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (const arg of argv.slice(1)) {
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+    const [flag, ...rest] = arg.slice(2).split('=');
+    args[flag] = rest.length > 0 ? rest.join('=') : true;
+  }
+  return args;
+}
+
+async function main() {
+  // Keep stdout reserved for the machine-readable result
+  console.log = console.error;
+  console.info = console.error;
+
+  const command = process.argv[2];
+  const args = parseArgs(process.argv.slice(2));
+  const schemaService = SchemaManagementService.getInstance();
+
+  try {
+    let result: unknown;
+
+    if (command === 'export') {
+      if (typeof args.schema !== 'string') {
+        throw new Error('--schema=<schema name> is required');
+      }
+      const format = args.format === 'sql' ? 'sql' : 'jsonl';
+      result = await exportTenantSchema(args.schema, format);
+    } else if (command === 'import') {
+      if (typeof args.archive !== 'string' || typeof args.name !== 'string') {
+        throw new Error('--archive=<path> and --name=<organization name> are required');
+      }
+      result = await importTenantArchive(args.archive, {
+        organizationName: args.name,
+        contactEmail: typeof args['contact-email'] === 'string' ? args['contact-email'] : undefined,
+        allowMigrationMismatch: args['allow-migration-mismatch'] === true
+      });
+    } else {
+      throw new Error('First argument must be "export" or "import"');
+    }
+
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+  } finally {
+    await schemaService.closeAllConnections();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Tenant archive command failed:', error);
+  process.exit(1);
+});
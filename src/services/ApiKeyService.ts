@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import SchemaManagementService from './SchemaManagementService.js';
+import { Permission, PERMISSIONS } from './PermissionService.js';
+import { ApiKey } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+// Every key starts with this so leaked keys are easy to recognise and scan for
+const KEY_PREFIX = 'fpk_';
+// Stands in for an EmployeeRole on requests made with a key
+export const API_KEY_ROLE = 'API_KEY';
+// lastUsedAt is written at most this often per key instead of on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Scopes an API key can hold: reading any resource plus managing master data that is not tied
+ * to an employee (creating hospitals, updating and deleting drugs; a new drug records the employee
+ * who created it). Recording visits, orders, reports or distributions needs a signed-in employee,
+ * and user and organization administration is never delegated to a key.
+ */
+export const API_KEY_SCOPES: Permission[] = [
+  ...PERMISSIONS.filter(permission => permission.endsWith(':read')),
+  'drugs:manage',
+  'hospitals:manage'
+];
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: Permission[];
+  expiresAt?: Date;
+}
+
+/**
+ * Raised when an API key request is invalid; statusCode is the HTTP status to answer with.
+ */
+export class ApiKeyError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.statusCode = statusCode;
+  }
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const toSummary = ({ keyHash, ...summary }: ApiKey): ApiKeySummary => summary;
+
+/**
+ * Whether a header value looks like one of our API keys, before any database lookup.
+ */
+export const isApiKeyFormat = (value: string) => value.startsWith(KEY_PREFIX) && value.length > KEY_PREFIX.length + 16;
+
+/**
+ * Creates an API key for an organization.
+ * @returns The stored key details and the key itself, which is shown once and cannot be recovered.
+ */
+export async function createApiKey(organizationId: string, input: CreateApiKeyInput, createdByUserId: string): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  if (!input.name || typeof input.name !== 'string' || input.name.trim().length === 0 || input.name.trim().length > 100) {
+    throw new ApiKeyError('name is required (at most 100 characters)', 400);
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0 || input.scopes.some(scope => !API_KEY_SCOPES.includes(scope))) {
+    throw new ApiKeyError(`scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`, 400);
+  }
+  if (input.expiresAt && (isNaN(input.expiresAt.getTime()) || input.expiresAt <= new Date())) {
+    throw new ApiKeyError('expiresAt must be a date in the future', 400);
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await schemaService.sharedDb.apiKey.create({
+    data: {
+      organizationId,
+      name: input.name.trim(),
+      keyPrefix: key.slice(0, 12),
+      keyHash: hashKey(key),
+      scopes: [...new Set(input.scopes)],
+      createdByUserId,
+      expiresAt: input.expiresAt
+    }
+  });
+
+  console.log(`🔑 Created API key ${apiKey.keyPrefix} (${apiKey.name}) for organization ${organizationId}`);
+  return { apiKey: toSummary(apiKey), key };
+}
+
+/**
+ * Lists an organization's API keys, including revoked and expired ones, newest first.
+ */
+export async function listApiKeys(organizationId: string): Promise<ApiKeySummary[]> {
+  const apiKeys = await schemaService.sharedDb.apiKey.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: 'desc' }
+  });
+  return apiKeys.map(toSummary);
+}
+
+/**
+ * Revokes an API key. Requests using it are rejected from then on.
+ */
+export async function revokeApiKey(organizationId: string, keyId: string, revokedBy: string): Promise<ApiKeySummary> {
+  const apiKey = await schemaService.sharedDb.apiKey.findUnique({ where: { id: keyId } });
+  if (!apiKey || apiKey.organizationId !== organizationId) {
+    throw new ApiKeyError('API key not found', 404);
+  }
+  if (apiKey.revokedAt) {
+    return toSummary(apiKey);
+  }
+
+  const revoked = await schemaService.sharedDb.apiKey.update({
+    where: { id: keyId },
+    data: { revokedAt: new Date(), revokedBy }
+  });
+
+  console.log(`🔒 ${revokedBy} revoked API key ${revoked.keyPrefix} (${revoked.name})`);
+  return toSummary(revoked);
+}
+
+/**
+ * Looks up the key presented with a request.
+ * @returns The key with its organization, or null if it is unknown, revoked or expired.
+ */
+export async function authenticateApiKey(key: string) {
+  const apiKey = await schemaService.sharedDb.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+    include: {
+      organization: {
+        select: { id: true, name: true, schemaName: true, isActive: true, status: true, settings: true }
+      }
+    }
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    // Best effort; a failed timestamp update must not fail the request
+    schemaService.sharedDb.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    }).catch(error => console.error(`Failed to update lastUsedAt of API key ${apiKey.keyPrefix}:`, error));
+  }
+
+  return apiKey;
+}
@@ -0,0 +1,440 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import juice from 'juice';
+import SchemaManagementService from './SchemaManagementService.js';
+import { EmailHelper } from '../utils/emailHelper.js';
+import { EmailOutbox } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const readInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+// Delivery attempts before an email is marked FAILED
+const MAX_ATTEMPTS = readInt('EMAIL_MAX_ATTEMPTS', 5);
+// Wait before the first retry; doubles with every further failure
+const RETRY_BASE_MS = readInt('EMAIL_RETRY_BASE_SECONDS', 60) * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const OUTBOX_INTERVAL_MS = readInt('EMAIL_OUTBOX_INTERVAL_SECONDS', 60) * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+// An email being delivered is pushed this far into the future so no other worker picks it up meanwhile.
+// Longer than any SMTP timeout, so a crashed delivery is retried rather than lost.
+const DELIVERY_LEASE_MS = 15 * 60 * 1000;
+
+export type EmailTransportName = 'smtp' | 'gmail' | 'file' | 'console';
+
+interface OutgoingEmail {
+  id: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTransport {
+  name: EmailTransportName;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * The data each template needs. Names and emails are of the recipient.
+ */
+export interface EmailTemplateData {
+  activation: {
+    userName: string;
+    userEmail: string;
+    organizationName: string;
+    role: string;
+    activationUrl: string;
+  };
+  password_reset: {
+    userName: string;
+    userEmail: string;
+    organizationName: string;
+    resetUrl: string;
+    expiresIn: string; // Human readable, e.g. '1 hour(s)'
+  };
+  plan_decision: {
+    userName: string;
+    userEmail: string;
+    decision: 'APPROVED' | 'REJECTED';
+    startDate: Date;
+    endDate: Date;
+    taskCount: number;
+    reviewerName?: string;
+    comments?: string;
+  };
+  expense_decision: {
+    userName: string;
+    userEmail: string;
+    decision: 'APPROVED' | 'REJECTED';
+    claimNumber: string;
+    expenseType: string;
+    amount?: string;
+    reviewerName?: string;
+    comments?: string;
+  };
+  weekly_summary: {
+    userName: string;
+    userEmail: string;
+    weekStart: Date;
+    weekEnd: Date;
+    stats: Record<string, string | number>; // Label -> figure, e.g. 'Doctor visits' -> 12
+    dashboardUrl?: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+const companyName = () => process.env.APP_NAME || 'ForPharma';
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Moves the template's CSS inline so email clients that strip <style> still render it.
+ */
+const inlineEmailStyles = (htmlContent: string) => juice(htmlContent, {
+  applyStyleTags: true,
+  removeStyleTags: false,
+  preserveFontFaces: true,
+  inlinePseudoElements: true,
+  webResources: {
+    images: false, // Don't inline images
+    svgs: false,
+    links: false,
+    scripts: false
+  }
+});
+
+/**
+ * Template registry: how each kind of email is rendered from its data.
+ */
+const EMAIL_TEMPLATES: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => Promise<RenderedEmail> } = {
+  activation: async data => ({
+    subject: 'Welcome! Set Your Password',
+    html: await EmailHelper.loadActivationTemplate({
+      userName: data.userName,
+      userEmail: data.userEmail,
+      userDepartment: data.organizationName,
+      userRole: data.role,
+      resetUrl: data.activationUrl,
+      companyName: companyName()
+    }),
+    text: `Activate your account: ${data.activationUrl}`
+  }),
+
+  password_reset: async data => ({
+    subject: 'Reset Your Password',
+    html: await EmailHelper.loadPasswordResetTemplate({
+      userName: data.userName,
+      userEmail: data.userEmail,
+      organizationName: data.organizationName,
+      resetUrl: data.resetUrl,
+      expiresIn: data.expiresIn,
+      companyName: companyName()
+    }),
+    text: `Reset your password: ${data.resetUrl}`
+  }),
+
+  plan_decision: async data => {
+    const approved = data.decision === 'APPROVED';
+    const period = `${formatDate(data.startDate)} to ${formatDate(data.endDate)}`;
+    const message = approved
+      ? `Your plan for ${period} was approved. Its ${data.taskCount} task(s) are now scheduled.`
+      : `Your plan for ${period} was rejected. Please revise it and submit it for approval again.`;
+    const details: Record<string, string> = {
+      Period: period,
+      Tasks: String(data.taskCount),
+      Decision: approved ? 'Approved' : 'Rejected',
+      ...(data.reviewerName && { 'Reviewed by': data.reviewerName }),
+      ...(data.comments && { Comments: data.comments })
+    };
+
+    return {
+      subject: `Your plan for ${period} was ${approved ? 'approved' : 'rejected'}`,
+      html: await EmailHelper.loadNotificationTemplate({
+        title: approved ? 'Plan Approved' : 'Plan Rejected',
+        subtitle: period,
+        headerEmoji: approved ? '✅' : '📝',
+        userName: data.userName,
+        userEmail: data.userEmail,
+        message,
+        details,
+        companyName: companyName()
+      }),
+      text: [message, ...Object.entries(details).map(([label, value]) => `${label}: ${value}`)].join('\n')
+    };
+  },
+
+  expense_decision: async data => {
+    const approved = data.decision === 'APPROVED';
+    const message = approved
+      ? `Your expense claim ${data.claimNumber} was approved.`
+      : `Your expense claim ${data.claimNumber} was rejected.`;
+    const details: Record<string, string> = {
+      Claim: data.claimNumber,
+      Type: data.expenseType,
+      ...(data.amount && { Amount: data.amount }),
+      Decision: approved ? 'Approved' : 'Rejected',
+      ...(data.reviewerName && { 'Reviewed by': data.reviewerName }),
+      ...(data.comments && { [approved ? 'Comments' : 'Reason']: data.comments })
+    };
+
+    return {
+      subject: `Expense claim ${data.claimNumber} ${approved ? 'approved' : 'rejected'}`,
+      html: await EmailHelper.loadNotificationTemplate({
+        title: approved ? 'Expense Approved' : 'Expense Rejected',
+        subtitle: `Claim ${data.claimNumber}`,
+        headerEmoji: approved ? '💰' : '🧾',
+        userName: data.userName,
+        userEmail: data.userEmail,
+        message,
+        details,
+        companyName: companyName()
+      }),
+      text: [message, ...Object.entries(details).map(([label, value]) => `${label}: ${value}`)].join('\n')
+    };
+  },
+
+  weekly_summary: async data => {
+    const period = `${formatDate(data.weekStart)} to ${formatDate(data.weekEnd)}`;
+    const message = `Here is your activity for the week of ${period}.`;
+    const details = Object.fromEntries(Object.entries(data.stats).map(([label, value]) => [label, String(value)]));
+
+    return {
+      subject: `Your weekly summary (${period})`,
+      html: await EmailHelper.loadNotificationTemplate({
+        title: 'Weekly Summary',
+        subtitle: period,
+        headerEmoji: '📊',
+        userName: data.userName,
+        userEmail: data.userEmail,
+        message,
+        details,
+        actionUrl: data.dashboardUrl,
+        actionLabel: 'Open Dashboard',
+        companyName: companyName()
+      }),
+      text: [
+        message,
+        ...Object.entries(details).map(([label, value]) => `${label}: ${value}`),
+        ...(data.dashboardUrl ? [`Dashboard: ${data.dashboardUrl}`] : [])
+      ].join('\n')
+    };
+  }
+};
+
+const fromAddress = () =>
+  process.env.EMAIL_FROM || `"${companyName()}" <${process.env.SMTP_USER || process.env.EMAIL_USER}>`;
+
+const nodemailerTransport = (name: 'smtp' | 'gmail', transporter: nodemailer.Transporter): EmailTransport => ({
+  name,
+  send: async email => {
+    await transporter.sendMail({ from: fromAddress(), to: email.to, subject: email.subject, html: email.html, text: email.text });
+  }
+});
+
+/**
+ * Builds the transport named by EMAIL_TRANSPORT. Without it, Gmail is used when EMAIL_USER is set
+ * (the original setup) and the console otherwise.
+ */
+const createTransport = (): EmailTransport => {
+  const name = (process.env.EMAIL_TRANSPORT || (process.env.EMAIL_USER ? 'gmail' : 'console')).toLowerCase();
+
+  switch (name) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      return nodemailerTransport('smtp', nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: readInt('SMTP_PORT', 587),
+        secure: process.env.SMTP_SECURE === 'true', // true for port 465, STARTTLS otherwise
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+      }));
+
+    case 'gmail':
+      return nodemailerTransport('gmail', nodemailer.createTransport({
+        service: 'gmail',
+        auth: {
+          user: process.env.EMAIL_USER,
+          pass: process.env.EMAIL_PASSWORD,
+        },
+      }));
+
+    case 'file': {
+      // Writes each email as an .eml file that any mail client can open
+      const directory = path.resolve(process.env.EMAIL_FILE_DIR || 'emails');
+      const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+      return {
+        name: 'file',
+        send: async email => {
+          const info = await transporter.sendMail({ from: fromAddress(), to: email.to, subject: email.subject, html: email.html, text: email.text });
+          await fs.promises.mkdir(directory, { recursive: true });
+          const filePath = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${email.id}.eml`);
+          await fs.promises.writeFile(filePath, info.message as Buffer);
+          console.log(`📧 [file] ${email.subject} -> ${email.to} (${filePath})`);
+        }
+      };
+    }
+
+    case 'console':
+      return {
+        name: 'console',
+        send: async email => {
+          console.log(`📧 [console] ${email.subject} -> ${email.to}\n${email.text}`);
+        }
+      };
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"; use smtp, gmail, file or console`);
+  }
+};
+
+let transport: EmailTransport | null = null;
+
+const getTransport = () => {
+  if (!transport) {
+    transport = createTransport();
+    console.log(`📧 Email transport: ${transport.name}`);
+  }
+  return transport;
+};
+
+const retryDelayMs = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Makes one delivery attempt for an outbox entry and records the outcome.
+ * @returns Whether the email was sent.
+ */
+async function deliver(entry: EmailOutbox): Promise<boolean> {
+  const attempts = entry.attempts + 1;
+
+  try {
+    await getTransport().send({
+      id: entry.id,
+      to: entry.recipient,
+      subject: entry.subject,
+      html: entry.html || '',
+      text: entry.text || ''
+    });
+  } catch (error: any) {
+    const failed = attempts >= MAX_ATTEMPTS;
+    await schemaService.sharedDb.emailOutbox.update({
+      where: { id: entry.id },
+      data: {
+        attempts,
+        status: failed ? 'FAILED' : 'PENDING',
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+        lastError: String(error?.message || error).slice(0, 2000)
+      }
+    });
+
+    if (failed) {
+      console.error(`❌ Giving up on ${entry.template} email to ${entry.recipient} after ${attempts} attempts:`, error);
+    } else {
+      console.warn(`⚠️ Failed to send ${entry.template} email to ${entry.recipient} (attempt ${attempts}/${MAX_ATTEMPTS}); will retry:`, error?.message || error);
+    }
+    return false;
+  }
+
+  await schemaService.sharedDb.emailOutbox.update({
+    where: { id: entry.id },
+    data: { attempts, status: 'SENT', sentAt: new Date(), lastError: null, html: null, text: null }
+  });
+  return true;
+}
+
+/**
+ * Renders a template, stores it in the outbox and makes the first delivery attempt right away.
+ * A failed attempt is retried by the outbox worker, so callers only need `sent` to word their response.
+ * @throws If the template cannot be rendered or the outbox entry cannot be stored; nothing is queued then.
+ */
+export async function sendEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplateData[K],
+  options: { organizationId?: string } = {}
+): Promise<{ id: string; sent: boolean }> {
+  const rendered = await EMAIL_TEMPLATES[template](data);
+
+  const entry = await schemaService.sharedDb.emailOutbox.create({
+    data: {
+      template,
+      recipient: to,
+      subject: rendered.subject,
+      html: inlineEmailStyles(rendered.html),
+      text: rendered.text,
+      organizationId: options.organizationId,
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+    }
+  });
+
+  return { id: entry.id, sent: await deliver(entry) };
+}
+
+/**
+ * Retries the pending emails that are due, oldest first.
+ * Each entry is claimed before it is sent, so several instances can run this side by side.
+ */
+export async function processEmailOutbox(batchSize = OUTBOX_BATCH_SIZE): Promise<{ sent: number; failed: number }> {
+  const due = await schemaService.sharedDb.emailOutbox.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const entry of due) {
+    const claimed = await schemaService.sharedDb.emailOutbox.updateMany({
+      where: { id: entry.id, status: 'PENDING', nextAttemptAt: entry.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) }
+    });
+    if (claimed.count === 0) continue;
+
+    if (await deliver(entry)) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`📧 Email outbox: ${sent} sent, ${failed} failed of ${due.length} due`);
+  }
+  return { sent, failed };
+}
+
+/**
+ * Starts retrying the outbox every EMAIL_OUTBOX_INTERVAL_SECONDS.
+ * @returns A function that stops the worker.
+ */
+export function startEmailOutboxWorker(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // A slow batch must not overlap with the next tick
+    if (running) return;
+    running = true;
+    try {
+      await processEmailOutbox();
+    } catch (error) {
+      console.error('Email outbox processing error:', error);
+    } finally {
+      running = false;
+    }
+  }, OUTBOX_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
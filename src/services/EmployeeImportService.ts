@@ -0,0 +1,314 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import SchemaManagementService from './SchemaManagementService.js';
+import { provisionUser, ProvisioningError } from './UserProvisioningService.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { EmployeeRole } from '../../generated/prisma-shared/index.js';
+import { PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const EMPLOYEE_ROLES = Object.values(EmployeeRole);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MAX_IMPORT_ROWS = 1000;
+// Rows are created a few at a time; each one hashes a password and writes to both databases
+const IMPORT_CONCURRENCY = 4;
+
+// Accepted spellings of each column, compared after lowercasing and dropping non-alphanumerics
+const COLUMN_ALIASES: Record<string, string[]> = {
+  name: ['name', 'fullname', 'employeename'],
+  firstName: ['firstname'],
+  lastName: ['lastname', 'surname'],
+  email: ['email', 'emailaddress', 'emailid'],
+  role: ['role'],
+  employeeCode: ['employeecode', 'code', 'empcode'],
+  phone: ['phone', 'mobile', 'phonenumber'],
+  city: ['city'],
+  state: ['state'],
+  team: ['team', 'teamname'],
+  territories: ['territories', 'territory']
+};
+
+export interface EmployeeImportRow {
+  row: number; // Line in the uploaded sheet, header being line 1
+  email: string;
+  firstName: string;
+  lastName?: string;
+  role: EmployeeRole;
+  employeeCode?: string;
+  phone?: string;
+  city?: string;
+  state?: string;
+  teamId?: string;
+  territoryIds: string[];
+}
+
+export interface EmployeeImportRowError {
+  row: number;
+  email?: string;
+  errors: string[];
+}
+
+export interface EmployeeImportResult {
+  totalRows: number;
+  validRows: EmployeeImportRow[];
+  invalidRows: EmployeeImportRowError[];
+}
+
+export interface EmployeeImportOutcome {
+  created: { row: number; email: string; userId: string; employeeId: string }[];
+  failed: EmployeeImportRowError[];
+}
+
+/**
+ * Raised when the uploaded file cannot be read as an employee sheet at all.
+ */
+export class EmployeeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmployeeImportError';
+  }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Roles may be written as in the enum or with spaces/hyphens, in any case
+const normalizeRole = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+
+const splitList = (value: string) => value.split(/[;|,]/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Reads the first worksheet of a CSV or XLSX file into records keyed by column name.
+ */
+async function readSheet(buffer: Buffer, fileName: string): Promise<{ row: number; values: Record<string, string> }[]> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+
+  try {
+    if (/\.xlsx$/i.test(fileName)) {
+      await workbook.xlsx.load(buffer as any);
+      worksheet = workbook.worksheets[0];
+    } else if (/\.csv$/i.test(fileName)) {
+      // Keep every value as text so codes like 00123 are not turned into numbers
+      worksheet = await workbook.csv.read(Readable.from(buffer), { map: (value: any) => value });
+    } else {
+      throw new EmployeeImportError('Upload a .csv or .xlsx file');
+    }
+  } catch (error) {
+    if (error instanceof EmployeeImportError) throw error;
+    throw new EmployeeImportError(`Could not read ${fileName}: ${(error as Error).message}`);
+  }
+
+  if (!worksheet || worksheet.rowCount < 2) {
+    throw new EmployeeImportError('The file has no employee rows');
+  }
+
+  const columns = new Map<number, string>();
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    const header = normalizeHeader(cell.text || '');
+    const field = Object.keys(COLUMN_ALIASES).find(key => COLUMN_ALIASES[key].includes(header));
+    if (field) columns.set(columnNumber, field);
+  });
+
+  const fields = new Set(columns.values());
+  if (!fields.has('email') || !fields.has('role') || !(fields.has('name') || fields.has('firstName'))) {
+    throw new EmployeeImportError('The header row must contain name (or first name), email and role columns');
+  }
+
+  const records: { row: number; values: Record<string, string> }[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: Record<string, string> = {};
+    columns.forEach((field, columnNumber) => {
+      const text = (row.getCell(columnNumber).text || '').trim();
+      if (text) values[field] = text;
+    });
+
+    // Skip blank lines instead of reporting them
+    if (Object.keys(values).length > 0) {
+      records.push({ row: rowNumber, values });
+    }
+  });
+
+  if (records.length === 0) {
+    throw new EmployeeImportError('The file has no employee rows');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new EmployeeImportError(`At most ${MAX_IMPORT_ROWS} employees can be imported at once`);
+  }
+
+  return records;
+}
+
+/**
+ * Parses and validates an uploaded employee sheet against an organization without writing anything.
+ * Teams and territories are matched by name (case-insensitive).
+ */
+export async function validateEmployeeImport(
+  organizationId: string,
+  tenantDb: TenantPrismaClient,
+  buffer: Buffer,
+  fileName: string
+): Promise<EmployeeImportResult> {
+  const records = await readSheet(buffer, fileName);
+
+  const emails = records.map(r => r.values.email).filter(Boolean);
+  const codes = records.map(r => r.values.employeeCode).filter(Boolean);
+
+  const [existingUsers, existingEmployees, teams, territories] = await Promise.all([
+    schemaService.sharedDb.user.findMany({ where: { email: { in: emails } }, select: { email: true } }),
+    tenantDb.employee.findMany({
+      where: { OR: [{ email: { in: emails } }, { employeeCode: { in: codes } }] },
+      select: { email: true, employeeCode: true }
+    }),
+    tenantDb.team.findMany({ where: { isActive: true }, select: { id: true, teamName: true } }),
+    tenantDb.territory.findMany({ where: { organizationId }, select: { id: true, name: true } })
+  ]);
+
+  const takenEmails = new Set([...existingUsers.map(u => u.email), ...existingEmployees.map(e => e.email)]);
+  const takenCodes = new Set(existingEmployees.map(e => e.employeeCode).filter(Boolean));
+
+  const teamsByName = new Map<string, string[]>();
+  teams.forEach(team => {
+    const key = team.teamName.trim().toLowerCase();
+    teamsByName.set(key, [...(teamsByName.get(key) || []), team.id]);
+  });
+  const territoriesByName = new Map<string, string[]>();
+  territories.forEach(territory => {
+    const key = territory.name.trim().toLowerCase();
+    territoriesByName.set(key, [...(territoriesByName.get(key) || []), territory.id]);
+  });
+
+  const emailRows = new Map<string, number>();
+  const codeRows = new Map<string, number>();
+  const validRows: EmployeeImportRow[] = [];
+  const invalidRows: EmployeeImportRowError[] = [];
+
+  for (const { row, values } of records) {
+    const errors: string[] = [];
+
+    const email = values.email;
+    if (!email) {
+      errors.push('email is required');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`email "${email}" is not a valid address`);
+    } else if (emailRows.has(email)) {
+      errors.push(`email ${email} is also used on row ${emailRows.get(email)}`);
+    } else if (takenEmails.has(email)) {
+      errors.push(`a user with email ${email} already exists`);
+    }
+    if (email && !emailRows.has(email)) emailRows.set(email, row);
+
+    let firstName: string | undefined = values.firstName;
+    let lastName: string | undefined = values.lastName;
+    if (!firstName && values.name) {
+      // A single name column is split at the first space
+      const [first, ...rest] = values.name.split(/\s+/);
+      firstName = first;
+      lastName = lastName || rest.join(' ') || undefined;
+    }
+    if (!firstName) {
+      errors.push('name is required');
+    }
+
+    const role = values.role ? normalizeRole(values.role) : '';
+    if (!role) {
+      errors.push('role is required');
+    } else if (!EMPLOYEE_ROLES.includes(role as EmployeeRole)) {
+      errors.push(`role "${values.role}" must be one of: ${EMPLOYEE_ROLES.join(', ')}`);
+    }
+
+    const employeeCode = values.employeeCode;
+    if (employeeCode) {
+      if (codeRows.has(employeeCode)) {
+        errors.push(`employee code ${employeeCode} is also used on row ${codeRows.get(employeeCode)}`);
+      } else if (takenCodes.has(employeeCode)) {
+        errors.push(`employee code ${employeeCode} is already assigned`);
+      } else {
+        codeRows.set(employeeCode, row);
+      }
+    }
+
+    let teamId: string | undefined;
+    if (values.team) {
+      const matches = teamsByName.get(values.team.toLowerCase()) || [];
+      if (matches.length === 0) {
+        errors.push(`team "${values.team}" does not exist`);
+      } else if (matches.length > 1) {
+        errors.push(`team "${values.team}" matches ${matches.length} teams`);
+      } else {
+        teamId = matches[0];
+      }
+    }
+
+    const territoryIds: string[] = [];
+    for (const territoryName of values.territories ? splitList(values.territories) : []) {
+      const matches = territoriesByName.get(territoryName.toLowerCase()) || [];
+      if (matches.length === 0) {
+        errors.push(`territory "${territoryName}" does not exist`);
+      } else if (matches.length > 1) {
+        errors.push(`territory "${territoryName}" matches ${matches.length} territories`);
+      } else if (!territoryIds.includes(matches[0])) {
+        territoryIds.push(matches[0]);
+      }
+    }
+
+    if (errors.length > 0) {
+      invalidRows.push({ row, email, errors });
+      continue;
+    }
+
+    validRows.push({
+      row,
+      email,
+      firstName: firstName!,
+      lastName,
+      role: role as EmployeeRole,
+      employeeCode,
+      phone: values.phone,
+      city: values.city,
+      state: values.state,
+      teamId,
+      territoryIds
+    });
+  }
+
+  return { totalRows: records.length, validRows, invalidRows };
+}
+
+/**
+ * Creates validated employees (inactive, awaiting activation) in both databases.
+ * A row that fails is reported and does not stop the others.
+ */
+export async function importEmployees(organizationId: string, rows: EmployeeImportRow[]): Promise<EmployeeImportOutcome> {
+  const outcome: EmployeeImportOutcome = { created: [], failed: [] };
+
+  await mapWithConcurrency(rows, IMPORT_CONCURRENCY, async row => {
+    try {
+      const { user, employee } = await provisionUser(organizationId, {
+        email: row.email,
+        role: row.role,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        phone: row.phone,
+        employeeCode: row.employeeCode,
+        city: row.city,
+        state: row.state,
+        teamId: row.teamId,
+        territoryIds: row.territoryIds
+      });
+      outcome.created.push({ row: row.row, email: row.email, userId: user.id, employeeId: employee.id });
+    } catch (error: any) {
+      if (!(error instanceof ProvisioningError)) {
+        console.error(`❌ Failed to import employee on row ${row.row}:`, error);
+      }
+      outcome.failed.push({ row: row.row, email: row.email, errors: [error.message] });
+    }
+  });
+
+  outcome.created.sort((a, b) => a.row - b.row);
+  outcome.failed.sort((a, b) => a.row - b.row);
+  return outcome;
+}
@@ -0,0 +1,232 @@
+import SchemaManagementService from './SchemaManagementService.js';
+import { SessionDevice } from './SessionService.js';
+import { AccountLockout, LoginAttempt, Prisma } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const readInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+// Failed logins for one email within the window that lock the account
+const MAX_FAILED_ATTEMPTS_PER_EMAIL = readInt('LOGIN_MAX_FAILED_ATTEMPTS', 5);
+// Failed logins from one IP address within the window before it is throttled
+const MAX_FAILED_ATTEMPTS_PER_IP = readInt('LOGIN_MAX_FAILED_ATTEMPTS_PER_IP', 20);
+const FAILURE_WINDOW_MS = readInt('LOGIN_FAILURE_WINDOW_MINUTES', 15) * 60 * 1000;
+const LOCKOUT_DURATION_MS = readInt('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000;
+
+// Only guessable failures count towards throttling: wrong passwords and wrong second-factor codes.
+// Attempts rejected while locked do not extend the lockout, and a Google login cannot be guessed.
+const COUNTED_FAILURES: Prisma.LoginAttemptWhereInput[] = [
+  { method: 'password', failureReason: { in: ['unknown_user', 'invalid_password'] } },
+  { failureReason: 'invalid_two_factor' }
+];
+
+const isCountedFailure = (attempt: LoginAttemptRecord) =>
+  !attempt.success && (
+    attempt.failureReason === 'invalid_two_factor' ||
+    (attempt.method === 'password' && (attempt.failureReason === 'unknown_user' || attempt.failureReason === 'invalid_password'))
+  );
+
+export type LoginMethod = 'password' | 'google';
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_two_factor'
+  | 'account_inactive'
+  | 'organization_inactive'
+  | 'account_locked'
+  | 'ip_throttled';
+
+export interface LoginBlock {
+  reason: 'account_locked' | 'ip_throttled';
+  retryAfterSeconds: number;
+}
+
+export interface LoginAttemptRecord {
+  email: string;
+  method: LoginMethod;
+  success: boolean;
+  failureReason?: LoginFailureReason;
+  userId?: string;
+  organizationId?: string;
+  device: SessionDevice;
+}
+
+export interface LoginHistoryFilter {
+  organizationId: string;
+  email?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const activeLockoutWhere = (email: string): Prisma.AccountLockoutWhereInput => ({
+  email,
+  unlockedAt: null,
+  lockedUntil: { gt: new Date() }
+});
+
+/**
+ * Checks whether a login may be attempted before the credentials are looked at.
+ * @returns Why the attempt is blocked and for how long, or null when it may proceed.
+ */
+export async function getLoginBlock(email: string, ipAddress?: string): Promise<LoginBlock | null> {
+  const lockout = await schemaService.sharedDb.accountLockout.findFirst({
+    where: activeLockoutWhere(email),
+    orderBy: { lockedUntil: 'desc' }
+  });
+  if (lockout) {
+    return { reason: 'account_locked', retryAfterSeconds: secondsUntil(lockout.lockedUntil) };
+  }
+
+  if (ipAddress) {
+    const failures = await schemaService.sharedDb.loginAttempt.findMany({
+      where: {
+        ipAddress,
+        success: false,
+        OR: COUNTED_FAILURES,
+        createdAt: { gt: new Date(Date.now() - FAILURE_WINDOW_MS) }
+      },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_FAILED_ATTEMPTS_PER_IP
+    });
+
+    if (failures.length >= MAX_FAILED_ATTEMPTS_PER_IP) {
+      // Blocked until the oldest of the counted failures leaves the window
+      const oldest = failures[failures.length - 1].createdAt;
+      return { reason: 'ip_throttled', retryAfterSeconds: secondsUntil(new Date(oldest.getTime() + FAILURE_WINDOW_MS)) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Writes a login attempt to the history. A counted failure that reaches the limit locks the email.
+ * @returns The block caused by a lockout this attempt triggered, or null.
+ */
+export async function recordLoginAttempt(attempt: LoginAttemptRecord): Promise<LoginBlock | null> {
+  await schemaService.sharedDb.loginAttempt.create({
+    data: {
+      email: attempt.email,
+      userId: attempt.userId,
+      organizationId: attempt.organizationId,
+      method: attempt.method,
+      success: attempt.success,
+      failureReason: attempt.failureReason,
+      ipAddress: attempt.device.ipAddress,
+      userAgent: attempt.device.userAgent
+    }
+  });
+
+  if (!isCountedFailure(attempt)) {
+    return null;
+  }
+
+  // Only failures after the last success or unlock count
+  const [lastSuccess, lastUnlock] = await Promise.all([
+    schemaService.sharedDb.loginAttempt.findFirst({
+      where: { email: attempt.email, success: true },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    }),
+    schemaService.sharedDb.accountLockout.findFirst({
+      where: { email: attempt.email, unlockedAt: { not: null } },
+      orderBy: { unlockedAt: 'desc' },
+      select: { unlockedAt: true }
+    })
+  ]);
+  const since = new Date(Math.max(
+    Date.now() - FAILURE_WINDOW_MS,
+    lastSuccess?.createdAt.getTime() || 0,
+    lastUnlock?.unlockedAt?.getTime() || 0
+  ));
+
+  const failedAttempts = await schemaService.sharedDb.loginAttempt.count({
+    where: {
+      email: attempt.email,
+      success: false,
+      OR: COUNTED_FAILURES,
+      createdAt: { gte: since }
+    }
+  });
+
+  if (failedAttempts < MAX_FAILED_ATTEMPTS_PER_EMAIL) {
+    return null;
+  }
+
+  const lockout = await schemaService.sharedDb.accountLockout.create({
+    data: {
+      email: attempt.email,
+      organizationId: attempt.organizationId,
+      failedAttempts,
+      lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS)
+    }
+  });
+
+  console.warn(`🔒 Locked ${attempt.email} for ${LOCKOUT_DURATION_MS / 60000} minutes after ${failedAttempts} failed logins`);
+  return { reason: 'account_locked', retryAfterSeconds: secondsUntil(lockout.lockedUntil) };
+}
+
+/**
+ * Lifts the active lockouts of an email. Failures before the unlock no longer count.
+ * @returns How many lockouts were lifted.
+ */
+export async function unlockAccount(email: string, unlockedBy: string): Promise<number> {
+  const result = await schemaService.sharedDb.accountLockout.updateMany({
+    where: activeLockoutWhere(email),
+    data: { unlockedAt: new Date(), unlockedBy }
+  });
+
+  if (result.count > 0) {
+    console.log(`🔓 ${unlockedBy} unlocked ${email}`);
+  }
+  return result.count;
+}
+
+/**
+ * Lists an organization's active lockouts, the ones ending last first.
+ */
+export async function listActiveLockouts(organizationId: string): Promise<AccountLockout[]> {
+  return schemaService.sharedDb.accountLockout.findMany({
+    where: { organizationId, unlockedAt: null, lockedUntil: { gt: new Date() } },
+    orderBy: { lockedUntil: 'desc' }
+  });
+}
+
+/**
+ * Pages through an organization's login history, newest first.
+ */
+export async function listLoginHistory(filter: LoginHistoryFilter): Promise<{ attempts: LoginAttempt[]; total: number }> {
+  const where: Prisma.LoginAttemptWhereInput = {
+    organizationId: filter.organizationId,
+    ...(filter.email && { email: filter.email }),
+    ...(filter.success !== undefined && { success: filter.success }),
+    ...((filter.from || filter.to) && {
+      createdAt: {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lte: filter.to })
+      }
+    })
+  };
+
+  const [attempts, total] = await Promise.all([
+    schemaService.sharedDb.loginAttempt.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (filter.page - 1) * filter.limit,
+      take: filter.limit
+    }),
+    schemaService.sharedDb.loginAttempt.count({ where })
+  ]);
+
+  return { attempts, total };
+}
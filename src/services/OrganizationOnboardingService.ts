@@ -0,0 +1,343 @@
+import bcrypt from 'bcrypt';
+import SchemaManagementService from './SchemaManagementService.js';
+import {
+  OnboardingStep,
+  OrganizationOnboarding
+} from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+// Steps in execution order; each one is skipped when already recorded as completed
+const ONBOARDING_STEPS: OnboardingStep[] = ['ORGANIZATION', 'SCHEMA', 'ADMIN_USER', 'ADMIN_EMPLOYEE', 'ACTIVATION'];
+
+// An IN_PROGRESS onboarding untouched for this long is assumed to belong to a crashed process
+const STALE_ONBOARDING_MS = 15 * 60 * 1000;
+
+export interface OnboardingInput {
+  name: string;
+  email: string; // Contact email for the organization
+  address?: string;
+  website?: string;
+  adminEmail: string;
+  adminPassword: string;
+  adminFirstName: string;
+  adminLastName?: string;
+}
+
+/**
+ * Raised when onboarding cannot start or continue. `onboarding` is set when a tracked
+ * onboarding exists that the caller can resume or cancel.
+ */
+export class OnboardingError extends Error {
+  statusCode: number;
+  onboarding?: OrganizationOnboarding;
+
+  constructor(message: string, statusCode: number, onboarding?: OrganizationOnboarding) {
+    super(message);
+    this.name = 'OnboardingError';
+    this.statusCode = statusCode;
+    this.onboarding = onboarding;
+  }
+}
+
+/**
+ * Strips the stored password hash before an onboarding is returned to a client.
+ */
+export function toOnboardingResponse(onboarding: OrganizationOnboarding) {
+  const { adminPasswordHash, ...rest } = onboarding;
+  return {
+    ...rest,
+    pendingSteps: ONBOARDING_STEPS.filter(step => !onboarding.completedSteps.includes(step))
+  };
+}
+
+const isStale = (onboarding: OrganizationOnboarding) =>
+  Date.now() - onboarding.updatedAt.getTime() > STALE_ONBOARDING_MS;
+
+/**
+ * Whether an onboarding can be picked up again by resume or cancel.
+ */
+const isResumable = (onboarding: OrganizationOnboarding) =>
+  onboarding.status === 'FAILED' || (onboarding.status === 'IN_PROGRESS' && isStale(onboarding));
+
+/**
+ * Runs a single step. Every step checks what already exists first (the organization through the
+ * id recorded together with it), so re-running a step that completed before a crash (but was not
+ * recorded as completed) is harmless.
+ */
+async function runStep(onboarding: OrganizationOnboarding, step: OnboardingStep): Promise<Partial<OrganizationOnboarding>> {
+  switch (step) {
+    case 'ORGANIZATION': {
+      if (onboarding.organizationId) {
+        const existing = await schemaService.sharedDb.organization.findUnique({ where: { id: onboarding.organizationId } });
+        if (existing) return {};
+      }
+
+      // The id is recorded in the same transaction, so a crash cannot leave an organization that
+      // resume and cancel do not know about (and whose name blocks the next attempt)
+      const organization = await schemaService.sharedDb.$transaction(async (tx) => {
+        const created = await tx.organization.create({
+          data: {
+            name: onboarding.organizationName,
+            contactEmail: onboarding.contactEmail,
+            address: onboarding.address,
+            website: onboarding.website,
+            // Hidden from logins until the ACTIVATION step
+            status: 'PROVISIONING',
+            isActive: false
+          }
+        });
+        await tx.organizationOnboarding.update({
+          where: { id: onboarding.id },
+          data: { organizationId: created.id }
+        });
+        return created;
+      });
+      console.log(`Organization record created with ID: ${organization.id}`);
+      return { organizationId: organization.id };
+    }
+
+    case 'SCHEMA': {
+      const organization = await schemaService.sharedDb.organization.findUniqueOrThrow({
+        where: { id: onboarding.organizationId! },
+        select: { schemaName: true }
+      });
+
+      if (organization.schemaName) {
+        // The schema was created by an earlier attempt; bring it up to date instead of recreating it
+        await schemaService.applyRequiredMigrationsToSchema(organization.schemaName);
+        if (!(await schemaService.verifySchemaCreation(organization.schemaName))) {
+          throw new Error(`Schema ${organization.schemaName} failed verification`);
+        }
+        return { schemaName: organization.schemaName };
+      }
+
+      const schemaName = await schemaService.createOrganizationSchema(onboarding.organizationId!, onboarding.organizationName);
+      console.log(`Dedicated schema "${schemaName}" created and initialized for organization ID: ${onboarding.organizationId}`);
+      return { schemaName };
+    }
+
+    case 'ADMIN_USER': {
+      const existing = await schemaService.sharedDb.user.findUnique({ where: { email: onboarding.adminEmail } });
+      if (existing) {
+        if (existing.organizationId !== onboarding.organizationId) {
+          throw new Error(`A user with email ${onboarding.adminEmail} already exists in another organization`);
+        }
+        return { adminUserId: existing.id };
+      }
+
+      const adminUser = await schemaService.sharedDb.user.create({
+        data: {
+          email: onboarding.adminEmail,
+          password: onboarding.adminPasswordHash!,
+          role: 'SYSTEM_ADMINISTRATOR',
+          organizationId: onboarding.organizationId!,
+          isActive: true
+        }
+      });
+      console.log(`Admin user "${adminUser.email}" created successfully in shared schema`);
+      return { adminUserId: adminUser.id };
+    }
+
+    case 'ADMIN_EMPLOYEE': {
+      const tenantDb = await schemaService.getTenantClient(onboarding.schemaName!);
+      const existing = await tenantDb.employee.findUnique({ where: { email: onboarding.adminEmail } });
+      if (existing) return {};
+
+      await tenantDb.employee.create({
+        data: {
+          organizationId: onboarding.organizationId!,
+          email: onboarding.adminEmail,
+          passwordHash: onboarding.adminPasswordHash!,
+          firstName: onboarding.adminFirstName,
+          lastName: onboarding.adminLastName,
+          role: 'SYSTEM_ADMINISTRATOR',
+          isActive: true
+        }
+      });
+      console.log(`Admin employee "${onboarding.adminEmail}" created successfully in tenant schema: ${onboarding.schemaName}`);
+      return {};
+    }
+
+    case 'ACTIVATION': {
+      await schemaService.sharedDb.organization.update({
+        where: { id: onboarding.organizationId! },
+        data: { status: 'ACTIVE', isActive: true, statusChangedAt: new Date() }
+      });
+      return {};
+    }
+  }
+}
+
+/**
+ * Runs every step not yet completed, recording progress after each one.
+ * On failure the onboarding is marked FAILED with the failing step and error, and rethrown
+ * as an OnboardingError; the organization stays PROVISIONING (unusable) until resumed or cancelled.
+ */
+async function runPendingSteps(onboarding: OrganizationOnboarding): Promise<OrganizationOnboarding> {
+  let current = onboarding;
+
+  for (const step of ONBOARDING_STEPS) {
+    if (current.completedSteps.includes(step)) continue;
+
+    try {
+      console.log(`▶️ Onboarding ${current.id}: ${step}`);
+      const changes = await runStep(current, step);
+      current = await schemaService.sharedDb.organizationOnboarding.update({
+        where: { id: current.id },
+        data: {
+          ...changes,
+          completedSteps: { push: step }
+        }
+      });
+    } catch (error: any) {
+      console.error(`❌ Onboarding ${current.id} failed at step ${step}:`, error);
+      const failed = await schemaService.sharedDb.organizationOnboarding.update({
+        where: { id: current.id },
+        data: {
+          status: 'FAILED',
+          failedStep: step,
+          lastError: error.message || String(error)
+        }
+      });
+      throw new OnboardingError(`Onboarding failed at step ${step}: ${error.message || error}`, 500, failed);
+    }
+  }
+
+  const completed = await schemaService.sharedDb.organizationOnboarding.update({
+    where: { id: current.id },
+    data: {
+      status: 'COMPLETED',
+      failedStep: null,
+      lastError: null,
+      adminPasswordHash: null,
+      completedAt: new Date()
+    }
+  });
+  console.log(`✅ Onboarding ${completed.id} completed for organization ${completed.organizationName}`);
+  return completed;
+}
+
+/**
+ * Atomically moves a resumable onboarding back to IN_PROGRESS so that only one caller can work on it.
+ */
+async function claimOnboarding(onboardingId: string, action: 'resume' | 'cancel'): Promise<OrganizationOnboarding> {
+  const onboarding = await schemaService.sharedDb.organizationOnboarding.findUnique({ where: { id: onboardingId } });
+  if (!onboarding) {
+    throw new OnboardingError('Onboarding not found', 404);
+  }
+  if (!isResumable(onboarding)) {
+    throw new OnboardingError(`Cannot ${action} an onboarding that is ${onboarding.status}`, 409, onboarding);
+  }
+
+  const claimed = await schemaService.sharedDb.organizationOnboarding.updateMany({
+    where: { id: onboardingId, updatedAt: onboarding.updatedAt },
+    data: {
+      status: 'IN_PROGRESS',
+      ...(action === 'resume' && { attempts: { increment: 1 } })
+    }
+  });
+  if (claimed.count === 0) {
+    throw new OnboardingError('Onboarding is being processed by another request', 409, onboarding);
+  }
+
+  return schemaService.sharedDb.organizationOnboarding.findUniqueOrThrow({ where: { id: onboardingId } });
+}
+
+/**
+ * Starts a tracked onboarding and runs it to completion.
+ * Refuses to start while another onboarding for the same organization name is unfinished.
+ */
+export async function startOnboarding(input: OnboardingInput): Promise<OrganizationOnboarding> {
+  const unfinished = await schemaService.sharedDb.organizationOnboarding.findFirst({
+    where: { organizationName: input.name, status: { in: ['IN_PROGRESS', 'FAILED'] } }
+  });
+  if (unfinished) {
+    throw new OnboardingError('An onboarding for this organization is already in progress or waiting to be resumed', 409, unfinished);
+  }
+
+  const [existingOrganization, existingUser] = await Promise.all([
+    schemaService.sharedDb.organization.findUnique({ where: { name: input.name }, select: { id: true } }),
+    schemaService.sharedDb.user.findUnique({ where: { email: input.adminEmail }, select: { id: true } })
+  ]);
+  if (existingOrganization) {
+    throw new OnboardingError('An organization with this name already exists', 409);
+  }
+  if (existingUser) {
+    throw new OnboardingError('A user with the admin email already exists', 409);
+  }
+
+  const onboarding = await schemaService.sharedDb.organizationOnboarding.create({
+    data: {
+      organizationName: input.name,
+      contactEmail: input.email,
+      address: input.address,
+      website: input.website,
+      adminEmail: input.adminEmail,
+      adminPasswordHash: await bcrypt.hash(input.adminPassword, 10),
+      adminFirstName: input.adminFirstName,
+      adminLastName: input.adminLastName
+    }
+  });
+  console.log(`Starting organization onboarding ${onboarding.id} for ${input.name}...`);
+
+  return runPendingSteps(onboarding);
+}
+
+/**
+ * Continues a failed (or abandoned) onboarding from its first incomplete step.
+ */
+export async function resumeOnboarding(onboardingId: string): Promise<OrganizationOnboarding> {
+  const onboarding = await claimOnboarding(onboardingId, 'resume');
+  console.log(`Resuming onboarding ${onboarding.id} (attempt ${onboarding.attempts})...`);
+  return runPendingSteps(onboarding);
+}
+
+/**
+ * Cancels an unfinished onboarding and removes everything it created, newest first,
+ * so the organization name and admin email can be used again.
+ */
+export async function cancelOnboarding(onboardingId: string): Promise<OrganizationOnboarding> {
+  const onboarding = await claimOnboarding(onboardingId, 'cancel');
+  console.log(`Cancelling onboarding ${onboarding.id}...`);
+
+  try {
+    if (onboarding.adminUserId) {
+      await schemaService.sharedDb.user.deleteMany({
+        where: { id: onboarding.adminUserId, organizationId: onboarding.organizationId! }
+      });
+    }
+
+    if (onboarding.organizationId) {
+      const organization = await schemaService.sharedDb.organization.findUnique({
+        where: { id: onboarding.organizationId },
+        select: { schemaName: true, status: true }
+      });
+
+      if (organization) {
+        if (organization.status !== 'PROVISIONING') {
+          throw new Error(`Organization ${onboarding.organizationId} is ${organization.status}; refusing to remove it`);
+        }
+        // The tenant admin employee goes with the schema
+        if (organization.schemaName) {
+          await schemaService.dropOrganizationSchema(organization.schemaName);
+        }
+        await schemaService.sharedDb.organization.delete({ where: { id: onboarding.organizationId } });
+      }
+    }
+  } catch (error: any) {
+    console.error(`❌ Failed to cancel onboarding ${onboarding.id}:`, error);
+    const failed = await schemaService.sharedDb.organizationOnboarding.update({
+      where: { id: onboarding.id },
+      data: { status: 'FAILED', lastError: `Cancel failed: ${error.message || error}` }
+    });
+    throw new OnboardingError(`Failed to cancel onboarding: ${error.message || error}`, 500, failed);
+  }
+
+  const cancelled = await schemaService.sharedDb.organizationOnboarding.update({
+    where: { id: onboarding.id },
+    data: { status: 'CANCELLED', adminPasswordHash: null }
+  });
+  console.log(`🧹 Onboarding ${cancelled.id} cancelled`);
+  return cancelled;
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    DEFAULT_ORGANIZATION_SETTINGS,
+    isDcrSubmissionOpen,
+    resolveOrganizationSettings,
+    validateOrganizationSettings
+} from './OrganizationSettingsService.js';
+
+describe('validateOrganizationSettings', () => {
+    it('accepts a partial update', () => {
+        assert.deepEqual(validateOrganizationSettings({ timezone: 'Europe/Berlin', dcrSubmissionDeadlineDays: 3 }), []);
+    });
+
+    it('accepts null as no DCR submission deadline', () => {
+        assert.deepEqual(validateOrganizationSettings({ dcrSubmissionDeadlineDays: null }), []);
+    });
+
+    it('rejects unknown keys', () => {
+        assert.deepEqual(validateOrganizationSettings({ workingDays: [1, 2, 3] }), ['Unknown setting: workingDays']);
+    });
+
+    it('rejects an unknown time zone', () => {
+        assert.equal(validateOrganizationSettings({ timezone: 'Mars/Olympus' }).length, 1);
+    });
+
+    it('rejects out-of-range values', () => {
+        assert.equal(validateOrganizationSettings({ dcrSubmissionDeadlineDays: 400 }).length, 1);
+        assert.equal(validateOrganizationSettings({ dcrSubmissionDeadlineDays: 1.5 }).length, 1);
+        assert.equal(validateOrganizationSettings({ defaultPageSize: 0 }).length, 1);
+        assert.equal(validateOrganizationSettings({ rcpaReportingPeriods: { DAILY: { maxDays: 1 } } }).length, 1);
+    });
+
+    it('rejects anything other than an object', () => {
+        assert.deepEqual(validateOrganizationSettings([]), ['Settings must be an object']);
+    });
+});
+
+describe('resolveOrganizationSettings', () => {
+    it('returns the defaults when nothing is stored', () => {
+        assert.deepEqual(resolveOrganizationSettings(null), DEFAULT_ORGANIZATION_SETTINGS);
+    });
+
+    it('merges valid stored values over the defaults', () => {
+        const settings = resolveOrganizationSettings({ timezone: 'Europe/Berlin', dcrSubmissionDeadlineDays: 2 });
+        assert.equal(settings.timezone, 'Europe/Berlin');
+        assert.equal(settings.dcrSubmissionDeadlineDays, 2);
+        assert.equal(settings.defaultPageSize, DEFAULT_ORGANIZATION_SETTINGS.defaultPageSize);
+    });
+
+    it('falls back to the default for stored values that no longer validate', () => {
+        const settings = resolveOrganizationSettings({ timezone: 'Mars/Olympus', defaultPageSize: 1000, currency: 'INR' });
+        assert.deepEqual(settings, DEFAULT_ORGANIZATION_SETTINGS);
+    });
+});
+
+describe('isDcrSubmissionOpen', () => {
+    const taskDate = new Date('2026-01-01T00:00:00.000Z');
+    const withDeadline = (days: number | null, timezone = 'Asia/Kolkata') =>
+        ({ ...DEFAULT_ORGANIZATION_SETTINGS, timezone, dcrSubmissionDeadlineDays: days });
+
+    it('is always open when the organization has no deadline', () => {
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(null), new Date('2027-06-01T00:00:00.000Z')), true);
+    });
+
+    it('is open on the last day of the deadline and closed the day after', () => {
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(2), new Date('2026-01-03T06:00:00.000Z')), true);
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(2), new Date('2026-01-04T06:00:00.000Z')), false);
+    });
+
+    it('counts days in the organization\'s time zone', () => {
+        // 20:00 UTC on 3 January is already 4 January in India (UTC+5:30) but still 3 January in New York
+        const now = new Date('2026-01-03T20:00:00.000Z');
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(2, 'Asia/Kolkata'), now), false);
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(2, 'America/New_York'), now), true);
+    });
+
+    it('allows a deadline of zero days on the task date only', () => {
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(0), new Date('2026-01-01T12:00:00.000Z')), true);
+        assert.equal(isDcrSubmissionOpen(taskDate, withDeadline(0), new Date('2026-01-01T19:00:00.000Z')), false);
+    });
+});
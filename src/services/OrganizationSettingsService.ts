@@ -0,0 +1,204 @@
+import SchemaManagementService from './SchemaManagementService.js';
+import { invalidateOrganizationContexts } from './TenantContextCache.js';
+import { PermissionOverrides, validatePermissionOverrides } from './PermissionService.js';
+
+export type RcpaReportingPeriod = 'WEEKLY' | 'MONTHLY';
+
+/**
+ * Per-organization configuration stored in Organization.settings.
+ * Every field has a default, so organizations only store what they override.
+ */
+export interface OrganizationSettings {
+  timezone: string; // IANA zone, e.g. 'Asia/Kolkata'
+  rcpaReportingPeriods: Partial<Record<RcpaReportingPeriod, { maxDays: number }>>; // Periods reps may report, with their maximum length
+  dcrSubmissionDeadlineDays: number | null; // How many days after the task date a DCR can still be submitted; null for no deadline
+  defaultPageSize: number; // Page size used by list endpoints when the client does not pass one
+  rolePermissions: PermissionOverrides; // Per-role grants and revocations on top of the default permission matrix
+  requireTwoFactor: boolean; // Managers and administrators must enrol in TOTP before they can log in
+}
+
+const RCPA_REPORTING_PERIODS: RcpaReportingPeriod[] = ['WEEKLY', 'MONTHLY'];
+
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  timezone: 'Asia/Kolkata',
+  rcpaReportingPeriods: {
+    WEEKLY: { maxDays: 7 },
+    MONTHLY: { maxDays: 31 }
+  },
+  dcrSubmissionDeadlineDays: null,
+  defaultPageSize: 10,
+  rolePermissions: {},
+  requireTwoFactor: false
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validates a partial settings object as sent by a client.
+ * Unknown keys are rejected so typos do not silently fall back to defaults.
+ * @returns The list of validation errors; empty when the input is valid.
+ */
+export function validateOrganizationSettings(input: unknown): string[] {
+  if (!isPlainObject(input)) {
+    return ['Settings must be an object'];
+  }
+
+  const errors: string[] = [];
+  const knownKeys = Object.keys(DEFAULT_ORGANIZATION_SETTINGS);
+
+  for (const key of Object.keys(input)) {
+    if (!knownKeys.includes(key)) {
+      errors.push(`Unknown setting: ${key}`);
+    }
+  }
+
+  if ('timezone' in input && (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone))) {
+    errors.push('timezone must be a valid IANA time zone, e.g. Asia/Kolkata');
+  }
+
+  if ('rcpaReportingPeriods' in input) {
+    const periods = input.rcpaReportingPeriods;
+    if (!isPlainObject(periods) || Object.keys(periods).length === 0) {
+      errors.push('rcpaReportingPeriods must allow at least one reporting period');
+    } else {
+      for (const [period, config] of Object.entries(periods)) {
+        if (!RCPA_REPORTING_PERIODS.includes(period as RcpaReportingPeriod)) {
+          errors.push(`rcpaReportingPeriods.${period} is not a reporting period (${RCPA_REPORTING_PERIODS.join(', ')})`);
+        } else if (!isPlainObject(config) || !isIntegerInRange(config.maxDays, 1, 366)) {
+          errors.push(`rcpaReportingPeriods.${period}.maxDays must be an integer between 1 and 366`);
+        }
+      }
+    }
+  }
+
+  if ('dcrSubmissionDeadlineDays' in input && input.dcrSubmissionDeadlineDays !== null &&
+    !isIntegerInRange(input.dcrSubmissionDeadlineDays, 0, 365)) {
+    errors.push('dcrSubmissionDeadlineDays must be an integer between 0 and 365, or null for no deadline');
+  }
+
+  if ('defaultPageSize' in input && !isIntegerInRange(input.defaultPageSize, 1, 200)) {
+    errors.push('defaultPageSize must be an integer between 1 and 200');
+  }
+
+  if ('rolePermissions' in input) {
+    errors.push(...validatePermissionOverrides(input.rolePermissions));
+  }
+
+  if ('requireTwoFactor' in input && typeof input.requireTwoFactor !== 'boolean') {
+    errors.push('requireTwoFactor must be true or false');
+  }
+
+  return errors;
+}
+
+/**
+ * Merges stored settings over the defaults. Stored values that no longer validate
+ * (e.g. written by an older version) are ignored in favour of the default.
+ * @param stored The raw Organization.settings JSON.
+ */
+export function resolveOrganizationSettings(stored: unknown): OrganizationSettings {
+  const settings: OrganizationSettings = { ...DEFAULT_ORGANIZATION_SETTINGS };
+  if (!isPlainObject(stored)) {
+    return settings;
+  }
+
+  for (const key of Object.keys(DEFAULT_ORGANIZATION_SETTINGS) as (keyof OrganizationSettings)[]) {
+    if (key in stored && validateOrganizationSettings({ [key]: stored[key] }).length === 0) {
+      (settings as any)[key] = stored[key];
+    }
+  }
+  return settings;
+}
+
+/**
+ * Loads an organization's effective settings.
+ * @param organizationId The organization to load.
+ * @returns The merged settings, or null if the organization does not exist.
+ */
+export async function getOrganizationSettings(organizationId: string): Promise<OrganizationSettings | null> {
+  const organization = await SchemaManagementService.getInstance().sharedDb.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true }
+  });
+  return organization ? resolveOrganizationSettings(organization.settings) : null;
+}
+
+/**
+ * Validates and stores a partial settings update, keeping settings that are not mentioned.
+ * Keys set to null are reset to their default.
+ * @returns The validation errors, or the new effective settings.
+ */
+export async function updateOrganizationSettings(
+  organizationId: string,
+  changes: Record<string, unknown>
+): Promise<{ errors: string[]; settings?: OrganizationSettings }> {
+  const resets = Object.keys(changes).filter(key => changes[key] === null);
+  const updates = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== null));
+
+  const errors = validateOrganizationSettings(updates);
+  const unknownResets = resets.filter(key => !(key in DEFAULT_ORGANIZATION_SETTINGS));
+  unknownResets.forEach(key => errors.push(`Unknown setting: ${key}`));
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const sharedDb = SchemaManagementService.getInstance().sharedDb;
+  const organization = await sharedDb.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true }
+  });
+  if (!organization) {
+    return { errors: ['Organization not found'] };
+  }
+
+  const stored: Record<string, unknown> = isPlainObject(organization.settings) ? { ...organization.settings } : {};
+  resets.forEach(key => delete stored[key]);
+  Object.assign(stored, updates);
+
+  await sharedDb.organization.update({
+    where: { id: organizationId },
+    data: { settings: stored as any }
+  });
+  invalidateOrganizationContexts(organizationId);
+
+  return { errors: [], settings: resolveOrganizationSettings(stored) };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a DCR for a task on `taskDate` can still be submitted, counting calendar days
+ * in the organization's time zone. Always true when the organization has no deadline.
+ * @param taskDate The task date (a date-only value).
+ * @param settings The organization's effective settings.
+ */
+export function isDcrSubmissionOpen(taskDate: Date, settings: OrganizationSettings, now: Date = new Date()): boolean {
+  if (settings.dcrSubmissionDeadlineDays === null) {
+    return true;
+  }
+
+  // en-CA formats as YYYY-MM-DD
+  const today = new Intl.DateTimeFormat('en-CA', {
+    timeZone: settings.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(now);
+
+  const todayUtc = Date.parse(`${today}T00:00:00.000Z`);
+  const taskDayUtc = Date.UTC(taskDate.getUTCFullYear(), taskDate.getUTCMonth(), taskDate.getUTCDate());
+  return (todayUtc - taskDayUtc) / DAY_MS <= settings.dcrSubmissionDeadlineDays;
+}
@@ -0,0 +1,132 @@
+import { EmployeeRole } from '../../generated/prisma-shared/index.js';
+import type { OrganizationSettings } from './OrganizationSettingsService.js';
+
+/**
+ * Every permission a tenant route can require, as 'resource:action'.
+ * 'manage' covers creating, updating and deleting master data.
+ */
+export const PERMISSIONS = [
+  'doctors:read',
+  'doctors:manage',
+  'chemists:read',
+  'chemists:manage',
+  'hospitals:read',
+  'hospitals:manage',
+  'territories:read',
+  'territories:manage',
+  'teams:read',
+  'teams:manage',
+  'drugs:read',
+  'drugs:manage',
+  'notes:write',
+  'interactions:write',
+  'orders:read',
+  'orders:write',
+  'rcpa:read',
+  'rcpa:write',
+  'dcr:read',
+  'dcr:write',
+  'samples:read',
+  'samples:distribute',
+  'tasks:read',
+  'tasks:write',
+  'organization:settings',
+  'sessions:revoke',
+  'users:manage',
+  'integrations:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type PermissionOverrides = Partial<Record<EmployeeRole, { grant?: Permission[]; revoke?: Permission[] }>>;
+
+const ROLES = Object.values(EmployeeRole);
+
+// Field work: read everything, record visits, orders and reports
+const REPRESENTATIVE_PERMISSIONS: Permission[] = [
+  'doctors:read',
+  'chemists:read',
+  'hospitals:read',
+  'territories:read',
+  'teams:read',
+  'drugs:read',
+  'notes:write',
+  'interactions:write',
+  'orders:read',
+  'orders:write',
+  'rcpa:read',
+  'rcpa:write',
+  'dcr:read',
+  'dcr:write',
+  'samples:read',
+  'samples:distribute',
+  'tasks:read',
+  'tasks:write'
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<EmployeeRole, Permission[]> = {
+  MEDICAL_REPRESENTATIVE: REPRESENTATIVE_PERMISSIONS,
+  SALES_MANAGER: [...REPRESENTATIVE_PERMISSIONS, 'doctors:manage', 'chemists:manage', 'hospitals:manage'],
+  SYSTEM_ADMINISTRATOR: [...PERMISSIONS]
+};
+
+// Revoking these from administrators would leave nobody able to undo the change
+const LOCKED_ADMIN_PERMISSIONS: Permission[] = ['organization:settings', 'users:manage'];
+
+const isPermission = (value: unknown): value is Permission => PERMISSIONS.includes(value as Permission);
+
+/**
+ * Validates the `rolePermissions` organization setting.
+ * @returns The list of validation errors; empty when the input is valid.
+ */
+export function validatePermissionOverrides(input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['rolePermissions must be an object keyed by role'];
+  }
+
+  const errors: string[] = [];
+  for (const [role, override] of Object.entries(input)) {
+    if (!ROLES.includes(role as EmployeeRole)) {
+      errors.push(`rolePermissions.${role} is not a role (${ROLES.join(', ')})`);
+      continue;
+    }
+    if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+      errors.push(`rolePermissions.${role} must be an object with grant and/or revoke lists`);
+      continue;
+    }
+
+    for (const [key, list] of Object.entries(override)) {
+      if (key !== 'grant' && key !== 'revoke') {
+        errors.push(`rolePermissions.${role}.${key} is not supported; use grant or revoke`);
+      } else if (!Array.isArray(list) || list.some(p => !isPermission(p))) {
+        errors.push(`rolePermissions.${role}.${key} must be a list of: ${PERMISSIONS.join(', ')}`);
+      } else if (role === 'SYSTEM_ADMINISTRATOR' && key === 'revoke' && list.some(p => LOCKED_ADMIN_PERMISSIONS.includes(p))) {
+        errors.push(`rolePermissions.SYSTEM_ADMINISTRATOR cannot revoke ${LOCKED_ADMIN_PERMISSIONS.join(', ')}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * The permissions of every role after applying an organization's overrides.
+ */
+export function resolveRolePermissions(settings?: Pick<OrganizationSettings, 'rolePermissions'>): Record<EmployeeRole, Permission[]> {
+  const overrides = settings?.rolePermissions || {};
+
+  return Object.fromEntries(ROLES.map(role => {
+    const granted = new Set<Permission>([...DEFAULT_ROLE_PERMISSIONS[role], ...(overrides[role]?.grant || [])]);
+    (overrides[role]?.revoke || []).forEach(permission => granted.delete(permission));
+    return [role, PERMISSIONS.filter(permission => granted.has(permission))];
+  })) as Record<EmployeeRole, Permission[]>;
+}
+
+/**
+ * Whether a role holds a permission in an organization.
+ */
+export function hasPermission(role: string, permission: Permission, settings?: Pick<OrganizationSettings, 'rolePermissions'>): boolean {
+  if (!ROLES.includes(role as EmployeeRole)) {
+    return false;
+  }
+  return resolveRolePermissions(settings)[role as EmployeeRole].includes(permission);
+}
@@ -0,0 +1,320 @@
+import SchemaManagementService, { MigrationVerificationReport, TenantMigrationSummary } from './SchemaManagementService.js';
+import { EmployeeRole, OrganizationStatus, Prisma } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+export interface TenantTableStats {
+  table: string;
+  rows: number;
+  bytes: number;
+}
+
+export interface TenantSchemaStats {
+  schemaName: string;
+  tableCount: number;
+  totalRows: number;
+  totalBytes: number;
+  rowCountsExact: boolean; // false when rows come from Postgres statistics (n_live_tup)
+  tables?: TenantTableStats[];
+}
+
+export interface PlatformOrganizationOverview {
+  id: string;
+  name: string;
+  schemaName: string | null;
+  isActive: boolean;
+  status: OrganizationStatus;
+  contactEmail: string;
+  createdAt: Date;
+  users: { total: number; active: number };
+  lastLoginAt: Date | null;
+  storage: TenantSchemaStats | null;
+}
+
+export interface PlatformUserSearchOptions {
+  query?: string;
+  organizationId?: string;
+  role?: EmployeeRole;
+  isActive?: boolean;
+  includeEmployees?: boolean;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Reads table sizes and estimated row counts for several schemas in one catalog query.
+ */
+async function loadSchemaStats(schemaNames: string[]): Promise<Map<string, TenantSchemaStats>> {
+  const stats = new Map<string, TenantSchemaStats>();
+  if (schemaNames.length === 0) {
+    return stats;
+  }
+
+  const rows: { schema_name: string; table_name: string; row_estimate: bigint; total_bytes: bigint }[] =
+    await schemaService.sharedDb.$queryRaw`
+      SELECT n.nspname AS schema_name,
+             c.relname AS table_name,
+             COALESCE(s.n_live_tup, 0)::bigint AS row_estimate,
+             pg_total_relation_size(c.oid)::bigint AS total_bytes
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+      WHERE c.relkind IN ('r', 'p')
+        AND n.nspname = ANY(${schemaNames}::text[])
+        AND c.relname <> '_prisma_migrations'
+      ORDER BY n.nspname, c.relname
+    `;
+
+  for (const row of rows) {
+    let schema = stats.get(row.schema_name);
+    if (!schema) {
+      schema = { schemaName: row.schema_name, tableCount: 0, totalRows: 0, totalBytes: 0, rowCountsExact: false, tables: [] };
+      stats.set(row.schema_name, schema);
+    }
+    const table = { table: row.table_name, rows: Number(row.row_estimate), bytes: Number(row.total_bytes) };
+    schema.tables!.push(table);
+    schema.tableCount++;
+    schema.totalRows += table.rows;
+    schema.totalBytes += table.bytes;
+  }
+
+  return stats;
+}
+
+/**
+ * Replaces the estimated row counts of a schema with exact COUNT(*) results.
+ * This scans every table, so it is only offered for a single organization.
+ */
+async function countRowsExactly(stats: TenantSchemaStats): Promise<TenantSchemaStats> {
+  const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+  let totalRows = 0;
+
+  for (const table of stats.tables || []) {
+    const [{ count }]: { count: bigint }[] = await schemaService.sharedDb.$queryRawUnsafe(
+      `SELECT COUNT(*)::bigint AS count FROM ${quote(stats.schemaName)}.${quote(table.table)}`
+    );
+    table.rows = Number(count);
+    totalRows += table.rows;
+  }
+
+  return { ...stats, totalRows, rowCountsExact: true };
+}
+
+/**
+ * Lists every organization with its schema, user counts, last login and storage usage.
+ * @param includeTables When true, per-table row counts and sizes are included.
+ */
+export async function listOrganizationOverviews(includeTables: boolean = false): Promise<PlatformOrganizationOverview[]> {
+  const organizations = await schemaService.sharedDb.organization.findMany({
+    select: {
+      id: true,
+      name: true,
+      schemaName: true,
+      isActive: true,
+      status: true,
+      contactEmail: true,
+      createdAt: true
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const userGroups = await schemaService.sharedDb.user.groupBy({
+    by: ['organizationId', 'isActive'],
+    _count: { _all: true },
+    _max: { lastLoginAt: true }
+  });
+
+  const schemaNames = organizations.map(org => org.schemaName).filter((name): name is string => !!name);
+  const schemaStats = await loadSchemaStats(schemaNames);
+
+  return organizations.map(org => {
+    const groups = userGroups.filter(group => group.organizationId === org.id);
+    const lastLogins = groups
+      .map(group => group._max.lastLoginAt)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => b.getTime() - a.getTime());
+
+    const stats = org.schemaName ? schemaStats.get(org.schemaName) : undefined;
+
+    return {
+      ...org,
+      users: {
+        total: groups.reduce((sum, group) => sum + group._count._all, 0),
+        active: groups.filter(group => group.isActive).reduce((sum, group) => sum + group._count._all, 0)
+      },
+      lastLoginAt: lastLogins[0] || null,
+      storage: stats ? { ...stats, tables: includeTables ? stats.tables : undefined } : null
+    };
+  });
+}
+
+/**
+ * Loads the overview of one organization, optionally with exact row counts.
+ * @returns The overview, or null if the organization does not exist.
+ */
+export async function getOrganizationOverview(organizationId: string, exactCounts: boolean = false): Promise<PlatformOrganizationOverview | null> {
+  const organization = await schemaService.sharedDb.organization.findUnique({
+    where: { id: organizationId },
+    select: {
+      id: true,
+      name: true,
+      schemaName: true,
+      isActive: true,
+      status: true,
+      contactEmail: true,
+      createdAt: true
+    }
+  });
+  if (!organization) {
+    return null;
+  }
+
+  const [total, active, lastLogin] = await Promise.all([
+    schemaService.sharedDb.user.count({ where: { organizationId } }),
+    schemaService.sharedDb.user.count({ where: { organizationId, isActive: true } }),
+    schemaService.sharedDb.user.aggregate({ where: { organizationId }, _max: { lastLoginAt: true } })
+  ]);
+
+  let storage: TenantSchemaStats | null = null;
+  if (organization.schemaName) {
+    storage = (await loadSchemaStats([organization.schemaName])).get(organization.schemaName) || null;
+    if (storage && exactCounts) {
+      storage = await countRowsExactly(storage);
+    }
+  }
+
+  return {
+    ...organization,
+    users: { total, active },
+    lastLoginAt: lastLogin._max.lastLoginAt,
+    storage
+  };
+}
+
+/**
+ * Searches users of every organization in the shared database.
+ * With includeEmployees, each user's tenant employee record is attached (null when missing),
+ * which also surfaces users that exist in only one of the two databases.
+ */
+export async function searchPlatformUsers(options: PlatformUserSearchOptions) {
+  const where: Prisma.UserWhereInput = {
+    ...(options.query && { email: { contains: options.query, mode: 'insensitive' } }),
+    ...(options.organizationId && { organizationId: options.organizationId }),
+    ...(options.role && { role: options.role }),
+    ...(options.isActive !== undefined && { isActive: options.isActive })
+  };
+
+  const [total, users] = await Promise.all([
+    schemaService.sharedDb.user.count({ where }),
+    schemaService.sharedDb.user.findMany({
+      where,
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        platformRole: true,
+        isActive: true,
+        createdAt: true,
+        lastLoginAt: true,
+        organization: {
+          select: { id: true, name: true, schemaName: true, status: true }
+        }
+      },
+      orderBy: { email: 'asc' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit
+    })
+  ]);
+
+  let results: any[] = users;
+
+  if (options.includeEmployees) {
+    // One query per tenant schema present on this page
+    const emailsBySchema = new Map<string, string[]>();
+    for (const user of users) {
+      const schemaName = user.organization.schemaName;
+      if (!schemaName || user.organization.status === 'PURGED') continue;
+      emailsBySchema.set(schemaName, [...(emailsBySchema.get(schemaName) || []), user.email]);
+    }
+
+    const employees = new Map<string, any>();
+    const unreachable = new Set<string>();
+    for (const [schemaName, emails] of emailsBySchema) {
+      try {
+        const tenantDb = await schemaService.getTenantClient(schemaName);
+        const rows = await tenantDb.employee.findMany({
+          where: { email: { in: emails } },
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            employeeCode: true,
+            role: true,
+            isActive: true
+          }
+        });
+        rows.forEach(row => employees.set(`${schemaName}:${row.email}`, row));
+      } catch (error) {
+        console.error(`❌ Failed to load employees from schema ${schemaName}:`, error);
+        unreachable.add(schemaName);
+      }
+    }
+
+    results = users.map(user => {
+      const schemaName = user.organization.schemaName;
+      return {
+        ...user,
+        employee: schemaName && !unreachable.has(schemaName)
+          ? employees.get(`${schemaName}:${user.email}`) || null
+          : undefined
+      };
+    });
+  }
+
+  return {
+    users: results,
+    pagination: {
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages: Math.ceil(total / options.limit)
+    }
+  };
+}
+
+/**
+ * Re-runs the structural check and the migration checksum verification for a schema.
+ */
+export async function reverifyTenantSchema(schemaName: string): Promise<{
+  schemaName: string;
+  structureValid: boolean;
+  migrations: MigrationVerificationReport;
+  pending: string[];
+}> {
+  const structureValid = await schemaService.verifySchemaCreation(schemaName);
+  const status = await schemaService.getMigrationStatus(schemaName);
+
+  return {
+    schemaName,
+    structureValid,
+    migrations: status.verification,
+    pending: status.pending
+  };
+}
+
+/**
+ * Applies (or previews) pending migrations for one schema and verifies its structure afterwards.
+ */
+export async function remigrateTenantSchema(schemaName: string, dryRun: boolean): Promise<{
+  summary: TenantMigrationSummary;
+  structureValid: boolean;
+}> {
+  const summary = await schemaService.runTenantMigrations({
+    schemaNames: [schemaName],
+    mode: dryRun ? 'dry-run' : 'apply'
+  });
+  const structureValid = await schemaService.verifySchemaCreation(schemaName);
+
+  return { summary, structureValid };
+}
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import SchemaManagementService, { compareMigrationChecksums } from './SchemaManagementService.js';
+
+const baseline = { name: 'schema', checksum: SchemaManagementService.computeChecksum('CREATE TABLE a ();\n') };
+const transfers = { name: 'V002_territory_transfers', checksum: SchemaManagementService.computeChecksum('CREATE TABLE b ();\n') };
+
+describe('computeChecksum', () => {
+    it('gives the same checksum for CRLF and LF line endings', () => {
+        assert.equal(
+            SchemaManagementService.computeChecksum('CREATE TABLE a ();\r\nCREATE TABLE b ();\r\n'),
+            SchemaManagementService.computeChecksum('CREATE TABLE a ();\nCREATE TABLE b ();\n')
+        );
+    });
+
+    it('gives a different checksum when the content changes', () => {
+        assert.notEqual(
+            SchemaManagementService.computeChecksum('CREATE TABLE a ();\n'),
+            SchemaManagementService.computeChecksum('CREATE TABLE a (id INT);\n')
+        );
+    });
+
+    it('keeps the committed baseline at the checksum tenants recorded', () => {
+        const sql = readFileSync(path.join(process.cwd(), 'tenant-migrations', 'schema.sql'), 'utf-8');
+        assert.equal(
+            SchemaManagementService.computeChecksum(sql),
+            '40fccf68ab4a31a5e4b9e092666bc74a7c1ac4c996a8bb8391e33562b3a52fd8'
+        );
+    });
+});
+
+describe('compareMigrationChecksums', () => {
+    it('is valid when every applied migration matches its file', () => {
+        const report = compareMigrationChecksums('org_a', [
+            { migration_name: baseline.name, checksum: baseline.checksum },
+            { migration_name: transfers.name, checksum: transfers.checksum }
+        ], [baseline, transfers]);
+
+        assert.deepEqual(report, {
+            schemaName: 'org_a',
+            isValid: true,
+            drifted: [],
+            missingFiles: [],
+            unverified: []
+        });
+    });
+
+    it('reports a migration whose file changed after it was applied', () => {
+        const report = compareMigrationChecksums('org_a', [
+            { migration_name: transfers.name, checksum: 'abc123' }
+        ], [baseline, transfers]);
+
+        assert.equal(report.isValid, false);
+        assert.deepEqual(report.drifted, [
+            { name: transfers.name, appliedChecksum: 'abc123', currentChecksum: transfers.checksum }
+        ]);
+    });
+
+    it('reports an applied migration with no file', () => {
+        const report = compareMigrationChecksums('org_a', [
+            { migration_name: 'V001_removed', checksum: 'abc123' }
+        ], [baseline, transfers]);
+
+        assert.equal(report.isValid, false);
+        assert.deepEqual(report.missingFiles, ['V001_removed']);
+    });
+
+    it('leaves rows with the legacy placeholder unverified without failing', () => {
+        const report = compareMigrationChecksums('org_a', [
+            { migration_name: baseline.name, checksum: 'placeholder_checksum' }
+        ], [baseline, transfers]);
+
+        assert.equal(report.isValid, true);
+        assert.deepEqual(report.unverified, [baseline.name]);
+        assert.deepEqual(report.drifted, []);
+    });
+});
@@ -2,13 +2,159 @@ import { PrismaClient as SharedPrismaClient } from '../../generated/prisma-share
 import { PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
 import fs from 'fs/promises';
 import path from 'path';
+import crypto from 'crypto';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import TenantClientPool, { getTenantPoolOptionsFromEnv } from './TenantClientPool.js';
 
 // Define an interface for a loaded migration
 interface TenantMigration {
   name: string; // e.g., 'V001_initial_schema'
   filePath: string;
   sqlContent: string;
-  checksum: string; // Placeholder for now, but important for integrity
+  checksum: string; // SHA-256 of the file content, recorded in each schema's _prisma_migrations
+  rollbackFilePath?: string; // Paired '<name>.down.sql' script, if one exists
+  rollbackSqlContent?: string;
+}
+
+// Suffix of the paired rollback script for a migration, e.g. 'V002_add_visits.down.sql'
+const ROLLBACK_FILE_SUFFIX = '.down.sql';
+
+// The committed baseline migration (generated once from prisma-tenant/baseline.prisma); it runs before every V00x_ file.
+// It is not regenerated at install, so a prisma upgrade cannot change its bytes and its checksum
+const BASELINE_MIGRATION_FILE = 'schema.sql';
+
+// Checksum written by older versions of this service, before real hashes were recorded
+const LEGACY_PLACEHOLDER_CHECKSUM = 'placeholder_checksum';
+
+// Result of comparing a schema's applied migrations against the files on disk
+export interface MigrationVerificationReport {
+  schemaName: string;
+  isValid: boolean;
+  drifted: { name: string; appliedChecksum: string; currentChecksum: string }[];
+  missingFiles: string[]; // applied to the schema but no longer present in tenant-migrations/
+  unverified: string[]; // applied before checksums were recorded
+}
+
+export interface SchemaMigrationStatus {
+  schemaName: string;
+  applied: string[];
+  pending: string[];
+  verification: MigrationVerificationReport;
+  pendingSql?: { name: string; statements: string[] }[];
+}
+
+export type TenantMigrationMode = 'status' | 'dry-run' | 'apply';
+
+export interface TenantMigrationRunOptions {
+  schemaNames?: string[];
+  mode?: TenantMigrationMode;
+  concurrency?: number;
+}
+
+export interface TenantMigrationResult {
+  organizationId: string;
+  organizationName: string;
+  schemaName: string | null;
+  status: 'up_to_date' | 'pending' | 'migrated' | 'drifted' | 'failed' | 'skipped';
+  applied: string[];
+  pending: string[];
+  newlyApplied: string[];
+  verification?: MigrationVerificationReport;
+  pendingSql?: { name: string; statements: string[] }[];
+  error?: string;
+}
+
+export interface TenantMigrationSummary {
+  mode: TenantMigrationMode;
+  startedAt: string;
+  finishedAt: string;
+  availableMigrations: string[];
+  totals: Record<'organizations' | 'upToDate' | 'pending' | 'migrated' | 'drifted' | 'failed' | 'skipped', number>;
+  tenants: TenantMigrationResult[];
+}
+
+export interface SchemaRollbackResult {
+  schemaName: string;
+  targetMigration: string;
+  rolledBack: string[];
+  plan: { name: string; statements: string[] }[];
+}
+
+export interface TenantRollbackOptions {
+  schemaNames: string[];
+  targetMigration: string;
+  dryRun?: boolean;
+  concurrency?: number;
+}
+
+export interface TenantRollbackResult extends SchemaRollbackResult {
+  status: 'rolled_back' | 'planned' | 'unchanged' | 'drifted' | 'failed';
+  error?: string;
+}
+
+export interface TenantRollbackSummary {
+  targetMigration: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  totals: Record<'schemas' | 'rolledBack' | 'planned' | 'unchanged' | 'drifted' | 'failed', number>;
+  tenants: TenantRollbackResult[];
+}
+
+/**
+ * Thrown when a schema's applied migrations no longer match the files on disk.
+ * Migrations are refused for that schema until the drift is resolved.
+ */
+export class MigrationDriftError extends Error {
+  report: MigrationVerificationReport;
+
+  constructor(report: MigrationVerificationReport) {
+    const details = [
+      ...report.drifted.map(d => `${d.name} (checksum changed)`),
+      ...report.missingFiles.map(name => `${name} (file missing)`)
+    ];
+    super(`Migration drift detected in schema ${report.schemaName}: ${details.join(', ')}`);
+    this.name = 'MigrationDriftError';
+    this.report = report;
+  }
+}
+
+/**
+ * Compares the rows of a schema's _prisma_migrations (applied, not rolled back) against the loaded
+ * migration files: changed checksums are drift, rows without a file are missing, and rows still
+ * holding the legacy placeholder are unverified.
+ */
+export function compareMigrationChecksums(
+  schemaName: string,
+  appliedRows: { migration_name: string; checksum: string }[],
+  migrations: Pick<TenantMigration, 'name' | 'checksum'>[]
+): MigrationVerificationReport {
+  const migrationsByName = new Map(migrations.map(m => [m.name, m]));
+  const report: MigrationVerificationReport = {
+    schemaName,
+    isValid: true,
+    drifted: [],
+    missingFiles: [],
+    unverified: []
+  };
+
+  for (const row of appliedRows) {
+    const migration = migrationsByName.get(row.migration_name);
+    if (!migration) {
+      report.missingFiles.push(row.migration_name);
+    } else if (row.checksum === LEGACY_PLACEHOLDER_CHECKSUM) {
+      report.unverified.push(row.migration_name);
+    } else if (row.checksum !== migration.checksum) {
+      report.drifted.push({
+        name: row.migration_name,
+        appliedChecksum: row.checksum,
+        currentChecksum: migration.checksum
+      });
+    }
+  }
+
+  report.isValid = report.drifted.length === 0 && report.missingFiles.length === 0;
+  return report;
 }
 
 class SchemaManagementService {
@@ -17,14 +163,14 @@ class SchemaManagementService {
 
   // Instance properties
   sharedDb: SharedPrismaClient;
-  tenantConnections: Map<string, TenantPrismaClient>;
+  tenantPool: TenantClientPool;
   loadedMigrations: TenantMigration[] = [];
   initialized: boolean = false;
 
   // Private constructor prevents direct instantiation
   private constructor() {
     this.sharedDb = new SharedPrismaClient();
-    this.tenantConnections = new Map();
+    this.tenantPool = new TenantClientPool(getTenantPoolOptionsFromEnv());
     console.log("constructor called");
     console.log('🏗️ SchemaManagementService singleton instance created');
   }
@@ -66,25 +212,41 @@ class SchemaManagementService {
     try {
       const migrationFiles = await fs.readdir(migrationsDir);
 
-      // Filter and sort SQL migration files (e.g., V001_..., V002_...)
+      // Filter and sort SQL migration files: the baseline first, then V002_..., V003_...;
+      // rollback scripts are paired below
       const sortedMigrationFiles = migrationFiles
-        .filter(file => file.endsWith('.sql'))
-        .sort();
+        .filter(file => file.endsWith('.sql') && !file.endsWith(ROLLBACK_FILE_SUFFIX))
+        .sort((a, b) => Number(b === BASELINE_MIGRATION_FILE) - Number(a === BASELINE_MIGRATION_FILE) || a.localeCompare(b));
+      const rollbackFiles = new Set(migrationFiles.filter(file => file.endsWith(ROLLBACK_FILE_SUFFIX)));
 
       this.loadedMigrations = await Promise.all(sortedMigrationFiles.map(async (file) => {
         const filePath = path.join(migrationsDir, file);
         const sqlContent = await fs.readFile(filePath, 'utf8');
-        // In a real-world scenario, you'd generate a proper checksum of the content here
-        const checksum = 'placeholder_checksum'; // Replace with actual checksum generation
+        const checksum = SchemaManagementService.computeChecksum(sqlContent);
+        const name = file.replace('.sql', '');
+
+        const rollbackFile = `${name}${ROLLBACK_FILE_SUFFIX}`;
+        const rollbackFilePath = rollbackFiles.has(rollbackFile) ? path.join(migrationsDir, rollbackFile) : undefined;
+        const rollbackSqlContent = rollbackFilePath ? await fs.readFile(rollbackFilePath, 'utf8') : undefined;
+
         return {
-          name: file.replace('.sql', ''),
+          name,
           filePath,
           sqlContent,
-          checksum
+          checksum,
+          rollbackFilePath,
+          rollbackSqlContent
         };
       }));
 
-      console.log(`✅ Loaded ${this.loadedMigrations.length} tenant migration files.`);
+      const orphanedRollbacks = [...rollbackFiles].filter(file =>
+        !this.loadedMigrations.some(m => `${m.name}${ROLLBACK_FILE_SUFFIX}` === file)
+      );
+      if (orphanedRollbacks.length > 0) {
+        console.warn(`⚠️ Rollback scripts without a matching migration: ${orphanedRollbacks.join(', ')}`);
+      }
+
+      console.log(`✅ Loaded ${this.loadedMigrations.length} tenant migration files (${rollbackFiles.size - orphanedRollbacks.length} with rollback scripts).`);
       this.initialized = true;
 
     } catch (error) {
@@ -93,6 +255,17 @@ class SchemaManagementService {
     }
   }
 
+  /**
+   * Computes the checksum of a migration file's content.
+   * Line endings are normalized so a checkout with CRLF endings does not register as drift.
+   */
+  public static computeChecksum(sqlContent: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(sqlContent.replace(/\r\n/g, '\n'))
+      .digest('hex');
+  }
+
   /**
    * Ensures the service is initialized before executing any operations
    * @throws Error if not initialized
@@ -151,6 +324,7 @@ class SchemaManagementService {
       // Cleanup on error
       if (schemaName) {
         try {
+          await this.tenantPool.remove(schemaName);
           await this.sharedDb.$executeRawUnsafe(
             `DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`
           );
@@ -175,28 +349,23 @@ class SchemaManagementService {
       return;
     }
 
-    const tenantDb = await this.getTenantClient(schemaName);
+    const tenantDb = this.tenantPool.acquire(schemaName);
 
     try {
       console.log(`🔄 Running required migrations for schema ${schemaName}...`);
 
-      // Ensure the migrations table exists
-      await tenantDb.$executeRawUnsafe(`
-        CREATE TABLE IF NOT EXISTS "${schemaName}"."_prisma_migrations" (
-          id                      VARCHAR(36) PRIMARY KEY,
-          checksum                VARCHAR(64) NOT NULL,
-          finished_at             TIMESTAMPTZ,
-          migration_name          VARCHAR(255) NOT NULL,
-          logs                    TEXT,
-          rolled_back_at          TIMESTAMPTZ,
-          started_at              TIMESTAMPTZ DEFAULT now() NOT NULL,
-          applied_steps_count     INTEGER DEFAULT 0 NOT NULL
-        );
-      `);
+      await this.ensureMigrationsTable(tenantDb, schemaName);
+
+      // Refuse to migrate a schema whose history no longer matches the files on disk
+      const verification = await this.compareAppliedMigrations(tenantDb, schemaName);
+      if (!verification.isValid) {
+        throw new MigrationDriftError(verification);
+      }
+      await this.backfillLegacyChecksums(tenantDb, schemaName, verification.unverified);
 
       // Get list of applied migrations for this schema
       const appliedMigrationsResult: { migration_name: string }[] = await tenantDb.$queryRawUnsafe(`
-        SELECT migration_name FROM "${schemaName}"."_prisma_migrations" ORDER BY started_at ASC;
+        SELECT migration_name FROM "${schemaName}"."_prisma_migrations" WHERE rolled_back_at IS NULL ORDER BY started_at ASC;
       `);
       const appliedMigrations = new Set(appliedMigrationsResult.map(row => row.migration_name));
 
@@ -209,25 +378,7 @@ class SchemaManagementService {
         }
 
         console.log(`🚀 Applying migration: ${migration.name} for schema ${schemaName}`);
-        let tenantSql = migration.sqlContent
-          .replace(/public\./g, `"${schemaName}".`)
-          .replace(/CREATE TABLE/g, 'CREATE TABLE IF NOT EXISTS')
-          .replace(/CREATE INDEX/g, 'CREATE INDEX IF NOT EXISTS')
-          .replace(/CREATE UNIQUE INDEX/g, 'CREATE UNIQUE INDEX IF NOT EXISTS');
-
-        // Split SQL statements carefully to handle DO blocks
-        const statements = [];
-        let currentStatement = '';
-        const lines = tenantSql.split('\n');
-
-        for (const line of lines) {
-          currentStatement += line + '\n';
-          if (line.trim().endsWith(';') && !currentStatement.includes('DO $') || (currentStatement.includes('DO $') && line.trim().endsWith('END $;'))) {
-            statements.push(currentStatement.trim());
-            currentStatement = '';
-          }
-        }
-        const filteredStatements = statements.filter(stmt => stmt.trim().length > 0);
+        const filteredStatements = this.prepareTenantStatements(migration.sqlContent, schemaName);
 
         let migrationSuccessCount = 0;
         for (const statement of filteredStatements) {
@@ -250,11 +401,12 @@ class SchemaManagementService {
 
         // Record this migration as applied
         const migrationId = `${migration.name}_${Date.now()}`;
-        await tenantDb.$executeRawUnsafe(`
-          INSERT INTO "${schemaName}"."_prisma_migrations"
+        await tenantDb.$executeRawUnsafe(
+          `INSERT INTO "${schemaName}"."_prisma_migrations"
           (id, checksum, finished_at, migration_name, applied_steps_count)
-          VALUES ('${migrationId}', '${migration.checksum}', NOW(), '${migration.name}', ${migrationSuccessCount})
-        `);
+          VALUES ($1, $2, NOW(), $3, $4)`,
+          migrationId, migration.checksum, migration.name, migrationSuccessCount
+        );
 
         totalStatementsApplied += migrationSuccessCount;
         console.log(`✅ Migration ${migration.name} completed for schema ${schemaName}`);
@@ -263,94 +415,435 @@ class SchemaManagementService {
       console.log(`✅ All required migrations completed for schema ${schemaName}. Total statements applied: ${totalStatementsApplied}`);
 
     } finally {
-      await tenantDb.$disconnect();
-      this.tenantConnections.delete(schemaName);
+      this.tenantPool.release(schemaName);
+    }
+  }
+
+  /**
+   * Reports applied and pending migrations for a single schema without changing it.
+   * @param schemaName The tenant schema to inspect.
+   * @param includeSql When true, the rewritten SQL of each pending migration is included.
+   */
+  public async getMigrationStatus(schemaName: string, includeSql: boolean = false): Promise<SchemaMigrationStatus> {
+    await this.ensureInitialized();
+
+    const tenantDb = this.tenantPool.acquire(schemaName);
+
+    try {
+      await this.ensureMigrationsTable(tenantDb, schemaName);
+      const verification = await this.compareAppliedMigrations(tenantDb, schemaName);
+
+      const appliedRows: { migration_name: string }[] = await tenantDb.$queryRawUnsafe(`
+        SELECT migration_name FROM "${schemaName}"."_prisma_migrations" WHERE rolled_back_at IS NULL ORDER BY started_at ASC;
+      `);
+      const applied = appliedRows.map(row => row.migration_name);
+      const appliedSet = new Set(applied);
+      const pendingMigrations = this.loadedMigrations.filter(m => !appliedSet.has(m.name));
+
+      return {
+        schemaName,
+        applied,
+        pending: pendingMigrations.map(m => m.name),
+        verification,
+        ...(includeSql && {
+          pendingSql: pendingMigrations.map(m => ({
+            name: m.name,
+            statements: this.prepareTenantStatements(m.sqlContent, schemaName)
+          }))
+        })
+      };
+    } finally {
+      this.tenantPool.release(schemaName);
     }
   }
 
+  /**
+   * Inspects or migrates tenant schemas and returns a machine-readable summary.
+   * Schemas are processed with bounded concurrency; one failing tenant never stops the others.
+   * @param options.schemaNames Restrict the run to these schemas (defaults to every organization).
+   * @param options.mode 'status' only reports, 'dry-run' also returns the rewritten SQL, 'apply' migrates.
+   * @param options.concurrency Maximum number of schemas processed at the same time.
+   */
+  public async runTenantMigrations(options: TenantMigrationRunOptions = {}): Promise<TenantMigrationSummary> {
+    await this.ensureInitialized();
+
+    const mode = options.mode || 'status';
+    const concurrency = Math.max(1, options.concurrency || 1);
+    const startedAt = new Date();
+
+    const organizations = await this.sharedDb.organization.findMany({
+      where: options.schemaNames ? { schemaName: { in: options.schemaNames } } : undefined,
+      select: { id: true, name: true, schemaName: true },
+      orderBy: { name: 'asc' }
+    });
+
+    console.log(`Starting tenant migration run (${mode}) for ${organizations.length} organizations with concurrency ${concurrency}...`);
+
+    const tenants = await mapWithConcurrency(organizations, concurrency, async (org): Promise<TenantMigrationResult> => {
+      const base = { organizationId: org.id, organizationName: org.name, schemaName: org.schemaName };
+
+      if (!org.schemaName) {
+        console.warn(`Organization ${org.name} (${org.id}) does not have a schemaName. Skipping.`);
+        return { ...base, status: 'skipped', applied: [], pending: [], newlyApplied: [] };
+      }
+
+      try {
+        const before = await this.getMigrationStatus(org.schemaName, mode === 'dry-run');
+        const result: TenantMigrationResult = {
+          ...base,
+          status: 'up_to_date',
+          applied: before.applied,
+          pending: before.pending,
+          newlyApplied: [],
+          verification: before.verification,
+          pendingSql: before.pendingSql
+        };
+
+        if (!before.verification.isValid) {
+          return { ...result, status: 'drifted' };
+        }
+        if (before.pending.length === 0) {
+          return result;
+        }
+        if (mode !== 'apply') {
+          return { ...result, status: 'pending' };
+        }
+
+        await this.applyRequiredMigrationsToSchema(org.schemaName);
+        const after = await this.getMigrationStatus(org.schemaName);
+        return {
+          ...result,
+          status: 'migrated',
+          applied: after.applied,
+          pending: after.pending,
+          newlyApplied: before.pending.filter(name => !after.pending.includes(name))
+        };
+      } catch (error: any) {
+        console.error(`❌ Failed to process migrations for schema: ${org.schemaName}`, error);
+        return {
+          ...base,
+          status: error instanceof MigrationDriftError ? 'drifted' : 'failed',
+          applied: [],
+          pending: [],
+          newlyApplied: [],
+          verification: error instanceof MigrationDriftError ? error.report : undefined,
+          error: error.message
+        };
+      }
+    });
+
+    const totals = {
+      organizations: tenants.length,
+      upToDate: tenants.filter(t => t.status === 'up_to_date').length,
+      pending: tenants.filter(t => t.status === 'pending').length,
+      migrated: tenants.filter(t => t.status === 'migrated').length,
+      drifted: tenants.filter(t => t.status === 'drifted').length,
+      failed: tenants.filter(t => t.status === 'failed').length,
+      skipped: tenants.filter(t => t.status === 'skipped').length
+    };
+
+    console.log(`Tenant migration run (${mode}) complete:`, totals);
+
+    return {
+      mode,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      availableMigrations: this.loadedMigrations.map(m => m.name),
+      totals,
+      tenants
+    };
+  }
+
   /**
    * Applies all required (unapplied) migrations to all existing tenant schemas.
    * This function should be run as a separate script during deployment.
    */
-  public async applyMigrationsToAllExistingTenants(): Promise<void> {
-    this.ensureInitialized();
+  public async applyMigrationsToAllExistingTenants(concurrency: number = 1): Promise<TenantMigrationSummary> {
+    return this.runTenantMigrations({ mode: 'apply', concurrency });
+  }
+
+  /**
+   * Applies all required (unapplied) migrations to a specific list of tenant schemas.
+   * @param schemaNames An array of schema names to apply migrations to.
+   */
+  public async applyMigrationsToSpecificTenants(schemaNames: string[], concurrency: number = 1): Promise<TenantMigrationSummary> {
+    return this.runTenantMigrations({ mode: 'apply', schemaNames, concurrency });
+  }
+
+  /**
+   * Rolls a schema back so that `targetMigration` is the last applied migration.
+   * Every migration applied after the target is reverted newest-first using its paired
+   * '.down.sql' script, and its _prisma_migrations row is stamped with rolled_back_at.
+   * Nothing is changed if any of those migrations lacks a rollback script or the schema has drifted.
+   * @param schemaName The tenant schema to roll back.
+   * @param targetMigration The migration to roll back to (it stays applied).
+   * @param dryRun When true, only report what would be rolled back and the SQL that would run.
+   */
+  public async rollbackSchemaToMigration(schemaName: string, targetMigration: string, dryRun: boolean = false): Promise<SchemaRollbackResult> {
+    await this.ensureInitialized();
 
-    console.log('Starting migration application for all existing tenants...');
-    let successCount = 0;
-    let failureCount = 0;
+    const tenantDb = this.tenantPool.acquire(schemaName);
 
     try {
-      const organizations = await this.sharedDb.organization.findMany({
-        select: {
-          id: true,
-          name: true,
-          schemaName: true
-        }
-      });
+      await this.ensureMigrationsTable(tenantDb, schemaName);
+
+      const verification = await this.compareAppliedMigrations(tenantDb, schemaName);
+      if (!verification.isValid) {
+        throw new MigrationDriftError(verification);
+      }
+
+      const appliedRows: { migration_name: string }[] = await tenantDb.$queryRawUnsafe(`
+        SELECT migration_name FROM "${schemaName}"."_prisma_migrations" WHERE rolled_back_at IS NULL ORDER BY started_at ASC;
+      `);
+      const applied = appliedRows.map(row => row.migration_name);
 
-      for (const org of organizations) {
-        if (org.schemaName) {
-          console.log(`Processing schema for organization: ${org.name} (${org.id}) - Schema: ${org.schemaName}`);
-          try {
-            await this.applyRequiredMigrationsToSchema(org.schemaName);
-            console.log(`✅ Successfully applied migrations for schema: ${org.schemaName}`);
-            successCount++;
-          } catch (error) {
-            console.error(`❌ Failed to apply migrations for schema: ${org.schemaName}`, error);
-            failureCount++;
-            // Continue processing other schemas even if one fails
+      const targetIndex = applied.indexOf(targetMigration);
+      if (targetIndex === -1) {
+        throw new Error(`Migration ${targetMigration} is not applied to schema ${schemaName}`);
+      }
+
+      const toRollBack = applied.slice(targetIndex + 1).reverse().map(name => this.loadedMigrations.find(m => m.name === name)!);
+      const withoutScript = toRollBack.filter(m => !m.rollbackSqlContent).map(m => m.name);
+      if (withoutScript.length > 0) {
+        throw new Error(`Missing rollback scripts for: ${withoutScript.join(', ')}`);
+      }
+
+      const plan = toRollBack.map(m => ({
+        name: m.name,
+        statements: this.prepareTenantStatements(m.rollbackSqlContent!, schemaName)
+      }));
+
+      if (dryRun || plan.length === 0) {
+        return { schemaName, targetMigration, rolledBack: [], plan };
+      }
+
+      const rolledBack: string[] = [];
+      for (const step of plan) {
+        console.log(`⏪ Rolling back migration: ${step.name} for schema ${schemaName}`);
+
+        // Each migration is reverted atomically together with its bookkeeping update
+        await tenantDb.$transaction(async (tx) => {
+          for (const statement of step.statements) {
+            await tx.$executeRawUnsafe(statement);
           }
-        } else {
-          console.warn(`Organization ${org.name} (${org.id}) does not have a schemaName. Skipping.`);
-        }
+          await tx.$executeRawUnsafe(
+            `UPDATE "${schemaName}"."_prisma_migrations"
+            SET rolled_back_at = NOW(), logs = $1
+            WHERE migration_name = $2 AND rolled_back_at IS NULL`,
+            `Rolled back to ${targetMigration} (${step.statements.length} statements)`, step.name
+          );
+        });
+
+        rolledBack.push(step.name);
+        console.log(`✅ Rolled back migration ${step.name} for schema ${schemaName}`);
       }
-      console.log(`Migration sweep complete. Successful: ${successCount}, Failed: ${failureCount}`);
-    } catch (error) {
-      console.error('Error during mass tenant migration:', error);
-      throw error;
+
+      return { schemaName, targetMigration, rolledBack, plan };
     } finally {
-      // Ensure all connections are closed after the sweep
-      await this.closeAllConnections();
+      this.tenantPool.release(schemaName);
     }
   }
 
   /**
-   * Applies all required (unapplied) migrations to a specific list of tenant schemas.
-   * @param schemaNames An array of schema names to apply migrations to.
+   * Rolls several tenant schemas back to the same migration with bounded concurrency.
+   * Each schema succeeds or fails independently; failures are reported in the summary.
    */
-  public async applyMigrationsToSpecificTenants(schemaNames: string[]): Promise<void> {
-    this.ensureInitialized();
+  public async rollbackTenants(options: TenantRollbackOptions): Promise<TenantRollbackSummary> {
+    await this.ensureInitialized();
+
+    const concurrency = Math.max(1, options.concurrency || 1);
+    const startedAt = new Date();
+
+    console.log(`Starting tenant rollback to ${options.targetMigration}${options.dryRun ? ' (dry run)' : ''} for: ${options.schemaNames.join(', ')}`);
+
+    const tenants = await mapWithConcurrency(options.schemaNames, concurrency, async (schemaName): Promise<TenantRollbackResult> => {
+      try {
+        const result = await this.rollbackSchemaToMigration(schemaName, options.targetMigration, options.dryRun);
+        return {
+          ...result,
+          status: options.dryRun ? 'planned' : (result.rolledBack.length > 0 ? 'rolled_back' : 'unchanged')
+        };
+      } catch (error: any) {
+        console.error(`❌ Failed to roll back schema: ${schemaName}`, error);
+        return {
+          schemaName,
+          targetMigration: options.targetMigration,
+          rolledBack: [],
+          plan: [],
+          status: error instanceof MigrationDriftError ? 'drifted' : 'failed',
+          error: error.message
+        };
+      }
+    });
+
+    const summary: TenantRollbackSummary = {
+      targetMigration: options.targetMigration,
+      dryRun: !!options.dryRun,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      totals: {
+        schemas: tenants.length,
+        rolledBack: tenants.filter(t => t.status === 'rolled_back').length,
+        planned: tenants.filter(t => t.status === 'planned').length,
+        unchanged: tenants.filter(t => t.status === 'unchanged').length,
+        drifted: tenants.filter(t => t.status === 'drifted').length,
+        failed: tenants.filter(t => t.status === 'failed').length
+      },
+      tenants
+    };
+
+    console.log(`Tenant rollback complete:`, summary.totals);
+    return summary;
+  }
+
+  /**
+   * Rewrites a migration file for a tenant schema and splits it into executable statements.
+   * Objects in `public` are redirected to the tenant schema and creates are made idempotent.
+   */
+  private prepareTenantStatements(sqlContent: string, schemaName: string): string[] {
+    const tenantSql = sqlContent
+      .replace(/public\./g, `"${schemaName}".`)
+      .replace(/CREATE TABLE/g, 'CREATE TABLE IF NOT EXISTS')
+      .replace(/CREATE INDEX/g, 'CREATE INDEX IF NOT EXISTS')
+      .replace(/CREATE UNIQUE INDEX/g, 'CREATE UNIQUE INDEX IF NOT EXISTS');
+
+    // Split SQL statements carefully to handle DO blocks
+    const statements = [];
+    let currentStatement = '';
+    const lines = tenantSql.split('\n');
+
+    for (const line of lines) {
+      currentStatement += line + '\n';
+      if (line.trim().endsWith(';') && !currentStatement.includes('DO $') || (currentStatement.includes('DO $') && line.trim().endsWith('END $;'))) {
+        statements.push(currentStatement.trim());
+        currentStatement = '';
+      }
+    }
+    return statements.filter(stmt => stmt.trim().length > 0);
+  }
+
+  /**
+   * Creates the migrations bookkeeping table in a schema if it does not exist yet.
+   */
+  private async ensureMigrationsTable(tenantDb: TenantPrismaClient, schemaName: string): Promise<void> {
+    await tenantDb.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "${schemaName}"."_prisma_migrations" (
+        id                      VARCHAR(36) PRIMARY KEY,
+        checksum                VARCHAR(64) NOT NULL,
+        finished_at             TIMESTAMPTZ,
+        migration_name          VARCHAR(255) NOT NULL,
+        logs                    TEXT,
+        rolled_back_at          TIMESTAMPTZ,
+        started_at              TIMESTAMPTZ DEFAULT now() NOT NULL,
+        applied_steps_count     INTEGER DEFAULT 0 NOT NULL
+      );
+    `);
+  }
 
-    console.log(`Starting migration application for specific tenants: ${schemaNames.join(', ')}...`);
-    let successCount = 0;
-    let failureCount = 0;
+  /**
+   * Compares the checksums recorded in a schema's _prisma_migrations against the loaded migration files.
+   */
+  private async compareAppliedMigrations(tenantDb: TenantPrismaClient, schemaName: string): Promise<MigrationVerificationReport> {
+    const appliedRows: { migration_name: string; checksum: string }[] = await tenantDb.$queryRawUnsafe(`
+      SELECT migration_name, checksum FROM "${schemaName}"."_prisma_migrations" WHERE rolled_back_at IS NULL ORDER BY started_at ASC;
+    `);
+
+    return compareMigrationChecksums(schemaName, appliedRows, this.loadedMigrations);
+  }
+
+  /**
+   * Records real checksums for migrations applied before checksums existed.
+   * The file on disk at the time of the first verified run is taken as the baseline.
+   */
+  private async backfillLegacyChecksums(tenantDb: TenantPrismaClient, schemaName: string, migrationNames: string[]): Promise<void> {
+    for (const name of migrationNames) {
+      const migration = this.loadedMigrations.find(m => m.name === name);
+      if (!migration) continue;
+
+      console.warn(`⚠️ Recording baseline checksum for legacy migration ${name} in schema ${schemaName}`);
+      await tenantDb.$executeRawUnsafe(
+        `UPDATE "${schemaName}"."_prisma_migrations" SET checksum = $1 WHERE migration_name = $2 AND checksum = $3 AND rolled_back_at IS NULL`,
+        migration.checksum, name, LEGACY_PLACEHOLDER_CHECKSUM
+      );
+    }
+  }
+
+  /**
+   * Verifies that every migration applied to a schema still matches its file on disk.
+   * @param schemaName The tenant schema to verify.
+   * @returns A report listing drifted, missing and unverified migrations.
+   */
+  public async verifyMigrationChecksums(schemaName: string): Promise<MigrationVerificationReport> {
+    await this.ensureInitialized();
+
+    const tenantDb = this.tenantPool.acquire(schemaName);
 
     try {
-      for (const schemaName of schemaNames) {
-        console.log(`Processing specified schema: ${schemaName}`);
-        try {
-          await this.applyRequiredMigrationsToSchema(schemaName);
-          console.log(`✅ Successfully applied migrations for schema: ${schemaName}`);
-          successCount++;
-        } catch (error) {
-          console.error(`❌ Failed to apply migrations for schema: ${schemaName}`, error);
-          failureCount++;
-          // Continue processing other schemas even if one fails
-        }
+      await this.ensureMigrationsTable(tenantDb, schemaName);
+      const report = await this.compareAppliedMigrations(tenantDb, schemaName);
+
+      if (!report.isValid) {
+        console.error(`❌ Migration drift detected in schema ${schemaName}:`, report);
+      } else if (report.unverified.length > 0) {
+        console.warn(`⚠️ Schema ${schemaName} has migrations without recorded checksums: ${report.unverified.join(', ')}`);
       }
-      console.log(`Specific tenant migration complete. Successful: ${successCount}, Failed: ${failureCount}`);
-    } catch (error) {
-      console.error('Error during specific tenant migration:', error);
-      throw error;
+
+      return report;
     } finally {
-      await this.closeAllConnections();
+      this.tenantPool.release(schemaName);
+    }
+  }
+
+  /**
+   * Runs the checksum verification pass for every organization schema.
+   * Failures to reach a schema are reported as invalid rather than aborting the sweep.
+   * @returns One report per organization schema.
+   */
+  public async verifyAllTenantMigrations(): Promise<MigrationVerificationReport[]> {
+    await this.ensureInitialized();
+
+    const organizations = await this.sharedDb.organization.findMany({
+      where: { schemaName: { not: null } },
+      select: { schemaName: true }
+    });
+
+    const reports: MigrationVerificationReport[] = [];
+    for (const org of organizations) {
+      try {
+        reports.push(await this.verifyMigrationChecksums(org.schemaName!));
+      } catch (error) {
+        console.error(`❌ Failed to verify migrations for schema: ${org.schemaName}`, error);
+        reports.push({
+          schemaName: org.schemaName!,
+          isValid: false,
+          drifted: [],
+          missingFiles: [],
+          unverified: []
+        });
+      }
     }
+
+    const driftedCount = reports.filter(r => !r.isValid).length;
+    console.log(`Migration verification complete. Verified: ${reports.length - driftedCount}, Drifted or unreachable: ${driftedCount}`);
+    return reports;
+  }
+
+  /**
+   * Drops a tenant schema and everything in it. Callers are responsible for exporting first.
+   * @param schemaName The tenant schema to drop.
+   */
+  public async dropOrganizationSchema(schemaName: string): Promise<void> {
+    await this.tenantPool.remove(schemaName);
+    await this.sharedDb.$executeRawUnsafe(
+      `DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`
+    );
+    console.log(`🗑️ Dropped schema ${schemaName}`);
   }
 
   public async verifySchemaCreation(schemaName: string): Promise<boolean> {
-    this.ensureInitialized();
+    await this.ensureInitialized();
 
-    const tenantDb = await this.getTenantClient(schemaName);
+    const tenantDb = this.tenantPool.acquire(schemaName);
 
     try {
       // Check if tables exist in the schema
@@ -387,58 +880,38 @@ class SchemaManagementService {
       console.error('Schema verification error:', error);
       return false;
     } finally {
-      // Ensure tenantDb connection is closed after verification
-      await tenantDb.$disconnect();
-      this.tenantConnections.delete(schemaName);
+      this.tenantPool.release(schemaName);
     }
   }
 
+  /**
+   * Gets the pooled Prisma client for a tenant schema.
+   * The client may be evicted once it is least recently used; callers that hold it across
+   * a long operation should use acquireTenantClient/releaseTenantClient instead.
+   */
   public async getTenantClient(schemaName: string): Promise<TenantPrismaClient> {
-    console.log(`Getting tenant client for schema: ${schemaName}`);
-    // this.ensureInitialized();
-
-    // Check cache
-    if (this.tenantConnections.has(schemaName)) {
-      return this.tenantConnections.get(schemaName)!;
-    }
-
-    // Create new connection
-    const baseUrl = process.env.DATABASE_URL;
-    if (!baseUrl) {
-      throw new Error('DATABASE_URL environment variable is not set.');
-    }
-    const url = new URL(baseUrl);
-    url.searchParams.set('schema', schemaName);
-
-    const tenantClient = new TenantPrismaClient({
-      datasources: {
-        db: { url: url.toString() }
-      }
-    });
+    return this.tenantPool.get(schemaName);
+  }
 
-    // Set search path
-    await tenantClient.$executeRawUnsafe(
-      `SET search_path TO "${schemaName}", public`
-    );
+  /**
+   * Gets the pooled client for a schema and keeps it from being evicted until released.
+   */
+  public acquireTenantClient(schemaName: string): TenantPrismaClient {
+    return this.tenantPool.acquire(schemaName);
+  }
 
-    // Cache the connection
-    this.tenantConnections.set(schemaName, tenantClient);
-    return tenantClient;
+  /**
+   * Releases a client taken with acquireTenantClient.
+   */
+  public releaseTenantClient(schemaName: string): void {
+    this.tenantPool.release(schemaName);
   }
 
   public async closeAllConnections(): Promise<void> {
     console.log('🔌 Closing all database connections...');
 
     // Close all tenant connections
-    for (const [schema, client] of this.tenantConnections) {
-      try {
-        await client.$disconnect();
-        console.log(`✅ Closed connection for schema: ${schema}`);
-      } catch (error) {
-        console.error(`❌ Error closing connection for schema ${schema}:`, error);
-      }
-    }
-    this.tenantConnections.clear();
+    await this.tenantPool.closeAll();
 
     // Close shared connection
     try {
@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import SchemaManagementService from './SchemaManagementService.js';
+import { UserSession } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const readInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+export const ACCESS_TOKEN_TTL_SECONDS = readInt('ACCESS_TOKEN_TTL_SECONDS', 15 * 60);
+const REFRESH_TOKEN_TTL_MS = readInt('REFRESH_TOKEN_TTL_DAYS', 30) * 24 * 60 * 60 * 1000;
+
+// How long a session's active/revoked state is trusted before it is read again. Revocations made
+// by this process take effect immediately; other instances see them within this window.
+const SESSION_STATE_TTL_MS = 30 * 1000;
+const sessionStates: Map<string, { active: boolean; checkedAt: number }> = new Map();
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  organizationId: string;
+  role: string;
+}
+
+export interface SessionDevice {
+  deviceId?: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string; // Short-lived access token
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+  sessionId: string;
+}
+
+/**
+ * Reads the optional device details a client sends with its login or refresh request.
+ */
+export function getSessionDevice(req: Request): SessionDevice {
+  const { deviceId, deviceName } = req.body || {};
+  return {
+    deviceId: typeof deviceId === 'string' && deviceId ? deviceId.slice(0, 255) : undefined,
+    deviceName: typeof deviceName === 'string' && deviceName ? deviceName.slice(0, 255) : undefined,
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip
+  };
+}
+
+/**
+ * Raised when a refresh token cannot be used; every case maps to 401 for the client.
+ */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const hashesMatch = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Refresh tokens are '<session id>.<random secret>' so the session can be found without the secret
+const newRefreshToken = (sessionId: string) => `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+
+const signAccessToken = (user: SessionUser, sessionId: string) =>
+  jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      organizationId: user.organizationId,
+      role: user.role,
+      sid: sessionId
+    },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+/**
+ * Verifies a bearer access token. Only tokens issued by createSession/refreshSession pass: tokens that
+ * carry the claims of emailed links (type, nonce, aud) or of login challenges (purpose) are rejected
+ * even if they verify against JWT_SECRET, and so are tokens without a session id, which could not be
+ * revoked. Callers still check the session with isSessionActive.
+ * @throws jwt.JsonWebTokenError if the token is invalid, expired or not an access token.
+ */
+export function verifyAccessToken(token: string): jwt.JwtPayload & { email: string; sid: string } {
+  const payload = jwt.verify(token, process.env.JWT_SECRET!);
+  if (typeof payload === 'string' || payload.type || payload.nonce || payload.aud || payload.purpose) {
+    throw new jwt.JsonWebTokenError('Not an access token');
+  }
+  if (typeof payload.email !== 'string' || !payload.email) {
+    throw new jwt.JsonWebTokenError('No email found in token');
+  }
+  if (typeof payload.sid !== 'string' || !payload.sid) {
+    throw new jwt.JsonWebTokenError('Token has no session; sign in again');
+  }
+  return payload as jwt.JwtPayload & { email: string; sid: string };
+}
+
+const forgetSessionStates = (sessionIds: string[]) => sessionIds.forEach(id => sessionStates.delete(id));
+
+/**
+ * Starts a session for a user who just logged in. A previous session on the same device is revoked.
+ */
+export async function createSession(user: SessionUser, device: SessionDevice = {}): Promise<SessionTokens> {
+  if (device.deviceId) {
+    await revokeSessions({ userId: user.id, deviceId: device.deviceId }, 'replaced');
+  }
+
+  const sessionId = crypto.randomUUID();
+  const refreshToken = newRefreshToken(sessionId);
+
+  await schemaService.sharedDb.userSession.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * Presenting an already rotated refresh token means it was copied, so the whole session is revoked.
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens> {
+  const sessionId = refreshToken.split('.')[0];
+  const session = sessionId
+    ? await schemaService.sharedDb.userSession.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: { id: true, email: true, organizationId: true, role: true, isActive: true } } }
+    })
+    : null;
+
+  if (!session) {
+    throw new SessionError('Invalid refresh token');
+  }
+  if (session.revokedAt) {
+    throw new SessionError('Session has been revoked');
+  }
+
+  const presentedHash = hashToken(refreshToken);
+  if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+    if (session.previousRefreshTokenHash && hashesMatch(presentedHash, session.previousRefreshTokenHash)) {
+      console.warn(`⚠️ Reuse of a rotated refresh token for session ${session.id}; revoking it`);
+      await revokeSessions({ sessionId: session.id }, 'refresh_token_reuse');
+    }
+    throw new SessionError('Invalid refresh token');
+  }
+
+  if (session.expiresAt <= new Date()) {
+    throw new SessionError('Session has expired');
+  }
+  if (!session.user.isActive) {
+    await revokeSessions({ sessionId: session.id }, 'user_deactivated');
+    throw new SessionError('Account is deactivated');
+  }
+
+  const nextRefreshToken = newRefreshToken(session.id);
+  // Only rotate if nobody else rotated in the meantime
+  const rotated = await schemaService.sharedDb.userSession.updateMany({
+    where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      previousRefreshTokenHash: session.refreshTokenHash,
+      lastUsedAt: new Date()
+    }
+  });
+  if (rotated.count === 0) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  return {
+    token: signAccessToken(session.user, session.id),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId: session.id
+  };
+}
+
+/**
+ * Revokes the matching active sessions.
+ * @returns How many sessions were revoked.
+ */
+export async function revokeSessions(
+  filter: { sessionId?: string; userId?: string; deviceId?: string },
+  reason: string
+): Promise<number> {
+  if (!filter.sessionId && !filter.userId) {
+    throw new Error('revokeSessions requires a sessionId or userId');
+  }
+
+  const where = {
+    ...(filter.sessionId && { id: filter.sessionId }),
+    ...(filter.userId && { userId: filter.userId }),
+    ...(filter.deviceId && { deviceId: filter.deviceId }),
+    revokedAt: null
+  };
+
+  const sessions = await schemaService.sharedDb.userSession.findMany({ where, select: { id: true } });
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  await schemaService.sharedDb.userSession.updateMany({
+    where: { id: { in: sessions.map(s => s.id) }, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+  forgetSessionStates(sessions.map(s => s.id));
+
+  console.log(`🔒 Revoked ${sessions.length} session(s) (${reason})`);
+  return sessions.length;
+}
+
+/**
+ * Revokes the session a refresh token belongs to, if the token is that session's current one.
+ * @returns Whether a session was revoked.
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  const sessionId = refreshToken.split('.')[0];
+  if (!sessionId) return false;
+
+  const session = await schemaService.sharedDb.userSession.findUnique({ where: { id: sessionId } });
+  if (!session || session.revokedAt || !hashesMatch(hashToken(refreshToken), session.refreshTokenHash)) {
+    return false;
+  }
+
+  return (await revokeSessions({ sessionId }, 'logout')) > 0;
+}
+
+/**
+ * Whether the session behind an access token is still usable. Used by tenantMiddleware on every request.
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const cached = sessionStates.get(sessionId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_STATE_TTL_MS) {
+    return cached.active;
+  }
+
+  const session = await schemaService.sharedDb.userSession.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true }
+  });
+  const active = !!session && !session.revokedAt && session.expiresAt > new Date();
+
+  sessionStates.set(sessionId, { active, checkedAt: Date.now() });
+  // Keep the map from growing without bound; entries are cheap to reload
+  if (sessionStates.size > 10000) {
+    sessionStates.delete(sessionStates.keys().next().value as string);
+  }
+  return active;
+}
+
+/**
+ * Lists a user's active sessions, most recently used first.
+ */
+export async function listActiveSessions(userId: string): Promise<Omit<UserSession, 'refreshTokenHash' | 'previousRefreshTokenHash'>[]> {
+  return schemaService.sharedDb.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userId: true,
+      deviceId: true,
+      deviceName: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      revokedAt: true,
+      revokedReason: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+}
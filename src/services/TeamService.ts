@@ -0,0 +1,320 @@
+import { EmployeeRole, Prisma, PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
+
+// Roles that can lead a team; representatives report to a lead, they do not lead one
+export const TEAM_LEAD_ROLES: EmployeeRole[] = ['SALES_MANAGER', 'SYSTEM_ADMINISTRATOR'];
+
+const EMPLOYEE_SUMMARY = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  employeeCode: true,
+  isActive: true
+} satisfies Prisma.EmployeeSelect;
+
+const TEAM_INCLUDE = {
+  leadName: { select: EMPLOYEE_SUMMARY },
+  teamMembers: { select: EMPLOYEE_SUMMARY, orderBy: { firstName: 'asc' } }
+} satisfies Prisma.TeamInclude;
+
+type TenantTransaction = Prisma.TransactionClient;
+
+/**
+ * Raised when a team request cannot be carried out; statusCode is the HTTP status to answer with.
+ */
+export class TeamError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'TeamError';
+    this.statusCode = statusCode;
+  }
+}
+
+// The relation to the lead is called leadName in the schema; responses call it lead
+const toTeamResponse = <T extends { leadName: unknown }>({ leadName, ...team }: T) => ({ ...team, lead: leadName });
+
+const validateTeamName = (teamName: unknown) => {
+  if (typeof teamName !== 'string' || !teamName.trim() || teamName.trim().length > 255) {
+    throw new TeamError('teamName is required (at most 255 characters)', 400);
+  }
+  return teamName.trim();
+};
+
+const findTeam = async (db: TenantPrismaClient | TenantTransaction, teamId: string) => {
+  const team = await db.team.findUnique({ where: { id: teamId } });
+  if (!team || !team.isActive) {
+    throw new TeamError('Team not found', 404);
+  }
+  return team;
+};
+
+/**
+ * Every employee in the teams led by the given employees. With `recursive`, teams led by those
+ * members are followed in turn, so a regional lead also gets the members of their area leads' teams.
+ */
+export async function getTeamMemberIds(
+  db: TenantPrismaClient | TenantTransaction,
+  leadIds: string[],
+  { recursive = false }: { recursive?: boolean } = {}
+): Promise<string[]> {
+  const members = new Set<string>();
+  let leads = leadIds;
+
+  while (leads.length > 0) {
+    const teams = await db.team.findMany({
+      where: { leadId: { in: leads }, isActive: true },
+      select: { teamMembers: { where: { isActive: true }, select: { id: true } } }
+    });
+
+    const found = teams.flatMap(team => team.teamMembers.map(member => member.id)).filter(id => !members.has(id));
+    found.forEach(id => members.add(id));
+    leads = recursive ? found : [];
+  }
+  return [...members];
+}
+
+/**
+ * The lead an employee reports to through their team, or null.
+ */
+export async function getManagerId(db: TenantPrismaClient | TenantTransaction, employeeId: string): Promise<string | null> {
+  const employee = await db.employee.findUnique({
+    where: { id: employeeId },
+    select: { team: { select: { leadId: true, isActive: true } } }
+  });
+  return employee?.team?.isActive ? employee.team.leadId : null;
+}
+
+const assertCanLead = async (db: TenantPrismaClient | TenantTransaction, leadId: string, teamId?: string) => {
+  const lead = await db.employee.findUnique({
+    where: { id: leadId },
+    select: { id: true, email: true, role: true, isActive: true, teamId: true, leadsTeam: { select: { id: true, teamName: true } } }
+  });
+  if (!lead || !lead.isActive) {
+    throw new TeamError('Lead must be an active employee', 400);
+  }
+  if (!TEAM_LEAD_ROLES.includes(lead.role)) {
+    throw new TeamError(`Only ${TEAM_LEAD_ROLES.join(' and ')} employees can lead a team`, 400);
+  }
+  if (lead.leadsTeam && lead.leadsTeam.id !== teamId) {
+    throw new TeamError(`${lead.email} already leads team "${lead.leadsTeam.teamName}"`, 409);
+  }
+  if (teamId && lead.teamId === teamId) {
+    throw new TeamError('The lead cannot also be a member of the team; remove them as a member first', 400);
+  }
+  return lead;
+};
+
+/**
+ * Checks members before they join a team led by `leadId`: active, not in another team, not the
+ * lead, and not above the lead in the reporting chain.
+ */
+const assertCanJoin = async (db: TenantPrismaClient | TenantTransaction, teamId: string, leadId: string, employeeIds: string[]) => {
+  if (employeeIds.includes(leadId)) {
+    throw new TeamError('The lead cannot also be a member of the team', 400);
+  }
+
+  const employees = await db.employee.findMany({
+    where: { id: { in: employeeIds } },
+    select: { id: true, email: true, isActive: true, teamId: true, team: { select: { teamName: true } } }
+  });
+  const missing = employeeIds.filter(id => !employees.some(e => e.id === id));
+  if (missing.length > 0) {
+    throw new TeamError(`Employees not found: ${missing.join(', ')}`, 404);
+  }
+
+  for (const employee of employees) {
+    if (!employee.isActive) {
+      throw new TeamError(`${employee.email} is deactivated`, 400);
+    }
+    if (employee.teamId && employee.teamId !== teamId) {
+      throw new TeamError(`${employee.email} is already in team "${employee.team?.teamName}"; remove them from it first`, 409);
+    }
+  }
+
+  // The lead must not end up reporting to one of their own members
+  const aboveLead = new Set<string>();
+  for (let managerId = await getManagerId(db, leadId); managerId && !aboveLead.has(managerId); managerId = await getManagerId(db, managerId)) {
+    aboveLead.add(managerId);
+  }
+  const cyclic = employees.find(e => aboveLead.has(e.id));
+  if (cyclic) {
+    throw new TeamError(`${cyclic.email} is above the lead in the reporting chain and cannot join the team`, 400);
+  }
+};
+
+/**
+ * Lists active teams with their lead and members.
+ */
+export async function listTeams(tenantDb: TenantPrismaClient, filter: { search?: string } = {}) {
+  const teams = await tenantDb.team.findMany({
+    where: {
+      isActive: true,
+      ...(filter.search && { teamName: { contains: filter.search, mode: 'insensitive' as const } })
+    },
+    include: TEAM_INCLUDE,
+    orderBy: { teamName: 'asc' }
+  });
+  return teams.map(toTeamResponse);
+}
+
+export async function getTeam(tenantDb: TenantPrismaClient, teamId: string) {
+  const team = await tenantDb.team.findUnique({ where: { id: teamId }, include: TEAM_INCLUDE });
+  if (!team || !team.isActive) {
+    throw new TeamError('Team not found', 404);
+  }
+  return toTeamResponse(team);
+}
+
+/**
+ * The team an employee leads and the team they belong to, with the lead they report to.
+ */
+export async function getEmployeeTeams(tenantDb: TenantPrismaClient, employeeId: string) {
+  const employee = await tenantDb.employee.findUnique({
+    where: { id: employeeId },
+    select: {
+      leadsTeam: { include: TEAM_INCLUDE },
+      team: { include: TEAM_INCLUDE }
+    }
+  });
+
+  const leads = employee?.leadsTeam?.isActive ? toTeamResponse(employee.leadsTeam) : null;
+  const memberOf = employee?.team?.isActive ? toTeamResponse(employee.team) : null;
+  return { leads, memberOf, manager: memberOf?.lead || null };
+}
+
+/**
+ * Creates a team with a lead and, optionally, its first members.
+ */
+export async function createTeam(tenantDb: TenantPrismaClient, input: { teamName: unknown; leadId: unknown; memberIds?: unknown }) {
+  const teamName = validateTeamName(input.teamName);
+  if (typeof input.leadId !== 'string' || !input.leadId) {
+    throw new TeamError('leadId is required', 400);
+  }
+  const leadId = input.leadId;
+  const memberIds = parseEmployeeIds(input.memberIds ?? [], 'memberIds');
+
+  const team = await tenantDb.$transaction(async (tx) => {
+    await assertCanLead(tx, leadId);
+
+    // A lead who stepped down keeps the deactivated team row, which still holds the unique leadId
+    await tx.team.deleteMany({ where: { leadId, isActive: false } });
+
+    const created = await tx.team.create({ data: { teamName, leadId } });
+    if (memberIds.length > 0) {
+      await assertCanJoin(tx, created.id, leadId, memberIds);
+      await tx.employee.updateMany({
+        where: { id: { in: memberIds } },
+        data: { teamId: created.id, reportingManagerId: leadId }
+      });
+    }
+    return tx.team.findUniqueOrThrow({ where: { id: created.id }, include: TEAM_INCLUDE });
+  });
+
+  console.log(`👥 Created team "${team.teamName}" led by ${team.leadName.email} with ${team.teamMembers.length} members`);
+  return toTeamResponse(team);
+}
+
+/**
+ * Renames a team.
+ */
+export async function renameTeam(tenantDb: TenantPrismaClient, teamId: string, teamName: unknown) {
+  const name = validateTeamName(teamName);
+  await findTeam(tenantDb, teamId);
+
+  const team = await tenantDb.team.update({ where: { id: teamId }, data: { teamName: name }, include: TEAM_INCLUDE });
+  return toTeamResponse(team);
+}
+
+/**
+ * Hands a team to a new lead. The members now report to the new lead.
+ */
+export async function setTeamLead(tenantDb: TenantPrismaClient, teamId: string, leadId: unknown) {
+  if (typeof leadId !== 'string' || !leadId) {
+    throw new TeamError('leadId is required', 400);
+  }
+
+  const team = await tenantDb.$transaction(async (tx) => {
+    const team = await findTeam(tx, teamId);
+    if (team.leadId === leadId) {
+      return tx.team.findUniqueOrThrow({ where: { id: teamId }, include: TEAM_INCLUDE });
+    }
+
+    await assertCanLead(tx, leadId, teamId);
+    const members = await tx.employee.findMany({ where: { teamId }, select: { id: true } });
+    await assertCanJoin(tx, teamId, leadId, members.map(m => m.id));
+
+    await tx.team.deleteMany({ where: { leadId, isActive: false } });
+    await tx.employee.updateMany({ where: { teamId }, data: { reportingManagerId: leadId } });
+    return tx.team.update({ where: { id: teamId }, data: { leadId }, include: TEAM_INCLUDE });
+  });
+
+  console.log(`👥 ${team.leadName.email} now leads team "${team.teamName}"`);
+  return toTeamResponse(team);
+}
+
+/**
+ * Adds employees to a team; they report to its lead from then on.
+ */
+export async function addTeamMembers(tenantDb: TenantPrismaClient, teamId: string, employeeIds: unknown) {
+  const ids = parseEmployeeIds(employeeIds, 'employeeIds');
+  if (ids.length === 0) {
+    throw new TeamError('employeeIds must list at least one employee', 400);
+  }
+
+  const team = await tenantDb.$transaction(async (tx) => {
+    const team = await findTeam(tx, teamId);
+    await assertCanJoin(tx, teamId, team.leadId, ids);
+
+    await tx.employee.updateMany({
+      where: { id: { in: ids } },
+      data: { teamId, reportingManagerId: team.leadId }
+    });
+    return tx.team.findUniqueOrThrow({ where: { id: teamId }, include: TEAM_INCLUDE });
+  });
+
+  console.log(`👥 Added ${ids.length} members to team "${team.teamName}"`);
+  return toTeamResponse(team);
+}
+
+/**
+ * Removes an employee from a team. They no longer report to anyone until they join another team.
+ */
+export async function removeTeamMember(tenantDb: TenantPrismaClient, teamId: string, employeeId: string) {
+  const team = await findTeam(tenantDb, teamId);
+
+  const result = await tenantDb.employee.updateMany({
+    where: { id: employeeId, teamId },
+    data: { teamId: null, reportingManagerId: null }
+  });
+  if (result.count === 0) {
+    throw new TeamError('Employee is not a member of this team', 404);
+  }
+
+  console.log(`👥 Removed employee ${employeeId} from team "${team.teamName}"`);
+  return getTeam(tenantDb, teamId);
+}
+
+/**
+ * Disbands a team: its members leave it and no longer report to its lead. The row is kept inactive.
+ */
+export async function disbandTeam(tenantDb: TenantPrismaClient, teamId: string) {
+  const team = await findTeam(tenantDb, teamId);
+
+  const [members] = await tenantDb.$transaction([
+    tenantDb.employee.updateMany({ where: { teamId }, data: { teamId: null, reportingManagerId: null } }),
+    tenantDb.team.update({ where: { id: teamId }, data: { isActive: false } })
+  ]);
+
+  console.log(`👥 Disbanded team "${team.teamName}" (${members.count} members released)`);
+  return { releasedMembers: members.count };
+}
+
+function parseEmployeeIds(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !id)) {
+    throw new TeamError(`${field} must be a list of employee ids`, 400);
+  }
+  return [...new Set(value as string[])];
+}
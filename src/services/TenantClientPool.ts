@@ -0,0 +1,215 @@
+import { PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
+
+export interface TenantClientPoolOptions {
+  maxClients: number; // Upper bound on cached tenant clients
+  idleTimeoutMs: number; // Clients unused for this long are disconnected
+  connectionLimit: number; // Postgres connections each tenant client may open
+  poolTimeoutSeconds: number; // How long a query waits for a free connection
+}
+
+interface PooledTenantClient {
+  client: TenantPrismaClient;
+  lastUsedAt: number;
+  leases: number; // Callers currently holding the client (e.g. in-flight requests)
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Reads pool limits from the environment, falling back to conservative defaults.
+ */
+export function getTenantPoolOptionsFromEnv(): TenantClientPoolOptions {
+  const readInt = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    maxClients: readInt('TENANT_POOL_MAX_CLIENTS', 50),
+    idleTimeoutMs: readInt('TENANT_POOL_IDLE_TIMEOUT_MS', 10 * 60 * 1000),
+    connectionLimit: readInt('TENANT_CONNECTION_LIMIT', 3),
+    poolTimeoutSeconds: readInt('TENANT_POOL_TIMEOUT_SECONDS', 10)
+  };
+}
+
+/**
+ * Bounded cache of tenant Prisma clients with least-recently-used eviction and idle timeouts.
+ *
+ * Each client is built with the tenant schema in its connection URL, so Prisma qualifies every
+ * model query with that schema and opens every pooled connection with it as the search_path.
+ * Schema selection therefore never depends on session state set by an earlier query.
+ *
+ * Clients that are leased (see acquire/release) are never evicted; if every cached client is
+ * leased the pool may briefly exceed maxClients and shrinks again as leases are released.
+ */
+export class TenantClientPool {
+  private clients: Map<string, PooledTenantClient> = new Map(); // Iteration order = least recently used first
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: TenantClientPoolOptions) { }
+
+  /**
+   * Returns the client for a schema without leasing it, creating it if needed.
+   */
+  public get(schemaName: string): TenantPrismaClient {
+    return this.touch(schemaName).client;
+  }
+
+  /**
+   * Returns the client for a schema and protects it from eviction until release() is called.
+   */
+  public acquire(schemaName: string): TenantPrismaClient {
+    const entry = this.touch(schemaName);
+    entry.leases++;
+    return entry.client;
+  }
+
+  /**
+   * Releases a lease taken with acquire().
+   */
+  public release(schemaName: string): void {
+    const entry = this.clients.get(schemaName);
+    if (!entry) return;
+
+    entry.leases = Math.max(0, entry.leases - 1);
+    entry.lastUsedAt = Date.now();
+    this.trimToLimit();
+  }
+
+  /**
+   * Disconnects and forgets the client for a schema, e.g. after the schema was dropped.
+   */
+  public async remove(schemaName: string): Promise<void> {
+    const entry = this.clients.get(schemaName);
+    if (!entry) return;
+
+    this.clients.delete(schemaName);
+    await this.disconnect(schemaName, entry.client);
+  }
+
+  public has(schemaName: string): boolean {
+    return this.clients.has(schemaName);
+  }
+
+  public get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Snapshot of the pool for diagnostics.
+   */
+  public getStats() {
+    const now = Date.now();
+    return {
+      ...this.options,
+      size: this.clients.size,
+      clients: [...this.clients.entries()].map(([schemaName, entry]) => ({
+        schemaName,
+        leases: entry.leases,
+        idleMs: now - entry.lastUsedAt
+      }))
+    };
+  }
+
+  /**
+   * Disconnects every client and stops the idle sweeper.
+   */
+  public async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const entries = [...this.clients.entries()];
+    this.clients.clear();
+    for (const [schemaName, entry] of entries) {
+      await this.disconnect(schemaName, entry.client);
+    }
+  }
+
+  private touch(schemaName: string): PooledTenantClient {
+    let entry = this.clients.get(schemaName);
+
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.clients.delete(schemaName);
+    } else {
+      console.log(`Creating tenant client for schema: ${schemaName}`);
+      entry = { client: this.createClient(schemaName), lastUsedAt: Date.now(), leases: 0 };
+    }
+
+    entry.lastUsedAt = Date.now();
+    this.clients.set(schemaName, entry);
+    this.trimToLimit();
+    this.ensureSweeper();
+    return entry;
+  }
+
+  private createClient(schemaName: string): TenantPrismaClient {
+    const baseUrl = process.env.DATABASE_URL;
+    if (!baseUrl) {
+      throw new Error('DATABASE_URL environment variable is not set.');
+    }
+
+    const url = new URL(baseUrl);
+    url.searchParams.set('schema', schemaName);
+    url.searchParams.set('connection_limit', String(this.options.connectionLimit));
+    url.searchParams.set('pool_timeout', String(this.options.poolTimeoutSeconds));
+
+    return new TenantPrismaClient({
+      datasources: {
+        db: { url: url.toString() }
+      }
+    });
+  }
+
+  /**
+   * Evicts least recently used, unleased clients until the pool is within maxClients.
+   */
+  private trimToLimit(): void {
+    if (this.clients.size <= this.options.maxClients) return;
+
+    for (const [schemaName, entry] of this.clients) {
+      if (this.clients.size <= this.options.maxClients) break;
+      if (entry.leases > 0) continue;
+
+      console.log(`♻️ Evicting least recently used tenant client: ${schemaName}`);
+      this.clients.delete(schemaName);
+      void this.disconnect(schemaName, entry.client);
+    }
+
+    if (this.clients.size > this.options.maxClients) {
+      console.warn(`⚠️ Tenant client pool over limit (${this.clients.size}/${this.options.maxClients}); all clients are in use`);
+    }
+  }
+
+  private sweepIdleClients(): void {
+    const now = Date.now();
+    for (const [schemaName, entry] of this.clients) {
+      if (entry.leases === 0 && now - entry.lastUsedAt > this.options.idleTimeoutMs) {
+        console.log(`💤 Closing idle tenant client: ${schemaName}`);
+        this.clients.delete(schemaName);
+        void this.disconnect(schemaName, entry.client);
+      }
+    }
+  }
+
+  private ensureSweeper(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => this.sweepIdleClients(), Math.min(SWEEP_INTERVAL_MS, this.options.idleTimeoutMs));
+    // The sweeper alone must not keep the process (or a CLI script) alive
+    this.sweepTimer.unref();
+  }
+
+  private async disconnect(schemaName: string, client: TenantPrismaClient): Promise<void> {
+    try {
+      await client.$disconnect();
+      console.log(`✅ Closed connection for schema: ${schemaName}`);
+    } catch (error) {
+      console.error(`❌ Error closing connection for schema ${schemaName}:`, error);
+    }
+  }
+}
+
+export default TenantClientPool;
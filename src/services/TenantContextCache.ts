@@ -0,0 +1,99 @@
+import { OrganizationSettings } from './OrganizationSettingsService.js';
+
+/**
+ * Identity and tenant context resolved by tenantMiddleware for one user.
+ * Status flags are cached as data and re-checked on every request.
+ */
+export interface TenantContext {
+  userId: string; // Shared User.id
+  email: string;
+  role: string;
+  isActive: boolean;
+  organizationId: string;
+  organizationName: string;
+  organizationIsActive: boolean;
+  organizationStatus: string;
+  schemaName: string | null;
+  settings: OrganizationSettings;
+  tenantEmployeeId?: string; // Tenant Employee.id, if the employee exists
+}
+
+interface CachedTenantContext {
+  context: TenantContext;
+  expiresAt: number;
+}
+
+const readInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+// The cache is per process: with several API instances, invalidation only reaches the instance
+// that made the change and the others catch up when the TTL expires. A TTL of 0 disables caching.
+const TTL_MS = readInt('TENANT_CONTEXT_CACHE_TTL_MS', 60 * 1000);
+const MAX_ENTRIES = readInt('TENANT_CONTEXT_CACHE_MAX_ENTRIES', 10000);
+
+// Keyed by email (as stored in User.email); iteration order = oldest insertion first
+const contexts: Map<string, CachedTenantContext> = new Map();
+
+/**
+ * Returns the cached context for a user, or undefined if missing or expired.
+ */
+export function getCachedTenantContext(email: string): TenantContext | undefined {
+  const entry = contexts.get(email);
+  if (!entry) return undefined;
+
+  if (entry.expiresAt <= Date.now()) {
+    contexts.delete(email);
+    return undefined;
+  }
+  return entry.context;
+}
+
+/**
+ * Caches a freshly resolved context for TENANT_CONTEXT_CACHE_TTL_MS.
+ */
+export function cacheTenantContext(context: TenantContext): void {
+  if (TTL_MS === 0 || MAX_ENTRIES === 0) return;
+
+  contexts.delete(context.email);
+  while (contexts.size >= MAX_ENTRIES) {
+    const oldestKey = contexts.keys().next().value as string;
+    contexts.delete(oldestKey);
+  }
+  contexts.set(context.email, { context, expiresAt: Date.now() + TTL_MS });
+}
+
+/**
+ * Drops the cached context of one user. Call after changing the user's shared or tenant record
+ * (activation, deactivation, role change, password change, deletion).
+ */
+export function invalidateUserContext(email: string): void {
+  contexts.delete(email);
+}
+
+/**
+ * Drops the cached context of every user of an organization. Call after changing the
+ * organization itself (status, schema, settings).
+ */
+export function invalidateOrganizationContexts(organizationId: string): void {
+  for (const [key, entry] of contexts) {
+    if (entry.context.organizationId === organizationId) {
+      contexts.delete(key);
+    }
+  }
+}
+
+/**
+ * Empties the cache, e.g. after bulk changes made outside the API.
+ */
+export function clearTenantContextCache(): void {
+  contexts.clear();
+}
+
+/**
+ * Snapshot of the cache for diagnostics.
+ */
+export function getTenantContextCacheStats() {
+  return { ttlMs: TTL_MS, maxEntries: MAX_ENTRIES, size: contexts.size };
+}
@@ -0,0 +1,498 @@
+import SchemaManagementService from './SchemaManagementService.js';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// Bump when the archive layout changes; imports refuse versions they do not understand
+export const TENANT_ARCHIVE_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const SQL_DATA_FILE = 'data.sql';
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+export type TenantArchiveFormat = 'jsonl' | 'sql';
+
+export interface TenantArchiveManifest {
+  formatVersion: number;
+  format: TenantArchiveFormat;
+  exportedAt: string;
+  source: {
+    organizationId: string | null;
+    organizationName: string | null;
+    contactEmail: string | null;
+    address: string | null;
+    website: string | null;
+    settings: unknown;
+    schemaName: string;
+  };
+  migrations: { name: string; checksum: string }[];
+  tables: { table: string; rows: number; file: string }[];
+}
+
+export interface TenantExportResult {
+  schemaName: string;
+  exportPath: string;
+  manifest: TenantArchiveManifest;
+  checksum: string; // sha256 of every file in the archive, see computeArchiveChecksum
+}
+
+/**
+ * Raised when an archive cannot be used as the export of a schema about to be dropped.
+ */
+export class TenantArchiveVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantArchiveVerificationError';
+  }
+}
+
+export interface TenantImportOptions {
+  organizationName: string; // Name of the new organization that receives the data
+  contactEmail?: string; // Defaults to the exported organization's contact email
+  allowMigrationMismatch?: boolean; // Import even if the archive was taken at a different migration level
+}
+
+export interface TenantImportResult {
+  organizationId: string;
+  organizationName: string;
+  schemaName: string;
+  tables: { table: string; rows: number }[];
+}
+
+interface ForeignKey {
+  table_name: string;
+  referenced_table: string;
+  columns: string[];
+  nullable: boolean;
+}
+
+interface TableLoadPlan {
+  table: string;
+  primaryKey: string[];
+  deferredColumns: string[]; // Nullable foreign keys filled in after every table is loaded
+}
+
+/**
+ * Directory that tenant exports are written to. On Heroku the default is on the dyno's ephemeral
+ * disk; point TENANT_EXPORT_DIR at durable storage or copy archives off before relying on them.
+ */
+export function getExportRoot(): string {
+  return process.env.TENANT_EXPORT_DIR || path.join(process.cwd(), 'exports');
+}
+
+/**
+ * Resolves an archive name to its directory inside the export root, or null if the name points
+ * anywhere else.
+ */
+export function resolveArchivePath(archiveName: string): string | null {
+  const exportRoot = path.resolve(getExportRoot());
+  const archivePath = path.resolve(exportRoot, archiveName);
+  return path.dirname(archivePath) === exportRoot ? archivePath : null;
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Works out the order tables must be loaded in for a schema.
+ * Required foreign keys decide the order; nullable ones (which may form cycles, e.g.
+ * employees.team_id <-> teams.lead_id or self references) are loaded as NULL and set afterwards.
+ */
+async function buildLoadPlan(schemaName: string, tables: string[]): Promise<TableLoadPlan[]> {
+  const sharedDb = SchemaManagementService.getInstance().sharedDb;
+
+  const foreignKeys: ForeignKey[] = await sharedDb.$queryRawUnsafe(`
+    SELECT tc.relname::text AS table_name,
+           rc.relname::text AS referenced_table,
+           array_agg(a.attname::text ORDER BY k.ord) AS columns,
+           bool_and(NOT a.attnotnull) AS nullable
+    FROM pg_constraint c
+    JOIN pg_class tc ON tc.oid = c.conrelid
+    JOIN pg_class rc ON rc.oid = c.confrelid
+    JOIN pg_namespace n ON n.oid = tc.relnamespace
+    CROSS JOIN LATERAL unnest(c.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+    WHERE c.contype = 'f' AND n.nspname = $1
+    GROUP BY c.oid, tc.relname, rc.relname
+  `, schemaName);
+
+  const primaryKeys: { table_name: string; columns: string[] }[] = await sharedDb.$queryRawUnsafe(`
+    SELECT tc.relname::text AS table_name,
+           array_agg(a.attname::text ORDER BY k.ord) AS columns
+    FROM pg_constraint c
+    JOIN pg_class tc ON tc.oid = c.conrelid
+    JOIN pg_namespace n ON n.oid = tc.relnamespace
+    CROSS JOIN LATERAL unnest(c.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+    WHERE c.contype = 'p' AND n.nspname = $1
+    GROUP BY c.oid, tc.relname
+  `, schemaName);
+
+  const tableSet = new Set(tables);
+  const dependencies = new Map(tables.map(t => [t, new Set<string>()]));
+  const deferred = new Map(tables.map(t => [t, new Set<string>()]));
+
+  for (const fk of foreignKeys) {
+    if (!tableSet.has(fk.table_name)) continue;
+
+    if (fk.nullable) {
+      fk.columns.forEach(c => deferred.get(fk.table_name)!.add(c));
+    } else if (fk.referenced_table !== fk.table_name && tableSet.has(fk.referenced_table)) {
+      dependencies.get(fk.table_name)!.add(fk.referenced_table);
+    }
+  }
+
+  // Kahn's algorithm, alphabetical among tables that are ready for a stable order
+  const ordered: string[] = [];
+  const remaining = new Set(tables);
+  while (remaining.size > 0) {
+    const ready = [...remaining]
+      .filter(t => [...dependencies.get(t)!].every(dep => !remaining.has(dep)))
+      .sort();
+    if (ready.length === 0) {
+      throw new Error(`Cannot order tables for loading; required foreign keys form a cycle among: ${[...remaining].join(', ')}`);
+    }
+    ready.forEach(t => {
+      ordered.push(t);
+      remaining.delete(t);
+    });
+  }
+
+  return ordered.map(table => {
+    const primaryKey = primaryKeys.find(pk => pk.table_name === table)?.columns || [];
+    const deferredColumns = [...deferred.get(table)!];
+    if (deferredColumns.length > 0 && primaryKey.length === 0) {
+      throw new Error(`Table ${table} has nullable foreign keys but no primary key`);
+    }
+    return { table, primaryKey, deferredColumns };
+  });
+}
+
+async function listTenantTables(schemaName: string): Promise<string[]> {
+  const sharedDb = SchemaManagementService.getInstance().sharedDb;
+  const rows: { table_name: string }[] = await sharedDb.$queryRaw`
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = ${schemaName}
+    AND table_type = 'BASE TABLE'
+    AND table_name <> '_prisma_migrations'
+    ORDER BY table_name;
+  `;
+  return rows.map(r => r.table_name);
+}
+
+/**
+ * Reads a table page by page in primary key order.
+ */
+async function* readTableRows(schemaName: string, plan: TableLoadPlan): AsyncGenerator<Record<string, unknown>[]> {
+  const sharedDb = SchemaManagementService.getInstance().sharedDb;
+  const orderBy = plan.primaryKey.length > 0 ? `ORDER BY ${plan.primaryKey.map(c => `t.${quoteIdent(c)}`).join(', ')}` : '';
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows: { row: Record<string, unknown> }[] = await sharedDb.$queryRawUnsafe(
+      `SELECT row_to_json(t) AS row FROM ${quoteIdent(schemaName)}.${quoteIdent(plan.table)} t ${orderBy} LIMIT $1 OFFSET $2`,
+      PAGE_SIZE, offset
+    );
+    if (rows.length === 0) return;
+    yield rows.map(r => r.row);
+    if (rows.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Exports every table of a tenant schema into a versioned archive directory.
+ * The archive holds a manifest (format version, source organization, applied migrations, row counts)
+ * and either one JSON-lines file per table or a single SQL file that can be replayed into any
+ * tenant schema at the same migration level.
+ * @param schemaName The tenant schema to export.
+ * @param format 'jsonl' (default) or 'sql'.
+ */
+export async function exportTenantSchema(schemaName: string, format: TenantArchiveFormat = 'jsonl'): Promise<TenantExportResult> {
+  const schemaService = SchemaManagementService.getInstance();
+  const exportPath = path.join(getExportRoot(), `${schemaName}_${Date.now()}`);
+  await fs.mkdir(exportPath, { recursive: true });
+
+  const organization = await schemaService.sharedDb.organization.findUnique({
+    where: { schemaName },
+    select: { id: true, name: true, contactEmail: true, address: true, website: true, settings: true }
+  });
+
+  const migrations: { migration_name: string; checksum: string }[] = await schemaService.sharedDb.$queryRawUnsafe(
+    `SELECT migration_name, checksum FROM ${quoteIdent(schemaName)}."_prisma_migrations" WHERE rolled_back_at IS NULL ORDER BY started_at ASC`
+  );
+
+  const plans = await buildLoadPlan(schemaName, await listTenantTables(schemaName));
+  const tables: TenantArchiveManifest['tables'] = [];
+
+  if (format === 'jsonl') {
+    for (const plan of plans) {
+      const file = `${plan.table}.jsonl`;
+      const filePath = path.join(exportPath, file);
+      await fs.writeFile(filePath, '', 'utf8');
+
+      let count = 0;
+      for await (const page of readTableRows(schemaName, plan)) {
+        await fs.appendFile(filePath, page.map(row => JSON.stringify(row)).join('\n') + '\n', 'utf8');
+        count += page.length;
+      }
+      tables.push({ table: plan.table, rows: count, file });
+    }
+  } else {
+    // Table names are unqualified; the importer sets search_path to the target schema
+    const filePath = path.join(exportPath, SQL_DATA_FILE);
+    await fs.writeFile(filePath, `-- ForPharma tenant export of ${schemaName}, format version ${TENANT_ARCHIVE_FORMAT_VERSION}\n`, 'utf8');
+    const deferredUpdates: string[] = [];
+
+    for (const plan of plans) {
+      let count = 0;
+      for await (const page of readTableRows(schemaName, plan)) {
+        const statements = page.map(row => {
+          if (plan.deferredColumns.some(c => row[c] !== null && row[c] !== undefined)) {
+            const assignments = plan.deferredColumns.map(c => `${quoteIdent(c)} = src.${quoteIdent(c)}`).join(', ');
+            const match = plan.primaryKey.map(c => `t.${quoteIdent(c)} = src.${quoteIdent(c)}`).join(' AND ');
+            deferredUpdates.push(
+              `UPDATE ${quoteIdent(plan.table)} AS t SET ${assignments} FROM json_populate_record(NULL::${quoteIdent(plan.table)}, ${quoteLiteral(JSON.stringify(row))}) AS src WHERE ${match};`
+            );
+          }
+          const insertRow = { ...row };
+          plan.deferredColumns.forEach(c => { insertRow[c] = null; });
+          return `INSERT INTO ${quoteIdent(plan.table)} SELECT * FROM json_populate_record(NULL::${quoteIdent(plan.table)}, ${quoteLiteral(JSON.stringify(insertRow))});`;
+        });
+        await fs.appendFile(filePath, statements.join('\n') + '\n', 'utf8');
+        count += page.length;
+      }
+      tables.push({ table: plan.table, rows: count, file: SQL_DATA_FILE });
+    }
+
+    if (deferredUpdates.length > 0) {
+      await fs.appendFile(filePath, deferredUpdates.join('\n') + '\n', 'utf8');
+    }
+  }
+
+  const manifest: TenantArchiveManifest = {
+    formatVersion: TENANT_ARCHIVE_FORMAT_VERSION,
+    format,
+    exportedAt: new Date().toISOString(),
+    source: {
+      organizationId: organization?.id || null,
+      organizationName: organization?.name || null,
+      contactEmail: organization?.contactEmail || null,
+      address: organization?.address || null,
+      website: organization?.website || null,
+      settings: organization?.settings ?? null,
+      schemaName
+    },
+    migrations: migrations.map(m => ({ name: m.migration_name, checksum: m.checksum })),
+    tables
+  };
+  await fs.writeFile(path.join(exportPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf8');
+
+  const checksum = await computeArchiveChecksum(exportPath);
+
+  console.log(`📦 Exported ${tables.length} tables (${format}) from schema ${schemaName} to ${exportPath} (sha256 ${checksum})`);
+  return { schemaName, exportPath, manifest, checksum };
+}
+
+/**
+ * sha256 over the name and content of every file in an archive, in name order.
+ */
+export async function computeArchiveChecksum(archivePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const files = (await fs.readdir(archivePath, { withFileTypes: true }))
+    .filter(entry => entry.isFile())
+    .map(entry => entry.name)
+    .sort();
+
+  for (const file of files) {
+    hash.update(`${file}\0`);
+    hash.update(await fs.readFile(path.join(archivePath, file)));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Checks that an archive is a complete, unmodified export of a schema before the schema is dropped:
+ * the checksum must match the one reported at export time, the archive must come from this schema,
+ * and it must hold every table with the row count the schema has now.
+ * @throws TenantArchiveVerificationError when any check fails.
+ */
+export async function verifyTenantArchive(archivePath: string, checksum: string, schemaName: string): Promise<TenantArchiveManifest> {
+  let manifest: TenantArchiveManifest;
+  try {
+    manifest = await readTenantArchiveManifest(archivePath);
+  } catch (error: any) {
+    throw new TenantArchiveVerificationError(error.code === 'ENOENT' ? 'Archive not found' : `Archive is unreadable: ${error.message}`);
+  }
+
+  if (await computeArchiveChecksum(archivePath) !== checksum.toLowerCase()) {
+    throw new TenantArchiveVerificationError('Archive checksum does not match');
+  }
+  if (manifest.source.schemaName !== schemaName) {
+    throw new TenantArchiveVerificationError(`Archive was exported from ${manifest.source.schemaName}, not ${schemaName}`);
+  }
+
+  const sharedDb = SchemaManagementService.getInstance().sharedDb;
+  for (const table of await listTenantTables(schemaName)) {
+    const entry = manifest.tables.find(t => t.table === table);
+    if (!entry) {
+      throw new TenantArchiveVerificationError(`Archive does not contain table ${table}`);
+    }
+
+    const [{ count }]: { count: number }[] = await sharedDb.$queryRawUnsafe(
+      `SELECT count(*)::int AS count FROM ${quoteIdent(schemaName)}.${quoteIdent(table)}`
+    );
+    if (count !== entry.rows) {
+      throw new TenantArchiveVerificationError(`Table ${table} has ${count} rows but the archive has ${entry.rows}; export again`);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Reads and validates an archive manifest.
+ */
+export async function readTenantArchiveManifest(archivePath: string): Promise<TenantArchiveManifest> {
+  const manifest: TenantArchiveManifest = JSON.parse(await fs.readFile(path.join(archivePath, MANIFEST_FILE), 'utf8'));
+
+  if (manifest.formatVersion !== TENANT_ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Unsupported archive format version ${manifest.formatVersion} (expected ${TENANT_ARCHIVE_FORMAT_VERSION})`);
+  }
+  if (manifest.format !== 'jsonl' && manifest.format !== 'sql') {
+    throw new Error(`Unsupported archive format ${manifest.format}`);
+  }
+  return manifest;
+}
+
+/**
+ * Restores an archive into a new organization with a fresh schema created by createOrganizationSchema.
+ * All rows are loaded in one transaction and `organization_id` columns are rewritten to the new
+ * organization. Shared-database users are not part of the archive and are not created.
+ * If anything fails, the new schema and organization row are removed again.
+ * @param archivePath Directory produced by exportTenantSchema.
+ * @param options Name of the new organization and migration compatibility override.
+ */
+export async function importTenantArchive(archivePath: string, options: TenantImportOptions): Promise<TenantImportResult> {
+  const schemaService = SchemaManagementService.getInstance();
+  const manifest = await readTenantArchiveManifest(archivePath);
+
+  // The archive must have been taken at the migration level new schemas are created with
+  const current = schemaService.getLoadedMigrations().map(m => ({ name: m.name, checksum: m.checksum }));
+  const matches = current.length === manifest.migrations.length &&
+    current.every((m, i) => m.name === manifest.migrations[i].name && m.checksum === manifest.migrations[i].checksum);
+  if (!matches && !options.allowMigrationMismatch) {
+    throw new Error('Archive was exported at a different migration level than the current tenant migrations');
+  }
+
+  const contactEmail = options.contactEmail || manifest.source.contactEmail;
+  if (!contactEmail) {
+    throw new Error('contactEmail is required because the archive does not contain one');
+  }
+
+  const organization = await schemaService.sharedDb.organization.create({
+    data: {
+      name: options.organizationName,
+      contactEmail,
+      address: manifest.source.address,
+      website: manifest.source.website,
+      settings: manifest.source.settings ?? undefined
+    }
+  });
+
+  let schemaName: string | null = null;
+  try {
+    schemaName = await schemaService.createOrganizationSchema(organization.id, organization.name);
+    const targetSchema = schemaName;
+    const plans = await buildLoadPlan(targetSchema, await listTenantTables(targetSchema));
+    const tables: TenantImportResult['tables'] = [];
+
+    await schemaService.sharedDb.$transaction(async (tx) => {
+      if (manifest.format === 'sql') {
+        await tx.$executeRawUnsafe(`SET LOCAL search_path TO ${quoteIdent(targetSchema)}`);
+        const sql = await fs.readFile(path.join(archivePath, SQL_DATA_FILE), 'utf8');
+        // Each statement was written on a single line
+        for (const line of sql.split('\n')) {
+          const statement = line.trim();
+          if (!statement || statement.startsWith('--')) continue;
+          await tx.$executeRawUnsafe(statement);
+        }
+        manifest.tables.forEach(t => tables.push({ table: t.table, rows: t.rows }));
+      } else {
+        const deferredRows = new Map<string, Record<string, unknown>[]>();
+
+        for (const plan of plans) {
+          const entry = manifest.tables.find(t => t.table === plan.table);
+          if (!entry) continue;
+
+          const content = await fs.readFile(path.join(archivePath, entry.file), 'utf8');
+          const rows: Record<string, unknown>[] = content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+          const withDeferred = rows.filter(row => plan.deferredColumns.some(c => row[c] !== null && row[c] !== undefined));
+          if (withDeferred.length > 0) deferredRows.set(plan.table, withDeferred);
+
+          for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+            const batch = rows.slice(i, i + INSERT_BATCH_SIZE).map(row => {
+              const insertRow = { ...row };
+              plan.deferredColumns.forEach(c => { insertRow[c] = null; });
+              return insertRow;
+            });
+            const table = `${quoteIdent(targetSchema)}.${quoteIdent(plan.table)}`;
+            await tx.$executeRawUnsafe(
+              `INSERT INTO ${table} SELECT * FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb)`,
+              JSON.stringify(batch)
+            );
+          }
+          tables.push({ table: plan.table, rows: rows.length });
+        }
+
+        // Fill in nullable foreign keys now that every referenced row exists
+        for (const plan of plans) {
+          const rows = deferredRows.get(plan.table);
+          if (!rows) continue;
+
+          const table = `${quoteIdent(targetSchema)}.${quoteIdent(plan.table)}`;
+          const assignments = plan.deferredColumns.map(c => `${quoteIdent(c)} = src.${quoteIdent(c)}`).join(', ');
+          const match = plan.primaryKey.map(c => `t.${quoteIdent(c)} = src.${quoteIdent(c)}`).join(' AND ');
+          for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+            await tx.$executeRawUnsafe(
+              `UPDATE ${table} AS t SET ${assignments} FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb) AS src WHERE ${match}`,
+              JSON.stringify(rows.slice(i, i + INSERT_BATCH_SIZE))
+            );
+          }
+        }
+      }
+
+      // Point every row at the new organization
+      const organizationTables: { table_name: string }[] = await tx.$queryRaw`
+        SELECT table_name
+        FROM information_schema.columns
+        WHERE table_schema = ${targetSchema}
+        AND column_name = 'organization_id';
+      `;
+      for (const { table_name } of organizationTables) {
+        await tx.$executeRawUnsafe(
+          `UPDATE ${quoteIdent(targetSchema)}.${quoteIdent(table_name)} SET organization_id = $1`,
+          organization.id
+        );
+      }
+    }, { timeout: 10 * 60 * 1000, maxWait: 30 * 1000 });
+
+    console.log(`📥 Imported archive ${archivePath} into schema ${targetSchema} for organization ${organization.name}`);
+    return { organizationId: organization.id, organizationName: organization.name, schemaName: targetSchema, tables };
+  } catch (error) {
+    console.error('❌ Tenant import failed, cleaning up:', error);
+    if (schemaName) {
+      try {
+        await schemaService.dropOrganizationSchema(schemaName);
+      } catch (cleanupError) {
+        console.error('Failed to drop schema of failed import:', cleanupError);
+      }
+    }
+    await schemaService.sharedDb.organization.delete({ where: { id: organization.id } }).catch(cleanupError => {
+      console.error('Failed to delete organization of failed import:', cleanupError);
+    });
+    throw error;
+  }
+}
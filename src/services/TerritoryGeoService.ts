@@ -0,0 +1,202 @@
+import { TerritoryError, validateBoundaries } from './TerritoryService.js';
+import {
+  approximateArea,
+  BoundaryGeometry,
+  boundingBox,
+  BoundingBox,
+  boxContains,
+  geometryContains,
+  GeoJsonError,
+  normalizeBoundaries
+} from '../utils/geo.js';
+import { PrismaClient as TenantPrismaClient, Territory } from '../../generated/prisma-tenant/index.js';
+
+export interface TerritoryRef {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export type LocationKind = 'hospital' | 'chemist';
+
+export interface TerritoryMismatch {
+  kind: LocationKind;
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  assignedTerritory: TerritoryRef;
+  suggestedTerritory: TerritoryRef | null; // Null when no territory's boundaries contain the point
+}
+
+interface BoundedTerritory extends TerritoryRef {
+  depth: number;
+  geometry: BoundaryGeometry;
+  box: BoundingBox;
+  area: number;
+}
+
+/**
+ * Territories that have boundaries, prepared for point lookups. Boundaries that no longer parse
+ * (e.g. written before they were validated) are left out with a warning.
+ */
+async function loadBoundedTerritories(tenantDb: TenantPrismaClient): Promise<BoundedTerritory[]> {
+  const territories = await tenantDb.territory.findMany({
+    select: { id: true, name: true, type: true, parentTerritoryId: true, boundaries: true }
+  });
+
+  const parentOf = new Map(territories.map(t => [t.id, t.parentTerritoryId]));
+  const depthOf = (id: string) => {
+    let depth = 0;
+    for (let parent = parentOf.get(id); parent && depth < territories.length; parent = parentOf.get(parent)) {
+      depth++;
+    }
+    return depth;
+  };
+
+  const bounded: BoundedTerritory[] = [];
+  for (const territory of territories) {
+    if (!territory.boundaries) continue;
+
+    let geometry: BoundaryGeometry;
+    try {
+      geometry = normalizeBoundaries(territory.boundaries);
+    } catch (error) {
+      if (!(error instanceof GeoJsonError)) throw error;
+      console.warn(`⚠️ Ignoring invalid boundaries of territory ${territory.id}: ${error.message}`);
+      continue;
+    }
+
+    bounded.push({
+      id: territory.id,
+      name: territory.name,
+      type: territory.type,
+      depth: depthOf(territory.id),
+      geometry,
+      box: boundingBox(geometry),
+      area: approximateArea(geometry)
+    });
+  }
+  return bounded;
+}
+
+/**
+ * The territories containing a point, the most specific first: deepest in the hierarchy, then smallest.
+ */
+const territoriesAt = (bounded: BoundedTerritory[], latitude: number, longitude: number) =>
+  bounded
+    .filter(t => boxContains(t.box, longitude, latitude) && geometryContains(t.geometry, longitude, latitude))
+    .sort((a, b) => b.depth - a.depth || a.area - b.area);
+
+const toRef = ({ id, name, type }: TerritoryRef): TerritoryRef => ({ id, name, type });
+
+const assertCoordinates = (latitude: number, longitude: number) => {
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90 || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new TerritoryError('lat must be between -90 and 90 and lng between -180 and 180', 400);
+  }
+};
+
+/**
+ * Which territories contain a point.
+ * @returns The most specific territory (or null) and every containing territory, most specific first.
+ */
+export async function locatePoint(tenantDb: TenantPrismaClient, latitude: number, longitude: number) {
+  assertCoordinates(latitude, longitude);
+
+  const matches = territoriesAt(await loadBoundedTerritories(tenantDb), latitude, longitude).map(toRef);
+  return { territory: matches[0] || null, matches };
+}
+
+/**
+ * The territory a new hospital or chemist at these coordinates belongs in, or null if none contains them.
+ */
+export async function suggestTerritoryId(tenantDb: TenantPrismaClient, latitude: number, longitude: number): Promise<string | null> {
+  const { territory } = await locatePoint(tenantDb, latitude, longitude);
+  return territory?.id || null;
+}
+
+/**
+ * Sets or replaces a territory's boundaries from GeoJSON (Polygon, MultiPolygon, Feature or FeatureCollection).
+ */
+export async function setTerritoryBoundaries(tenantDb: TenantPrismaClient, territoryId: string, geoJson: unknown): Promise<Territory> {
+  const boundaries = validateBoundaries(geoJson ?? null);
+
+  const territory = await tenantDb.territory.findUnique({ where: { id: territoryId }, select: { id: true } });
+  if (!territory) {
+    throw new TerritoryError('Territory not found', 404);
+  }
+
+  return tenantDb.territory.update({ where: { id: territoryId }, data: { boundaries } });
+}
+
+/**
+ * Active hospitals and chemists with coordinates whose assigned territory has boundaries that do not
+ * contain them. Those assigned to territories without boundaries cannot be checked and are only counted.
+ */
+export async function findTerritoryMismatches(tenantDb: TenantPrismaClient): Promise<{
+  mismatches: TerritoryMismatch[];
+  checked: number;
+  unchecked: number;
+}> {
+  const [bounded, hospitals, chemists] = await Promise.all([
+    loadBoundedTerritories(tenantDb),
+    tenantDb.hospital.findMany({
+      where: { isActive: true, latitude: { not: null }, longitude: { not: null } },
+      select: { id: true, name: true, latitude: true, longitude: true, territory: { select: { id: true, name: true, type: true } } }
+    }),
+    tenantDb.chemist.findMany({
+      where: { isActive: true, latitude: { not: null }, longitude: { not: null } },
+      select: { id: true, name: true, latitude: true, longitude: true, territory: { select: { id: true, name: true, type: true } } }
+    })
+  ]);
+
+  const boundedById = new Map(bounded.map(t => [t.id, t]));
+  const locations = [
+    ...hospitals.map(h => ({ ...h, kind: 'hospital' as const })),
+    ...chemists.map(c => ({ ...c, kind: 'chemist' as const }))
+  ];
+
+  const mismatches: TerritoryMismatch[] = [];
+  let checked = 0;
+  for (const location of locations) {
+    const assigned = boundedById.get(location.territory.id);
+    if (!assigned) continue;
+    checked++;
+
+    const latitude = Number(location.latitude);
+    const longitude = Number(location.longitude);
+    if (geometryContains(assigned.geometry, longitude, latitude)) continue;
+
+    const suggested = territoriesAt(bounded, latitude, longitude)[0];
+    mismatches.push({
+      kind: location.kind,
+      id: location.id,
+      name: location.name,
+      latitude,
+      longitude,
+      assignedTerritory: location.territory,
+      suggestedTerritory: suggested ? toRef(suggested) : null
+    });
+  }
+
+  return { mismatches, checked, unchecked: locations.length - checked };
+}
+
+/**
+ * Moves every mismatched hospital and chemist that has a suggested territory into it.
+ * @param dryRun Only report what would be moved.
+ */
+export async function reassignMismatchedLocations(tenantDb: TenantPrismaClient, dryRun: boolean) {
+  const { mismatches } = await findTerritoryMismatches(tenantDb);
+  const reassigned = mismatches.filter(m => m.suggestedTerritory);
+  const skipped = mismatches.filter(m => !m.suggestedTerritory);
+
+  if (!dryRun && reassigned.length > 0) {
+    await tenantDb.$transaction(reassigned.map(m => m.kind === 'hospital'
+      ? tenantDb.hospital.update({ where: { id: m.id }, data: { territoryId: m.suggestedTerritory!.id } })
+      : tenantDb.chemist.update({ where: { id: m.id }, data: { territoryId: m.suggestedTerritory!.id } })));
+    console.log(`🗺️ Reassigned ${reassigned.length} hospitals and chemists to the territories containing them`);
+  }
+
+  return { dryRun, reassigned, skipped };
+}
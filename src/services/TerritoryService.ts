@@ -0,0 +1,456 @@
+import { GeoJsonError, normalizeBoundaries } from '../utils/geo.js';
+import { Prisma, PrismaClient as TenantPrismaClient, Territory } from '../../generated/prisma-tenant/index.js';
+
+// Territory types in order from the widest to the narrowest; a child may not be wider than its parent
+export const TERRITORY_TYPES = ['region', 'state', 'city', 'area'] as const;
+
+export type TerritoryType = typeof TERRITORY_TYPES[number];
+
+export interface TerritoryInput {
+  name: string;
+  type: TerritoryType;
+  parentTerritoryId?: string | null;
+  boundaries?: unknown; // GeoJSON; null removes them
+}
+
+export interface TerritoryCounts {
+  childTerritories: number;
+  hospitals: number;
+  chemists: number;
+  activeEmployees: number;
+}
+
+export interface TerritoryTreeNode {
+  id: string;
+  name: string;
+  type: string;
+  parentTerritoryId: string | null;
+  counts: TerritoryCounts;
+  children: TerritoryTreeNode[];
+}
+
+export interface MergeResult {
+  territory: Territory;
+  moved: {
+    childTerritories: number;
+    hospitals: number;
+    chemists: number;
+    employeeAssignments: number;
+  };
+  // Employees who were already assigned to the target; their assignment to the merged territory was closed
+  closedAssignments: number;
+}
+
+type TenantTransaction = Prisma.TransactionClient;
+
+/**
+ * Raised when a territory request cannot be carried out; statusCode is the HTTP status to answer with.
+ */
+export class TerritoryError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'TerritoryError';
+    this.statusCode = statusCode;
+  }
+}
+
+const isTerritoryType = (value: unknown): value is TerritoryType => TERRITORY_TYPES.includes(value as TerritoryType);
+
+const typeRank = (type: string) => TERRITORY_TYPES.indexOf(type as TerritoryType);
+
+const validateName = (name: unknown) => {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 255) {
+    throw new TerritoryError('name is required (at most 255 characters)', 400);
+  }
+  return name.trim();
+};
+
+const validateType = (type: unknown) => {
+  if (!isTerritoryType(type)) {
+    throw new TerritoryError(`type must be one of: ${TERRITORY_TYPES.join(', ')}`, 400);
+  }
+  return type;
+};
+
+/**
+ * Boundaries are stored as one GeoJSON MultiPolygon whatever shape they were uploaded in.
+ */
+export const validateBoundaries = (boundaries: unknown) => {
+  if (boundaries === undefined) {
+    return undefined;
+  }
+  if (boundaries === null) {
+    return Prisma.DbNull;
+  }
+  try {
+    return normalizeBoundaries(boundaries) as unknown as Prisma.InputJsonValue;
+  } catch (error) {
+    if (error instanceof GeoJsonError) {
+      throw new TerritoryError(error.message, 400);
+    }
+    throw error;
+  }
+};
+
+const assertTypeFitsParent = (type: string, parent: Territory | null) => {
+  if (parent && typeRank(parent.type) >= 0 && typeRank(type) >= 0 && typeRank(type) < typeRank(parent.type)) {
+    throw new TerritoryError(`A ${type} cannot be placed inside a ${parent.type}`, 400);
+  }
+};
+
+const findTerritory = async (db: TenantPrismaClient | TenantTransaction, territoryId: string) => {
+  const territory = await db.territory.findUnique({ where: { id: territoryId } });
+  if (!territory) {
+    throw new TerritoryError('Territory not found', 404);
+  }
+  return territory;
+};
+
+/**
+ * The ids of the given territories and everything below them, read from one query of the whole hierarchy.
+ */
+export async function expandTerritoryIds(db: TenantPrismaClient | TenantTransaction, rootIds: string[]): Promise<string[]> {
+  if (rootIds.length === 0) {
+    return [];
+  }
+
+  const all = await db.territory.findMany({ select: { id: true, parentTerritoryId: true } });
+
+  const childrenOf = new Map<string, string[]>();
+  for (const territory of all) {
+    if (!territory.parentTerritoryId) continue;
+    childrenOf.set(territory.parentTerritoryId, [...(childrenOf.get(territory.parentTerritoryId) || []), territory.id]);
+  }
+
+  const ids = new Set<string>();
+  const queue = [...rootIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ids.has(id)) continue;
+    ids.add(id);
+    queue.push(...(childrenOf.get(id) || []));
+  }
+  return [...ids];
+}
+
+/**
+ * The ids of a territory and everything below it.
+ */
+export async function getSubtreeIds(db: TenantPrismaClient | TenantTransaction, territoryId: string): Promise<string[]> {
+  return expandTerritoryIds(db, [territoryId]);
+}
+
+/**
+ * Assignments in effect at a moment: started on or before it and not ended by then. Transfers end one
+ * assignment and start the next on their effective date, which may lie in the future, so "current"
+ * means active now rather than merely not yet ended.
+ */
+export const assignmentActiveAt = (asOf: Date = new Date()): Prisma.EmployeeTerritoryWhereInput => ({
+  assignedAt: { lte: asOf },
+  OR: [{ unassignedAt: null }, { unassignedAt: { gt: asOf } }]
+});
+
+/**
+ * Per-territory counts of children, hospitals, chemists and currently assigned employees.
+ */
+async function countByTerritory(tenantDb: TenantPrismaClient, territoryIds?: string[]): Promise<Map<string, TerritoryCounts>> {
+  const inIds = territoryIds ? { in: territoryIds } : undefined;
+
+  const [children, hospitals, chemists, employees] = await Promise.all([
+    tenantDb.territory.groupBy({ by: ['parentTerritoryId'], where: { parentTerritoryId: inIds ?? { not: null } }, _count: { _all: true } }),
+    tenantDb.hospital.groupBy({ by: ['territoryId'], where: { territoryId: inIds }, _count: { _all: true } }),
+    tenantDb.chemist.groupBy({ by: ['territoryId'], where: { territoryId: inIds }, _count: { _all: true } }),
+    tenantDb.employeeTerritory.groupBy({ by: ['territoryId'], where: { territoryId: inIds, ...assignmentActiveAt() }, _count: { _all: true } })
+  ]);
+
+  const counts = new Map<string, TerritoryCounts>();
+  const entry = (id: string) => {
+    if (!counts.has(id)) {
+      counts.set(id, { childTerritories: 0, hospitals: 0, chemists: 0, activeEmployees: 0 });
+    }
+    return counts.get(id)!;
+  };
+
+  children.forEach(row => { entry(row.parentTerritoryId!).childTerritories = row._count._all; });
+  hospitals.forEach(row => { entry(row.territoryId).hospitals = row._count._all; });
+  chemists.forEach(row => { entry(row.territoryId).chemists = row._count._all; });
+  employees.forEach(row => { entry(row.territoryId).activeEmployees = row._count._all; });
+  return counts;
+}
+
+const emptyCounts = (): TerritoryCounts => ({ childTerritories: 0, hospitals: 0, chemists: 0, activeEmployees: 0 });
+
+/**
+ * Lists territories, optionally filtered, with their counts.
+ */
+export async function listTerritories(
+  tenantDb: TenantPrismaClient,
+  filter: { type?: string; parentTerritoryId?: string | null; search?: string }
+) {
+  const territories = await tenantDb.territory.findMany({
+    where: {
+      ...(filter.type && { type: filter.type }),
+      ...(filter.parentTerritoryId !== undefined && { parentTerritoryId: filter.parentTerritoryId }),
+      ...(filter.search && { name: { contains: filter.search, mode: 'insensitive' as const } })
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const counts = await countByTerritory(tenantDb, territories.map(t => t.id));
+  return territories.map(territory => ({ ...territory, counts: counts.get(territory.id) || emptyCounts() }));
+}
+
+/**
+ * The territory hierarchy as nested nodes, from the top-level territories or from one territory down.
+ */
+export async function getTerritoryTree(tenantDb: TenantPrismaClient, rootTerritoryId?: string): Promise<TerritoryTreeNode[]> {
+  const [territories, counts] = await Promise.all([
+    tenantDb.territory.findMany({
+      select: { id: true, name: true, type: true, parentTerritoryId: true },
+      orderBy: { name: 'asc' }
+    }),
+    countByTerritory(tenantDb)
+  ]);
+
+  const nodes = new Map<string, TerritoryTreeNode>(territories.map(territory => [
+    territory.id,
+    { ...territory, counts: counts.get(territory.id) || emptyCounts(), children: [] }
+  ]));
+
+  const roots: TerritoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentTerritoryId ? nodes.get(node.parentTerritoryId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  if (rootTerritoryId) {
+    const root = nodes.get(rootTerritoryId);
+    if (!root) {
+      throw new TerritoryError('Territory not found', 404);
+    }
+    return [root];
+  }
+  return roots;
+}
+
+/**
+ * One territory with its parent, children, ancestors (top first) and counts.
+ */
+export async function getTerritory(tenantDb: TenantPrismaClient, territoryId: string) {
+  const territory = await tenantDb.territory.findUnique({
+    where: { id: territoryId },
+    include: {
+      parentTerritory: { select: { id: true, name: true, type: true } },
+      childTerritories: { select: { id: true, name: true, type: true }, orderBy: { name: 'asc' } }
+    }
+  });
+  if (!territory) {
+    throw new TerritoryError('Territory not found', 404);
+  }
+
+  const ancestors: { id: string; name: string; type: string }[] = [];
+  let parentId = territory.parentTerritoryId;
+  while (parentId) {
+    const parent = await tenantDb.territory.findUnique({
+      where: { id: parentId },
+      select: { id: true, name: true, type: true, parentTerritoryId: true }
+    });
+    if (!parent) break;
+    ancestors.unshift({ id: parent.id, name: parent.name, type: parent.type });
+    parentId = parent.parentTerritoryId;
+  }
+
+  const counts = await countByTerritory(tenantDb, [territoryId]);
+  return { ...territory, ancestors, counts: counts.get(territoryId) || emptyCounts() };
+}
+
+/**
+ * Creates a territory, at the top level or below an existing one.
+ */
+export async function createTerritory(tenantDb: TenantPrismaClient, organizationId: string, input: TerritoryInput): Promise<Territory> {
+  const name = validateName(input.name);
+  const type = validateType(input.type);
+  const boundaries = validateBoundaries(input.boundaries);
+
+  const parent = input.parentTerritoryId ? await findTerritory(tenantDb, input.parentTerritoryId) : null;
+  assertTypeFitsParent(type, parent);
+
+  const territory = await tenantDb.territory.create({
+    data: {
+      organizationId,
+      name,
+      type,
+      parentTerritoryId: parent?.id,
+      boundaries
+    }
+  });
+
+  console.log(`🗺️ Created ${type} territory "${name}" (${territory.id})`);
+  return territory;
+}
+
+/**
+ * Renames a territory or changes its type or boundaries. Its place in the hierarchy changes through moveTerritory.
+ */
+export async function updateTerritory(
+  tenantDb: TenantPrismaClient,
+  territoryId: string,
+  changes: Partial<Omit<TerritoryInput, 'parentTerritoryId'>>
+): Promise<Territory> {
+  const territory = await findTerritory(tenantDb, territoryId);
+
+  const name = changes.name !== undefined ? validateName(changes.name) : undefined;
+  const type = changes.type !== undefined ? validateType(changes.type) : undefined;
+  const boundaries = validateBoundaries(changes.boundaries);
+
+  if (type && type !== territory.type) {
+    const parent = territory.parentTerritoryId ? await findTerritory(tenantDb, territory.parentTerritoryId) : null;
+    assertTypeFitsParent(type, parent);
+
+    const narrowerChild = await tenantDb.territory.findFirst({
+      where: {
+        parentTerritoryId: territoryId,
+        type: { in: TERRITORY_TYPES.slice(0, typeRank(type)) as string[] }
+      },
+      select: { name: true, type: true }
+    });
+    if (narrowerChild) {
+      throw new TerritoryError(`"${narrowerChild.name}" (${narrowerChild.type}) cannot be inside a ${type}`, 400);
+    }
+  }
+
+  return tenantDb.territory.update({
+    where: { id: territoryId },
+    data: { name, type, boundaries }
+  });
+}
+
+/**
+ * Deletes a territory that has nothing attached. Territories with children, hospitals, chemists or
+ * employee assignments (current or past) must be merged into another one instead (409).
+ */
+export async function deleteTerritory(tenantDb: TenantPrismaClient, territoryId: string): Promise<void> {
+  await findTerritory(tenantDb, territoryId);
+
+  const [children, hospitals, chemists, assignments] = await Promise.all([
+    tenantDb.territory.count({ where: { parentTerritoryId: territoryId } }),
+    tenantDb.hospital.count({ where: { territoryId } }),
+    tenantDb.chemist.count({ where: { territoryId } }),
+    tenantDb.employeeTerritory.count({ where: { territoryId } })
+  ]);
+
+  if (children + hospitals + chemists + assignments > 0) {
+    throw new TerritoryError(
+      `Territory has ${children} child territories, ${hospitals} hospitals, ${chemists} chemists and ` +
+      `${assignments} employee assignments; merge it into another territory instead`,
+      409
+    );
+  }
+
+  await tenantDb.territory.delete({ where: { id: territoryId } });
+  console.log(`🗑️ Deleted territory ${territoryId}`);
+}
+
+/**
+ * Moves a territory, with everything below it, under a new parent or to the top level (null).
+ */
+export async function moveTerritory(tenantDb: TenantPrismaClient, territoryId: string, newParentId: string | null): Promise<Territory> {
+  return tenantDb.$transaction(async (tx) => {
+    const territory = await findTerritory(tx, territoryId);
+
+    if (newParentId) {
+      const parent = await findTerritory(tx, newParentId);
+      const subtree = await getSubtreeIds(tx, territoryId);
+      if (subtree.includes(newParentId)) {
+        throw new TerritoryError('A territory cannot be moved below itself or one of its descendants', 400);
+      }
+      assertTypeFitsParent(territory.type, parent);
+    }
+
+    const moved = await tx.territory.update({
+      where: { id: territoryId },
+      data: { parentTerritoryId: newParentId }
+    });
+
+    console.log(`🗺️ Moved territory "${territory.name}" from ${territory.parentTerritoryId || 'top level'} to ${newParentId || 'top level'}`);
+    return moved;
+  });
+}
+
+/**
+ * Merges one territory into another: its child territories, hospitals, chemists and employee
+ * assignments move to the target, and the merged territory is deleted.
+ * An employee assigned to both keeps the target assignment (made primary if the merged one was)
+ * and the merged assignment is kept as closed history.
+ */
+export async function mergeTerritory(tenantDb: TenantPrismaClient, sourceId: string, targetId: string): Promise<MergeResult> {
+  if (sourceId === targetId) {
+    throw new TerritoryError('A territory cannot be merged into itself', 400);
+  }
+
+  return tenantDb.$transaction(async (tx) => {
+    const source = await findTerritory(tx, sourceId);
+    const target = await findTerritory(tx, targetId);
+
+    const subtree = await getSubtreeIds(tx, sourceId);
+    if (subtree.includes(targetId)) {
+      throw new TerritoryError('A territory cannot be merged into one of its descendants; move the descendant out first', 400);
+    }
+
+    const now = new Date();
+
+    // Employees already assigned to the target keep that assignment
+    const targetAssignments = await tx.employeeTerritory.findMany({
+      where: { territoryId: targetId, unassignedAt: null },
+      select: { id: true, employeeId: true, isPrimary: true }
+    });
+    const targetByEmployee = new Map(targetAssignments.map(a => [a.employeeId, a]));
+
+    const duplicates = await tx.employeeTerritory.findMany({
+      where: { territoryId: sourceId, unassignedAt: null, employeeId: { in: [...targetByEmployee.keys()] } },
+      select: { id: true, employeeId: true, isPrimary: true }
+    });
+
+    for (const duplicate of duplicates) {
+      const kept = targetByEmployee.get(duplicate.employeeId)!;
+      if (duplicate.isPrimary && !kept.isPrimary) {
+        await tx.employeeTerritory.update({ where: { id: kept.id }, data: { isPrimary: true } });
+      }
+    }
+    if (duplicates.length > 0) {
+      await tx.employeeTerritory.updateMany({
+        where: { id: { in: duplicates.map(d => d.id) } },
+        data: { unassignedAt: now, isPrimary: false }
+      });
+    }
+
+    // One statement at a time: an interactive transaction runs on a single connection
+    const childTerritories = await tx.territory.updateMany({ where: { parentTerritoryId: sourceId }, data: { parentTerritoryId: targetId } });
+    const hospitals = await tx.hospital.updateMany({ where: { territoryId: sourceId }, data: { territoryId: targetId } });
+    const chemists = await tx.chemist.updateMany({ where: { territoryId: sourceId }, data: { territoryId: targetId } });
+    const employeeAssignments = await tx.employeeTerritory.updateMany({ where: { territoryId: sourceId }, data: { territoryId: targetId } });
+    // Transfer history follows the territory it refers to
+    await tx.territoryTransfer.updateMany({ where: { fromTerritoryId: sourceId }, data: { fromTerritoryId: targetId } });
+    await tx.territoryTransfer.updateMany({ where: { toTerritoryId: sourceId }, data: { toTerritoryId: targetId } });
+
+    await tx.territory.delete({ where: { id: sourceId } });
+
+    console.log(`🔀 Merged territory "${source.name}" into "${target.name}"`);
+    return {
+      territory: target,
+      moved: {
+        childTerritories: childTerritories.count,
+        hospitals: hospitals.count,
+        chemists: chemists.count,
+        employeeAssignments: employeeAssignments.count
+      },
+      closedAssignments: duplicates.length
+    };
+  });
+}
@@ -0,0 +1,405 @@
+import { assignmentActiveAt, expandTerritoryIds, getSubtreeIds, TerritoryError } from './TerritoryService.js';
+import {
+  Prisma,
+  PrismaClient as TenantPrismaClient,
+  TransferTaskAction
+} from '../../generated/prisma-tenant/index.js';
+import type { TerritoryRef } from './TerritoryGeoService.js';
+
+export interface TransferInput {
+  employeeId: unknown;
+  fromTerritoryId: unknown;
+  toTerritoryId: unknown;
+  effectiveDate: unknown; // YYYY-MM-DD
+  taskAction?: unknown; // flag (default) or reassign
+  reassignToEmployeeId?: unknown; // Required when reassigning
+  reason?: unknown;
+}
+
+// One stretch of an employee's assignment to a territory; unassignedAt null means open-ended
+export interface AssignmentPeriod {
+  employeeId: string;
+  territory: TerritoryRef;
+  assignedAt: Date;
+  unassignedAt: Date | null;
+  isPrimary: boolean;
+}
+
+type TenantTransaction = Prisma.TransactionClient;
+
+const EMPLOYEE_SUMMARY = { id: true, firstName: true, lastName: true, email: true, role: true } satisfies Prisma.EmployeeSelect;
+const TERRITORY_REF = { id: true, name: true, type: true } satisfies Prisma.TerritorySelect;
+
+const TRANSFER_INCLUDE = {
+  employee: { select: EMPLOYEE_SUMMARY },
+  fromTerritory: { select: TERRITORY_REF },
+  toTerritory: { select: TERRITORY_REF },
+  reassignedTo: { select: EMPLOYEE_SUMMARY },
+  requestedBy: { select: EMPLOYEE_SUMMARY },
+  _count: { select: { doctorTasks: true, chemistTasks: true } }
+} satisfies Prisma.TerritoryTransferInclude;
+
+const TASK_ACTIONS = new Map<string, TransferTaskAction>([['flag', 'FLAG'], ['reassign', 'REASSIGN']]);
+
+/**
+ * Parses a YYYY-MM-DD date as midnight UTC, matching how @db.Date columns are read back.
+ */
+export function parseDateOnly(value: unknown, field: string): Date {
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00.000Z`) : null;
+  // Rejects dates that do not exist, such as 2025-02-30, which Date would roll over
+  if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new TerritoryError(`${field} must be a date in YYYY-MM-DD format`, 400);
+  }
+  return date;
+}
+
+const startOfTodayUtc = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const requireId = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value) {
+    throw new TerritoryError(`${field} is required`, 400);
+  }
+  return value;
+};
+
+/**
+ * Territories the employee stops covering: the old territory and everything below it, except what
+ * also lies under the new one (moving from a region to one of its cities keeps that city).
+ */
+async function territoriesLeft(db: TenantTransaction, fromTerritoryId: string, toTerritoryId: string) {
+  const fromTree = await getSubtreeIds(db, fromTerritoryId);
+  const kept = new Set(await getSubtreeIds(db, toTerritoryId));
+  return fromTree.filter(id => !kept.has(id));
+}
+
+/**
+ * The employee's pending doctor and chemist visits on or after the effective date whose doctor (through
+ * any of their hospitals) or chemist lies in the territories being left.
+ */
+async function findAffectedTasks(db: TenantTransaction, employeeId: string, territoryIds: string[], effectiveDate: Date) {
+  const pending = { employeeId, isActive: true, completionStatus: 'PENDING' as const, taskDate: { gte: effectiveDate } };
+
+  const doctorTasks = await db.doctorTask.findMany({
+    where: { ...pending, doctor: { hospitalAssociations: { some: { hospital: { territoryId: { in: territoryIds } } } } } },
+    select: { id: true, taskDate: true }
+  });
+  const chemistTasks = await db.chemistTask.findMany({
+    where: { ...pending, chemist: { territoryId: { in: territoryIds } } },
+    select: { id: true, taskDate: true }
+  });
+  return { doctorTasks, chemistTasks };
+}
+
+/**
+ * Hands tasks to another employee. Each goes into the assignee's planner covering its date; tasks no
+ * planner covers get a new draft planner spanning them. Reassigned tasks need approval again.
+ */
+async function reassignTasks(
+  db: TenantTransaction,
+  tasks: Awaited<ReturnType<typeof findAffectedTasks>>,
+  assigneeId: string,
+  transferId: string
+) {
+  const all = [...tasks.doctorTasks, ...tasks.chemistTasks];
+  if (all.length === 0) return;
+
+  const planners = await db.taskPlanner.findMany({
+    where: { employeeId: assigneeId, isActive: true },
+    select: { id: true, startDate: true, endDate: true },
+    orderBy: { startDate: 'asc' }
+  });
+  const plannerFor = (date: Date) => planners.find(p => p.startDate <= date && date <= p.endDate)?.id;
+
+  const uncovered = all.filter(task => !plannerFor(task.taskDate)).map(task => task.taskDate.getTime());
+  if (uncovered.length > 0) {
+    const planner = await db.taskPlanner.create({
+      data: {
+        employeeId: assigneeId,
+        startDate: new Date(Math.min(...uncovered)),
+        endDate: new Date(Math.max(...uncovered))
+      },
+      select: { id: true, startDate: true, endDate: true }
+    });
+    planners.push(planner);
+  }
+
+  const data = (taskDate: Date) => ({
+    employeeId: assigneeId,
+    plannerId: plannerFor(taskDate)!,
+    approvalStatus: 'DRAFT' as const,
+    transferId
+  });
+  // Sequential: the updates share the transaction's connection
+  for (const task of tasks.doctorTasks) {
+    await db.doctorTask.update({ where: { id: task.id }, data: data(task.taskDate) });
+  }
+  for (const task of tasks.chemistTasks) {
+    await db.chemistTask.update({ where: { id: task.id }, data: data(task.taskDate) });
+  }
+}
+
+/**
+ * Moves an employee from one territory to another on an effective date, which may be in the past
+ * (recording a move that already happened) or the future (scheduling one). The old assignment ends
+ * and the new one starts on that date; the new one keeps the old one's primary flag.
+ *
+ * Pending visits from the effective date on, in the territories being left, are either flagged for
+ * review (they stay with the employee) or reassigned to an employee who covers the old territory.
+ * @param requestedById Employee id of whoever made the transfer; null for API keys.
+ */
+export async function transferEmployee(tenantDb: TenantPrismaClient, input: TransferInput, requestedById: string | null) {
+  const employeeId = requireId(input.employeeId, 'employeeId');
+  const fromTerritoryId = requireId(input.fromTerritoryId, 'fromTerritoryId');
+  const toTerritoryId = requireId(input.toTerritoryId, 'toTerritoryId');
+  const effectiveDate = parseDateOnly(input.effectiveDate, 'effectiveDate');
+
+  const taskAction = TASK_ACTIONS.get(typeof input.taskAction === 'string' ? input.taskAction.toLowerCase() : 'flag');
+  if (!taskAction) {
+    throw new TerritoryError(`taskAction must be one of: ${[...TASK_ACTIONS.keys()].join(', ')}`, 400);
+  }
+  const reassignToId = taskAction === 'REASSIGN' ? requireId(input.reassignToEmployeeId, 'reassignToEmployeeId') : null;
+  if (input.reason !== undefined && input.reason !== null && typeof input.reason !== 'string') {
+    throw new TerritoryError('reason must be a string', 400);
+  }
+  if (fromTerritoryId === toTerritoryId) {
+    throw new TerritoryError('fromTerritoryId and toTerritoryId must differ', 400);
+  }
+
+  const transfer = await tenantDb.$transaction(async (tx) => {
+    const employee = await tx.employee.findUnique({ where: { id: employeeId }, select: { email: true, isActive: true } });
+    const toTerritory = await tx.territory.findUnique({ where: { id: toTerritoryId }, select: { id: true } });
+    if (!employee) {
+      throw new TerritoryError('Employee not found', 404);
+    }
+    if (!employee.isActive) {
+      throw new TerritoryError('Deactivated employees cannot be transferred', 400);
+    }
+    if (!toTerritory) {
+      throw new TerritoryError('Destination territory not found', 404);
+    }
+
+    const current = await tx.employeeTerritory.findFirst({
+      where: { employeeId, territoryId: fromTerritoryId, unassignedAt: null }
+    });
+    if (!current) {
+      throw new TerritoryError('The employee is not assigned to fromTerritoryId, or a transfer out of it is already scheduled', 409);
+    }
+    if (current.assignedAt >= effectiveDate) {
+      throw new TerritoryError(`effectiveDate must be after the assignment started (${formatDate(current.assignedAt)})`, 400);
+    }
+
+    const alreadyThere = await tx.employeeTerritory.findFirst({
+      where: { employeeId, territoryId: toTerritoryId, unassignedAt: null },
+      select: { id: true }
+    });
+    if (alreadyThere) {
+      throw new TerritoryError('The employee is already assigned to the destination territory', 409);
+    }
+
+    if (reassignToId) {
+      if (reassignToId === employeeId) {
+        throw new TerritoryError('Tasks cannot be reassigned to the employee being transferred', 400);
+      }
+      const assignee = await tx.employee.findUnique({ where: { id: reassignToId }, select: { isActive: true } });
+      if (!assignee?.isActive) {
+        throw new TerritoryError('reassignToEmployeeId must be an active employee', 400);
+      }
+      const covered = await tx.employeeTerritory.findMany({
+        where: { employeeId: reassignToId, ...assignmentActiveAt(effectiveDate) },
+        select: { territoryId: true }
+      });
+      const coveredIds = await expandTerritoryIds(tx, covered.map(a => a.territoryId));
+      if (!coveredIds.includes(fromTerritoryId)) {
+        throw new TerritoryError('reassignToEmployeeId must cover the territory being left on the effective date', 400);
+      }
+    }
+
+    await tx.employeeTerritory.update({ where: { id: current.id }, data: { unassignedAt: effectiveDate } });
+    await tx.employeeTerritory.create({
+      data: { employeeId, territoryId: toTerritoryId, assignedAt: effectiveDate, isPrimary: current.isPrimary }
+    });
+
+    const created = await tx.territoryTransfer.create({
+      data: {
+        employeeId,
+        fromTerritoryId,
+        toTerritoryId,
+        effectiveDate,
+        taskAction,
+        reassignedToId: reassignToId,
+        reason: typeof input.reason === 'string' ? input.reason.trim() || null : null,
+        requestedById
+      }
+    });
+
+    const tasks = await findAffectedTasks(tx, employeeId, await territoriesLeft(tx, fromTerritoryId, toTerritoryId), effectiveDate);
+    if (reassignToId) {
+      await reassignTasks(tx, tasks, reassignToId, created.id);
+    } else {
+      await tx.doctorTask.updateMany({ where: { id: { in: tasks.doctorTasks.map(t => t.id) } }, data: { transferId: created.id } });
+      await tx.chemistTask.updateMany({ where: { id: { in: tasks.chemistTasks.map(t => t.id) } }, data: { transferId: created.id } });
+    }
+
+    return tx.territoryTransfer.findUniqueOrThrow({ where: { id: created.id }, include: TRANSFER_INCLUDE });
+  });
+
+  console.log(`🔁 Transfer ${transfer.id}: ${transfer.employee.email} from ${transfer.fromTerritory.name} to ${transfer.toTerritory.name} on ${formatDate(effectiveDate)} (${transfer._count.doctorTasks + transfer._count.chemistTasks} tasks ${taskAction === 'FLAG' ? 'flagged' : 'reassigned'})`);
+  return transfer;
+}
+
+/**
+ * Cancels a transfer that has not taken effect yet: the old assignment is reopened, the new one
+ * removed and flagged tasks unflagged. Reassigned tasks stay with their new assignee.
+ */
+export async function cancelTransfer(tenantDb: TenantPrismaClient, transferId: string) {
+  return tenantDb.$transaction(async (tx) => {
+    const transfer = await tx.territoryTransfer.findUnique({ where: { id: transferId } });
+    if (!transfer) {
+      throw new TerritoryError('Transfer not found', 404);
+    }
+    if (transfer.cancelledAt) {
+      throw new TerritoryError('Transfer is already cancelled', 409);
+    }
+    if (transfer.effectiveDate <= startOfTodayUtc()) {
+      throw new TerritoryError('Transfer has already taken effect; transfer the employee back instead', 409);
+    }
+
+    const { employeeId, fromTerritoryId, toTerritoryId, effectiveDate } = transfer;
+    const closed = await tx.employeeTerritory.findFirst({ where: { employeeId, territoryId: fromTerritoryId, unassignedAt: effectiveDate } });
+    const opened = await tx.employeeTerritory.findFirst({ where: { employeeId, territoryId: toTerritoryId, assignedAt: effectiveDate } });
+    if (opened?.unassignedAt) {
+      throw new TerritoryError('A later transfer moves the employee out of the destination territory; cancel that one first', 409);
+    }
+
+    if (closed) {
+      await tx.employeeTerritory.update({ where: { id: closed.id }, data: { unassignedAt: null } });
+    }
+    if (opened) {
+      await tx.employeeTerritory.delete({ where: { id: opened.id } });
+    }
+
+    const doctorTasks = await tx.doctorTask.updateMany({ where: { transferId, employeeId }, data: { transferId: null } });
+    const chemistTasks = await tx.chemistTask.updateMany({ where: { transferId, employeeId }, data: { transferId: null } });
+    await tx.territoryTransfer.update({ where: { id: transferId }, data: { cancelledAt: new Date() } });
+
+    return { transferId, unflaggedTasks: doctorTasks.count + chemistTasks.count };
+  });
+}
+
+/**
+ * Transfers, latest effective date first. Cancelled ones are left out unless asked for.
+ */
+export async function listTransfers(
+  tenantDb: TenantPrismaClient,
+  filter: { employeeId?: string; territoryId?: string; includeCancelled?: boolean } = {}
+) {
+  return tenantDb.territoryTransfer.findMany({
+    where: {
+      ...(filter.employeeId && { employeeId: filter.employeeId }),
+      ...(filter.territoryId && { OR: [{ fromTerritoryId: filter.territoryId }, { toTerritoryId: filter.territoryId }] }),
+      ...(!filter.includeCancelled && { cancelledAt: null })
+    },
+    include: TRANSFER_INCLUDE,
+    orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }]
+  });
+}
+
+/**
+ * One transfer with the tasks it flagged or reassigned.
+ */
+export async function getTransfer(tenantDb: TenantPrismaClient, transferId: string) {
+  const taskSelect = { id: true, employeeId: true, taskDate: true, completionStatus: true, approvalStatus: true };
+
+  const transfer = await tenantDb.territoryTransfer.findUnique({
+    where: { id: transferId },
+    include: {
+      ...TRANSFER_INCLUDE,
+      doctorTasks: { select: { ...taskSelect, doctor: { select: { id: true, name: true } } }, orderBy: { taskDate: 'asc' } },
+      chemistTasks: { select: { ...taskSelect, chemist: { select: { id: true, name: true } } }, orderBy: { taskDate: 'asc' } }
+    }
+  });
+  if (!transfer) {
+    throw new TerritoryError('Transfer not found', 404);
+  }
+  return transfer;
+}
+
+/**
+ * Every territory assignment of the employees (optionally only within the given territories), oldest first.
+ */
+export async function loadAssignmentPeriods(
+  tenantDb: TenantPrismaClient,
+  employeeIds: string[],
+  territoryIds?: string[]
+): Promise<AssignmentPeriod[]> {
+  if (employeeIds.length === 0) return [];
+
+  return tenantDb.employeeTerritory.findMany({
+    where: { employeeId: { in: employeeIds }, ...(territoryIds && { territoryId: { in: territoryIds } }) },
+    select: { employeeId: true, assignedAt: true, unassignedAt: true, isPrimary: true, territory: { select: TERRITORY_REF } },
+    orderBy: { assignedAt: 'asc' }
+  });
+}
+
+/**
+ * The territories an employee covered on a date, the primary one first. Use with loadAssignmentPeriods
+ * to attribute dated work (reports, orders) to the territory it was done in.
+ */
+export function territoriesOn(periods: AssignmentPeriod[], employeeId: string, date: Date): TerritoryRef[] {
+  return periods
+    .filter(p => p.employeeId === employeeId && p.assignedAt <= date && (!p.unassignedAt || p.unassignedAt > date))
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || b.assignedAt.getTime() - a.assignedAt.getTime())
+    .map(p => p.territory);
+}
+
+/**
+ * An employee's assignments over time, each marked past, current or scheduled.
+ */
+export async function getAssignmentHistory(tenantDb: TenantPrismaClient, employeeId: string) {
+  const employee = await tenantDb.employee.findUnique({ where: { id: employeeId }, select: { id: true } });
+  if (!employee) {
+    throw new TerritoryError('Employee not found', 404);
+  }
+
+  const now = new Date();
+  const periods = await loadAssignmentPeriods(tenantDb, [employeeId]);
+  return periods.map(period => ({
+    ...period,
+    status: period.assignedAt > now ? 'scheduled' : period.unassignedAt && period.unassignedAt <= now ? 'past' : 'current'
+  }));
+}
+
+/**
+ * Who covered a territory on a date, optionally counting assignments anywhere below it.
+ */
+export async function getTerritoryEmployeesAsOf(
+  tenantDb: TenantPrismaClient,
+  territoryId: string,
+  asOf: Date,
+  { includeSubtree = false }: { includeSubtree?: boolean } = {}
+) {
+  const territory = await tenantDb.territory.findUnique({ where: { id: territoryId }, select: TERRITORY_REF });
+  if (!territory) {
+    throw new TerritoryError('Territory not found', 404);
+  }
+
+  const territoryIds = includeSubtree ? await getSubtreeIds(tenantDb, territoryId) : [territoryId];
+  const assignments = await tenantDb.employeeTerritory.findMany({
+    where: { territoryId: { in: territoryIds }, ...assignmentActiveAt(asOf) },
+    select: {
+      assignedAt: true,
+      unassignedAt: true,
+      isPrimary: true,
+      territory: { select: TERRITORY_REF },
+      employee: { select: EMPLOYEE_SUMMARY }
+    },
+    orderBy: { assignedAt: 'asc' }
+  });
+
+  return { territory, asOf: formatDate(asOf), assignments };
+}
@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import SchemaManagementService from './SchemaManagementService.js';
+import { EmployeeRole } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+// Roles that can (and, when the organization requires it, must) use a second factor
+export const TWO_FACTOR_ROLES: EmployeeRole[] = ['SALES_MANAGER', 'SYSTEM_ADMINISTRATOR'];
+
+// RFC 6238 defaults, which is what authenticator apps expect
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Codes from one step before or after are accepted to allow for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export type TwoFactorChallengeStage = 'verify' | 'enroll';
+
+export interface TwoFactorChallenge {
+  userId: string;
+  stage: TwoFactorChallengeStage;
+  method: 'password' | 'google';
+}
+
+/**
+ * Raised when a 2FA request cannot be carried out; statusCode is the HTTP status to answer with.
+ */
+export class TwoFactorError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.statusCode = statusCode;
+  }
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = '';
+  buffer.forEach(byte => { bits += byte.toString(2).padStart(8, '0'); });
+  return (bits.match(/.{1,5}/g) || []).map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+const base32Decode = (value: string) => {
+  const bits = value.replace(/=+$/, '').toUpperCase().split('')
+    .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from((bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2)));
+};
+
+/**
+ * The HOTP code (RFC 4226) for one time step.
+ */
+const codeForStep = (secret: Buffer, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+};
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+// Secrets are encrypted at rest with AES-256-GCM; the key defaults to one derived from JWT_SECRET
+const encryptionKey = () =>
+  crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET!).digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared case-insensitively and without the dash
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+
+const newRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+});
+
+export const isTwoFactorRole = (role: string) => TWO_FACTOR_ROLES.includes(role as EmployeeRole);
+
+/**
+ * Whether a user has 2FA turned on, and how many recovery codes are left.
+ */
+export async function getTwoFactorStatus(userId: string) {
+  const twoFactor = await schemaService.sharedDb.userTwoFactor.findUnique({ where: { userId } });
+  return {
+    enabled: !!twoFactor?.enabledAt,
+    enabledAt: twoFactor?.enabledAt || null,
+    recoveryCodesRemaining: twoFactor?.enabledAt ? twoFactor.recoveryCodeHashes.length : 0
+  };
+}
+
+/**
+ * Starts enrolment with a new secret, replacing any earlier unfinished enrolment.
+ * @returns The secret for manual entry, the otpauth:// URI and the same URI as a QR code data URL.
+ */
+export async function beginTwoFactorEnrollment(user: { id: string; email: string; role: string }) {
+  if (!isTwoFactorRole(user.role)) {
+    throw new TwoFactorError(`Two-factor authentication is available to ${TWO_FACTOR_ROLES.join(' and ')} accounts`, 403);
+  }
+
+  const existing = await schemaService.sharedDb.userTwoFactor.findUnique({ where: { userId: user.id } });
+  if (existing?.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await schemaService.sharedDb.userTwoFactor.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id, secretEncrypted: encryptSecret(secret) },
+    update: { secretEncrypted: encryptSecret(secret), lastUsedStep: null, recoveryCodeHashes: [] }
+  });
+
+  const issuer = process.env.APP_NAME || 'ForPharma';
+  const otpauthUrl = `otpauth://totp/${encodeURIComponent(`${issuer}:${user.email}`)}?` + new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(CODE_DIGITS),
+    period: String(STEP_SECONDS)
+  }).toString();
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl)
+  };
+}
+
+/**
+ * Checks a TOTP code against the stored secret. An accepted code's step is remembered so the
+ * same code cannot be used twice.
+ */
+async function acceptTotpCode(userId: string, secretEncrypted: string, lastUsedStep: number | null, code: string): Promise<boolean> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== CODE_DIGITS) {
+    return false;
+  }
+
+  const secret = base32Decode(decryptSecret(secretEncrypted));
+  const now = currentStep();
+
+  for (let step = now - ALLOWED_DRIFT_STEPS; step <= now + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (!crypto.timingSafeEqual(Buffer.from(codeForStep(secret, step)), Buffer.from(normalized))) continue;
+
+    // Only one of two concurrent uses of the same code can move lastUsedStep forward
+    const accepted = await schemaService.sharedDb.userTwoFactor.updateMany({
+      where: { userId, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+      data: { lastUsedStep: step }
+    });
+    return accepted.count > 0;
+  }
+
+  return false;
+}
+
+/**
+ * Finishes enrolment with the first code from the authenticator app.
+ * @returns The recovery codes. They are shown once; only their hashes are stored.
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[]> {
+  const twoFactor = await schemaService.sharedDb.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor) {
+    throw new TwoFactorError('Start two-factor enrolment first', 400);
+  }
+  if (twoFactor.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+  if (!(await acceptTotpCode(userId, twoFactor.secretEncrypted, twoFactor.lastUsedStep, code))) {
+    throw new TwoFactorError('Invalid authentication code', 400);
+  }
+
+  const recoveryCodes = newRecoveryCodes();
+  await schemaService.sharedDb.userTwoFactor.update({
+    where: { userId },
+    data: { enabledAt: new Date(), recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) }
+  });
+
+  console.log(`🔐 Two-factor authentication enabled for user ${userId}`);
+  return recoveryCodes;
+}
+
+/**
+ * Checks a second factor: a TOTP code, or else a recovery code, which is used up.
+ * @returns Which kind of code was accepted, or null if neither matched.
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<'totp' | 'recovery_code' | null> {
+  const twoFactor = await schemaService.sharedDb.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor?.enabledAt || typeof code !== 'string' || !code) {
+    return null;
+  }
+
+  if (await acceptTotpCode(userId, twoFactor.secretEncrypted, twoFactor.lastUsedStep, code)) {
+    return 'totp';
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!twoFactor.recoveryCodeHashes.includes(hash)) {
+    return null;
+  }
+
+  const used = await schemaService.sharedDb.userTwoFactor.updateMany({
+    where: { userId, recoveryCodeHashes: { has: hash } },
+    data: { recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter(h => h !== hash) }
+  });
+  if (used.count === 0) {
+    return null;
+  }
+
+  console.log(`🔐 Recovery code used by user ${userId}; ${twoFactor.recoveryCodeHashes.length - 1} left`);
+  return 'recovery_code';
+}
+
+/**
+ * Replaces all recovery codes after checking a current code.
+ * @returns The new recovery codes.
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  if ((await verifyTwoFactorCode(userId, code)) !== 'totp') {
+    throw new TwoFactorError('Invalid authentication code', 400);
+  }
+
+  const recoveryCodes = newRecoveryCodes();
+  await schemaService.sharedDb.userTwoFactor.update({
+    where: { userId },
+    data: { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) }
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Removes a user's second factor, e.g. after the device and the recovery codes were lost.
+ * @returns Whether there was one to remove.
+ */
+export async function removeTwoFactor(userId: string): Promise<boolean> {
+  const result = await schemaService.sharedDb.userTwoFactor.deleteMany({ where: { userId } });
+  if (result.count > 0) {
+    console.log(`🔓 Two-factor authentication removed for user ${userId}`);
+  }
+  return result.count > 0;
+}
+
+/**
+ * Issues the short-lived token that carries a half-finished login to its second step.
+ * It has no email claim, so tenantMiddleware never accepts it as an access token.
+ */
+export function issueTwoFactorChallenge(challenge: TwoFactorChallenge): string {
+  return jwt.sign(
+    { purpose: 'two_factor_challenge', ...challenge },
+    process.env.JWT_SECRET!,
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+  );
+}
+
+/**
+ * Reads a challenge token for the expected stage of the login.
+ * @throws TwoFactorError (401) if the token is invalid, expired or for another stage.
+ */
+export function readTwoFactorChallenge(token: unknown, stage: TwoFactorChallengeStage): TwoFactorChallenge {
+  let payload: any;
+  try {
+    payload = typeof token === 'string' ? jwt.verify(token, process.env.JWT_SECRET!) : null;
+  } catch {
+    payload = null;
+  }
+
+  if (payload?.purpose !== 'two_factor_challenge' || payload.stage !== stage || typeof payload.userId !== 'string') {
+    throw new TwoFactorError('Login challenge is invalid or has expired; log in again', 401);
+  }
+  return { userId: payload.userId, stage: payload.stage, method: payload.method };
+}
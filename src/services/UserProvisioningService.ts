@@ -0,0 +1,483 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import SchemaManagementService from './SchemaManagementService.js';
+import { invalidateUserContext } from './TenantContextCache.js';
+import { revokeSessions } from './SessionService.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { EmployeeRole } from '../../generated/prisma-shared/index.js';
+import { PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+const EMPLOYEE_ROLES = Object.values(EmployeeRole);
+
+export interface ProvisionUserInput {
+  email: string;
+  password?: string; // Omit to leave the account without a usable password until activation
+  role: EmployeeRole;
+  firstName: string;
+  lastName?: string;
+  phone?: string;
+  employeeCode?: string;
+  city?: string;
+  state?: string;
+  profilePic?: string | null;
+  isActive?: boolean; // Defaults to false: the user activates through the emailed link
+  teamId?: string;
+  territoryIds?: string[]; // The first one becomes the primary territory
+}
+
+export interface UpdateUserInput {
+  role?: EmployeeRole;
+  isActive?: boolean;
+  firstName?: string;
+  lastName?: string | null;
+  phone?: string | null;
+  employeeCode?: string | null;
+  city?: string | null;
+  state?: string | null;
+  profilePic?: string | null;
+}
+
+/**
+ * Raised when a provisioning request cannot be carried out; statusCode is the HTTP status to answer with.
+ */
+export class ProvisioningError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'ProvisioningError';
+    this.statusCode = statusCode;
+  }
+}
+
+export type UserMismatchType =
+  | 'missing_employee' // Shared User without tenant Employee
+  | 'missing_user' // Tenant Employee without shared User
+  | 'email_conflict' // Tenant Employee whose email belongs to a User of another organization
+  | 'role_mismatch'
+  | 'active_mismatch'
+  | 'password_mismatch';
+
+export interface UserMismatch {
+  email: string;
+  type: UserMismatchType;
+  shared?: { role: string; isActive: boolean };
+  tenant?: { role: string; isActive: boolean };
+  repaired?: boolean;
+  repairError?: string;
+}
+
+export interface OrganizationReconciliationReport {
+  organizationId: string;
+  organizationName: string;
+  schemaName: string | null;
+  status: 'consistent' | 'mismatched' | 'repaired' | 'failed' | 'skipped';
+  sharedUsers: number;
+  tenantEmployees: number;
+  mismatches: UserMismatch[];
+  error?: string;
+}
+
+/**
+ * Loads an organization that can receive users and returns its tenant client.
+ */
+async function loadOrganizationTenant(organizationId: string): Promise<{ schemaName: string; tenantDb: TenantPrismaClient }> {
+  const organization = await schemaService.sharedDb.organization.findUnique({
+    where: { id: organizationId },
+    select: { schemaName: true, isActive: true }
+  });
+
+  if (!organization) {
+    throw new ProvisioningError('Organization not found', 404);
+  }
+  if (!organization.schemaName) {
+    throw new ProvisioningError('Organization schema not configured', 409);
+  }
+
+  return {
+    schemaName: organization.schemaName,
+    tenantDb: await schemaService.getTenantClient(organization.schemaName)
+  };
+}
+
+/**
+ * Loads a user of an organization together with its tenant employee.
+ */
+async function loadUserPair(organizationId: string, email: string) {
+  const { schemaName, tenantDb } = await loadOrganizationTenant(organizationId);
+
+  const user = await schemaService.sharedDb.user.findUnique({ where: { email } });
+  if (!user || user.organizationId !== organizationId) {
+    throw new ProvisioningError('User not found', 404);
+  }
+
+  const employee = await tenantDb.employee.findUnique({ where: { email } });
+  return { schemaName, tenantDb, user, employee };
+}
+
+/**
+ * Creates the shared User and the tenant Employee. If the employee cannot be created, the
+ * user is deleted again so neither database is left with half a user.
+ */
+export async function provisionUser(organizationId: string, input: ProvisionUserInput) {
+  if (!EMPLOYEE_ROLES.includes(input.role)) {
+    throw new ProvisioningError(`role must be one of: ${EMPLOYEE_ROLES.join(', ')}`, 400);
+  }
+
+  const { tenantDb } = await loadOrganizationTenant(organizationId);
+
+  const [existingUser, existingEmployee] = await Promise.all([
+    schemaService.sharedDb.user.findUnique({ where: { email: input.email }, select: { id: true } }),
+    tenantDb.employee.findUnique({ where: { email: input.email }, select: { id: true } })
+  ]);
+  if (existingUser || existingEmployee) {
+    throw new ProvisioningError('User with this email already exists', 409);
+  }
+
+  // Members of a team report to its lead
+  const team = input.teamId
+    ? await tenantDb.team.findUnique({ where: { id: input.teamId }, select: { leadId: true, isActive: true } })
+    : null;
+  if (input.teamId && !team?.isActive) {
+    throw new ProvisioningError('Team not found', 400);
+  }
+
+  // Without a password the account is unusable until it is activated
+  const passwordHash = await bcrypt.hash(input.password || crypto.randomBytes(32).toString('hex'), 10);
+  const isActive = input.isActive ?? false;
+
+  const user = await schemaService.sharedDb.user.create({
+    data: {
+      organizationId,
+      email: input.email,
+      password: passwordHash,
+      role: input.role,
+      isActive
+    }
+  });
+
+  try {
+    const employee = await tenantDb.employee.create({
+      data: {
+        organizationId,
+        email: input.email,
+        passwordHash,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        phone: input.phone,
+        role: input.role,
+        employeeCode: input.employeeCode,
+        city: input.city,
+        state: input.state,
+        profilePic: input.profilePic,
+        isActive,
+        teamId: input.teamId,
+        reportingManagerId: team?.leadId,
+        ...(input.territoryIds?.length && {
+          territories: {
+            create: input.territoryIds.map((territoryId, index) => ({
+              territoryId,
+              assignedAt: new Date(),
+              isPrimary: index === 0
+            }))
+          }
+        })
+      }
+    });
+
+    console.log(`✅ Provisioned user ${input.email} in shared and tenant databases`);
+    return { user, employee };
+  } catch (error) {
+    console.error(`❌ Failed to create tenant employee for ${input.email}; removing shared user`, error);
+    await schemaService.sharedDb.user.delete({ where: { id: user.id } }).catch(compensationError => {
+      console.error(`❌ Compensation failed: shared user ${input.email} left without employee`, compensationError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Updates a user in both databases. Role and active flag live on both sides; profile fields
+ * only on the tenant side. If the tenant update fails, the shared side is restored.
+ */
+export async function updateProvisionedUser(organizationId: string, email: string, changes: UpdateUserInput) {
+  if (changes.role !== undefined && !EMPLOYEE_ROLES.includes(changes.role)) {
+    throw new ProvisioningError(`role must be one of: ${EMPLOYEE_ROLES.join(', ')}`, 400);
+  }
+
+  const { tenantDb, user, employee } = await loadUserPair(organizationId, email);
+  if (!employee) {
+    throw new ProvisioningError('User has no tenant employee record; run the user reconciliation first', 409);
+  }
+
+  const sharedChanges = {
+    ...(changes.role !== undefined && { role: changes.role }),
+    ...(changes.isActive !== undefined && { isActive: changes.isActive })
+  };
+
+  const updatedUser = Object.keys(sharedChanges).length > 0
+    ? await schemaService.sharedDb.user.update({ where: { id: user.id }, data: sharedChanges })
+    : user;
+
+  try {
+    const updatedEmployee = await tenantDb.employee.update({
+      where: { email },
+      data: {
+        ...sharedChanges,
+        ...(changes.firstName !== undefined && { firstName: changes.firstName }),
+        ...(changes.lastName !== undefined && { lastName: changes.lastName }),
+        ...(changes.phone !== undefined && { phone: changes.phone }),
+        ...(changes.employeeCode !== undefined && { employeeCode: changes.employeeCode }),
+        ...(changes.city !== undefined && { city: changes.city }),
+        ...(changes.state !== undefined && { state: changes.state }),
+        ...(changes.profilePic !== undefined && { profilePic: changes.profilePic })
+      }
+    });
+
+    invalidateUserContext(email);
+    return { user: updatedUser, employee: updatedEmployee };
+  } catch (error) {
+    console.error(`❌ Failed to update tenant employee ${email}; restoring shared user`, error);
+    if (updatedUser !== user) {
+      await schemaService.sharedDb.user.update({
+        where: { id: user.id },
+        data: { role: user.role, isActive: user.isActive }
+      }).catch(compensationError => {
+        console.error(`❌ Compensation failed: shared user ${email} differs from tenant employee`, compensationError);
+      });
+    }
+    invalidateUserContext(email);
+    throw error;
+  }
+}
+
+/**
+ * Deactivates a user in both databases and ends all of their sessions.
+ */
+export async function deactivateProvisionedUser(organizationId: string, email: string) {
+  const result = await updateProvisionedUser(organizationId, email, { isActive: false });
+  const revokedSessions = await revokeSessions({ userId: result.user.id }, 'user_deactivated');
+  return { ...result, revokedSessions };
+}
+
+/**
+ * Deletes a user from both databases. Employees that already have activity (reports, orders, ...)
+ * cannot be deleted and must be deactivated instead. If the shared delete fails after the employee
+ * was removed, the employee is recreated.
+ */
+export async function deleteProvisionedUser(organizationId: string, email: string) {
+  const { tenantDb, user, employee } = await loadUserPair(organizationId, email);
+
+  // Territory assignments are not activity; they go with the employee
+  const assignments = employee
+    ? await tenantDb.employeeTerritory.findMany({ where: { employeeId: employee.id } })
+    : [];
+
+  if (employee) {
+    try {
+      await tenantDb.$transaction([
+        tenantDb.employeeTerritory.deleteMany({ where: { employeeId: employee.id } }),
+        tenantDb.employee.delete({ where: { id: employee.id } })
+      ]);
+    } catch (error: any) {
+      // P2003: foreign key constraint failed
+      if (error.code === 'P2003') {
+        throw new ProvisioningError('Employee has recorded activity and cannot be deleted; deactivate the user instead', 409);
+      }
+      throw error;
+    }
+  }
+
+  try {
+    await schemaService.sharedDb.$transaction([
+      schemaService.sharedDb.userToken.deleteMany({ where: { email } }),
+      schemaService.sharedDb.user.delete({ where: { id: user.id } })
+    ]);
+  } catch (error) {
+    console.error(`❌ Failed to delete shared user ${email}; restoring tenant employee`, error);
+    if (employee) {
+      await tenantDb.$transaction([
+        tenantDb.employee.create({ data: employee }),
+        tenantDb.employeeTerritory.createMany({ data: assignments })
+      ]).catch(compensationError => {
+        console.error(`❌ Compensation failed: tenant employee ${email} was deleted but shared user remains`, compensationError);
+      });
+    }
+    throw error;
+  }
+
+  invalidateUserContext(email);
+  console.log(`🗑️ Deleted user ${email} from shared and tenant databases`);
+}
+
+/**
+ * Compares an organization's shared Users with its tenant Employees and optionally repairs them.
+ *
+ * Repairs: a missing employee is created from the user (name taken from the email), a missing
+ * user is created from the employee, roles and password hashes follow the shared User (it is what
+ * logins check), and when only one side is active both are deactivated.
+ * Email conflicts with another organization are reported but never repaired automatically.
+ */
+export async function reconcileOrganizationUsers(organizationId: string, repair: boolean = false): Promise<OrganizationReconciliationReport> {
+  const organization = await schemaService.sharedDb.organization.findUnique({
+    where: { id: organizationId },
+    select: { id: true, name: true, schemaName: true, status: true }
+  });
+  if (!organization) {
+    throw new ProvisioningError('Organization not found', 404);
+  }
+
+  const base = {
+    organizationId: organization.id,
+    organizationName: organization.name,
+    schemaName: organization.schemaName
+  };
+
+  if (!organization.schemaName || organization.status === 'PURGED') {
+    return { ...base, status: 'skipped', sharedUsers: 0, tenantEmployees: 0, mismatches: [] };
+  }
+
+  try {
+    const tenantDb = await schemaService.getTenantClient(organization.schemaName);
+    const [users, employees] = await Promise.all([
+      schemaService.sharedDb.user.findMany({ where: { organizationId } }),
+      tenantDb.employee.findMany({
+        select: { id: true, email: true, role: true, isActive: true, passwordHash: true }
+      })
+    ]);
+
+    const employeesByEmail = new Map(employees.map(e => [e.email, e]));
+    const usersByEmail = new Map(users.map(u => [u.email, u]));
+    const mismatches: UserMismatch[] = [];
+
+    for (const user of users) {
+      const employee = employeesByEmail.get(user.email);
+      const shared = { role: user.role, isActive: user.isActive };
+
+      if (!employee) {
+        mismatches.push({ email: user.email, type: 'missing_employee', shared });
+        continue;
+      }
+
+      const tenant = { role: employee.role, isActive: employee.isActive };
+      if (user.role !== employee.role) {
+        mismatches.push({ email: user.email, type: 'role_mismatch', shared, tenant });
+      }
+      if (user.isActive !== employee.isActive) {
+        mismatches.push({ email: user.email, type: 'active_mismatch', shared, tenant });
+      }
+      if (user.password !== employee.passwordHash) {
+        mismatches.push({ email: user.email, type: 'password_mismatch', shared, tenant });
+      }
+    }
+
+    const orphanEmails = employees.filter(e => !usersByEmail.has(e.email)).map(e => e.email);
+    const usersElsewhere = orphanEmails.length > 0
+      ? await schemaService.sharedDb.user.findMany({ where: { email: { in: orphanEmails } }, select: { email: true } })
+      : [];
+    const emailsElsewhere = new Set(usersElsewhere.map(u => u.email));
+
+    for (const email of orphanEmails) {
+      const employee = employeesByEmail.get(email)!;
+      mismatches.push({
+        email,
+        type: emailsElsewhere.has(email) ? 'email_conflict' : 'missing_user',
+        tenant: { role: employee.role, isActive: employee.isActive }
+      });
+    }
+
+    if (repair) {
+      for (const mismatch of mismatches) {
+        try {
+          mismatch.repaired = await repairMismatch(organizationId, tenantDb, mismatch, usersByEmail.get(mismatch.email), employeesByEmail.get(mismatch.email));
+        } catch (error: any) {
+          console.error(`❌ Failed to repair ${mismatch.type} for ${mismatch.email}:`, error);
+          mismatch.repaired = false;
+          mismatch.repairError = error.message;
+        }
+      }
+    }
+
+    const allRepaired = mismatches.every(m => m.repaired);
+    return {
+      ...base,
+      status: mismatches.length === 0 ? 'consistent' : repair && allRepaired ? 'repaired' : 'mismatched',
+      sharedUsers: users.length,
+      tenantEmployees: employees.length,
+      mismatches
+    };
+  } catch (error: any) {
+    console.error(`❌ User reconciliation failed for organization ${organization.name}:`, error);
+    return { ...base, status: 'failed', sharedUsers: 0, tenantEmployees: 0, mismatches: [], error: error.message };
+  }
+}
+
+async function repairMismatch(
+  organizationId: string,
+  tenantDb: TenantPrismaClient,
+  mismatch: UserMismatch,
+  user?: { id: string; email: string; role: EmployeeRole; isActive: boolean; password: string },
+  employee?: { id: string; email: string; role: string; isActive: boolean; passwordHash: string }
+): Promise<boolean> {
+  switch (mismatch.type) {
+    case 'missing_employee':
+      await tenantDb.employee.create({
+        data: {
+          organizationId,
+          email: user!.email,
+          passwordHash: user!.password,
+          firstName: user!.email.split('@')[0],
+          role: user!.role,
+          isActive: user!.isActive
+        }
+      });
+      break;
+
+    case 'missing_user':
+      await schemaService.sharedDb.user.create({
+        data: {
+          organizationId,
+          email: employee!.email,
+          password: employee!.passwordHash,
+          role: employee!.role as EmployeeRole,
+          isActive: employee!.isActive
+        }
+      });
+      break;
+
+    case 'role_mismatch':
+      await tenantDb.employee.update({ where: { id: employee!.id }, data: { role: user!.role } });
+      break;
+
+    case 'password_mismatch':
+      await tenantDb.employee.update({ where: { id: employee!.id }, data: { passwordHash: user!.password } });
+      break;
+
+    case 'active_mismatch':
+      await schemaService.sharedDb.user.update({ where: { id: user!.id }, data: { isActive: false } });
+      await tenantDb.employee.update({ where: { id: employee!.id }, data: { isActive: false } });
+      await revokeSessions({ userId: user!.id }, 'user_deactivated');
+      break;
+
+    case 'email_conflict':
+      return false;
+  }
+
+  invalidateUserContext(mismatch.email);
+  return true;
+}
+
+/**
+ * Runs the reconciliation for every organization with a tenant schema.
+ */
+export async function reconcileAllOrganizations(repair: boolean = false, concurrency: number = 2): Promise<OrganizationReconciliationReport[]> {
+  const organizations = await schemaService.sharedDb.organization.findMany({
+    where: { schemaName: { not: null } },
+    select: { id: true },
+    orderBy: { name: 'asc' }
+  });
+
+  return mapWithConcurrency(organizations, concurrency, org => reconcileOrganizationUsers(org.id, repair));
+}
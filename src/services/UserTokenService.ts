@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import SchemaManagementService from './SchemaManagementService.js';
+import { Prisma, UserTokenType } from '../../generated/prisma-shared/index.js';
+
+const schemaService = SchemaManagementService.getInstance();
+
+export type UserTokenFailure = 'invalid' | 'expired' | 'used';
+
+/**
+ * Raised when a user token cannot be used. `reason` lets callers word the response.
+ */
+export class UserTokenError extends Error {
+  reason: UserTokenFailure;
+
+  constructor(reason: UserTokenFailure, message: string) {
+    super(message);
+    this.name = 'UserTokenError';
+    this.reason = reason;
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Emailed links are signed with their own key and audience, so they can never pass as access tokens.
+// Without USER_TOKEN_SECRET the key is derived from JWT_SECRET.
+const USER_TOKEN_AUDIENCE = 'user-token';
+const userTokenSecret = () =>
+  process.env.USER_TOKEN_SECRET ||
+  crypto.createHmac('sha256', process.env.JWT_SECRET!).update(USER_TOKEN_AUDIENCE).digest('hex');
+
+/**
+ * Issues a signed, single-use token for an email address and revokes any earlier unused
+ * token of the same type, so only the most recent link works.
+ * @param email The user the token is for.
+ * @param type What the token may be used for.
+ * @param ttlMs How long the token stays valid.
+ * @returns The token to embed in the emailed link. It is not stored anywhere in plain text.
+ */
+export async function issueUserToken(email: string, type: UserTokenType, ttlMs: number): Promise<string> {
+  const expiresAt = new Date(Date.now() + ttlMs);
+  const token = jwt.sign(
+    { email, type, nonce: crypto.randomBytes(16).toString('hex') },
+    userTokenSecret(),
+    { expiresIn: Math.ceil(ttlMs / 1000), audience: USER_TOKEN_AUDIENCE }
+  );
+
+  await schemaService.sharedDb.$transaction([
+    schemaService.sharedDb.userToken.updateMany({
+      where: { email, type, usedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    }),
+    schemaService.sharedDb.userToken.create({
+      data: { email, type, tokenHash: hashToken(token), expiresAt }
+    })
+  ]);
+
+  return token;
+}
+
+/**
+ * Checks a token without using it up.
+ * @returns The email address the token was issued for.
+ * @throws UserTokenError if the token is forged, of another type, expired, used or revoked.
+ */
+export async function verifyUserToken(token: string, type: UserTokenType): Promise<string> {
+  let payload: any;
+  try {
+    payload = jwt.verify(token, userTokenSecret(), { audience: USER_TOKEN_AUDIENCE });
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new UserTokenError('expired', 'This link has expired');
+    }
+    throw new UserTokenError('invalid', 'This link is invalid');
+  }
+
+  if (payload?.type !== type || typeof payload.email !== 'string') {
+    throw new UserTokenError('invalid', 'This link is invalid');
+  }
+
+  const record = await schemaService.sharedDb.userToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!record || record.type !== type || record.email !== payload.email) {
+    throw new UserTokenError('invalid', 'This link is invalid');
+  }
+  if (record.usedAt) {
+    throw new UserTokenError('used', 'This link has already been used');
+  }
+  if (record.revokedAt) {
+    throw new UserTokenError('used', 'This link was replaced by a newer one');
+  }
+  if (record.expiresAt <= new Date()) {
+    throw new UserTokenError('expired', 'This link has expired');
+  }
+
+  return record.email;
+}
+
+/**
+ * Marks a token as used. Call it inside the transaction that performs the token's action:
+ * it only matches a still-valid token, so of two concurrent uses only one succeeds.
+ * @throws UserTokenError if the token was used, revoked or expired in the meantime.
+ */
+export async function consumeUserToken(tx: Prisma.TransactionClient, token: string): Promise<void> {
+  const result = await tx.userToken.updateMany({
+    where: {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: { usedAt: new Date() }
+  });
+
+  if (result.count === 0) {
+    throw new UserTokenError('used', 'This link has already been used');
+  }
+}
+
+/**
+ * When the latest token of a type was issued for an email, used to throttle resends.
+ */
+export async function getLatestUserTokenIssuedAt(email: string, type: UserTokenType): Promise<Date | null> {
+  const latest = await schemaService.sharedDb.userToken.findFirst({
+    where: { email, type },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true }
+  });
+  return latest?.createdAt || null;
+}
@@ -0,0 +1,71 @@
+import { Request } from 'express';
+import { assignmentActiveAt, expandTerritoryIds } from './TerritoryService.js';
+import { getTeamMemberIds } from './TeamService.js';
+import { PrismaClient as TenantPrismaClient } from '../../generated/prisma-tenant/index.js';
+
+/**
+ * What a caller may see in list endpoints.
+ * - territoryIds: master data (hospitals, chemists, doctors through their hospitals) in these territories
+ * - employeeIds: records owned by these employees (orders, RCPA and DCR reports)
+ * Unrestricted scopes (administrators and API keys) carry no ids and must not be used as filters.
+ */
+export type VisibilityScope =
+  | { unrestricted: true }
+  | { unrestricted: false; territoryIds: string[]; employeeIds: string[] };
+
+/**
+ * Works out what an employee may see. Visibility expands in two ways:
+ * - down the territory hierarchy: an employee assigned to a region sees everything in its states,
+ *   cities and areas, and the records of employees assigned anywhere below it
+ * - through teams: the lead of a team sees its members, their territories and their records
+ * Employees who merely share a territory do not see each other's records.
+ * Territory assignments are taken as of `asOf` (default now).
+ */
+export async function resolveVisibilityScope(
+  tenantDb: TenantPrismaClient,
+  employeeId: string,
+  asOf: Date = new Date()
+): Promise<VisibilityScope> {
+  const teamMemberIds = await getTeamMemberIds(tenantDb, [employeeId], { recursive: true });
+
+  const assignments = await tenantDb.employeeTerritory.findMany({
+    where: { employeeId: { in: [employeeId, ...teamMemberIds] }, ...assignmentActiveAt(asOf) },
+    select: { employeeId: true, territoryId: true }
+  });
+
+  const ownTerritoryIds = assignments.filter(a => a.employeeId === employeeId).map(a => a.territoryId);
+  const territoryIds = await expandTerritoryIds(tenantDb, assignments.map(a => a.territoryId));
+
+  // Employees assigned strictly below the caller's own territories report into them
+  const ownSubtree = await expandTerritoryIds(tenantDb, ownTerritoryIds);
+  const ownTerritorySet = new Set(ownTerritoryIds);
+  const belowOwnTerritories = ownSubtree.filter(id => !ownTerritorySet.has(id));
+
+  const employeesBelow = belowOwnTerritories.length > 0
+    ? await tenantDb.employeeTerritory.findMany({
+      where: { territoryId: { in: belowOwnTerritories }, ...assignmentActiveAt(asOf) },
+      select: { employeeId: true },
+      distinct: ['employeeId']
+    })
+    : [];
+
+  return {
+    unrestricted: false,
+    territoryIds,
+    employeeIds: [...new Set([employeeId, ...teamMemberIds, ...employeesBelow.map(e => e.employeeId)])]
+  };
+}
+
+/**
+ * The visibility scope of the request's caller. Administrators and API keys see the whole organization;
+ * a user without a tenant employee record sees nothing.
+ */
+export async function getRequestVisibilityScope(req: Request): Promise<VisibilityScope> {
+  if (req.apiKey || req.user!.role === 'SYSTEM_ADMINISTRATOR') {
+    return { unrestricted: true };
+  }
+  if (!req.user!.id) {
+    return { unrestricted: false, territoryIds: [], employeeIds: [] };
+  }
+  return resolveVisibilityScope(req.tenantDb!, req.user!.id);
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '../../generated/prisma-tenant/index.js';
+import { OrganizationSettings } from '../services/OrganizationSettingsService.js';
 
 declare global {
     namespace Express {
@@ -10,8 +11,25 @@ declare global {
                 organizationName?: string;
                 role: string;
                 employeeId: string;
+                sid?: string; // Session id from the access token
             };
             tenantDb?: PrismaClient;
+            organizationSettings?: OrganizationSettings;
+            // Who is calling: a signed-in user (employeeId is their tenant employee, if any) or an API key
+            principal?:
+                | { type: 'employee'; userId: string; employeeId: string | null }
+                | { type: 'api_key'; apiKeyId: string };
+            apiKey?: {
+                id: string;
+                name: string;
+                keyPrefix: string;
+                scopes: string[];
+            };
+            platformUser?: {
+                id: string;
+                email: string;
+                platformRole: string;
+            };
         }
     }
 }
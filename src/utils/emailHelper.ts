@@ -96,6 +96,28 @@ interface ActivationEmailData {
     tempPassword?: string; // Add this if you want to include password
 }
 
+interface PasswordResetEmailData {
+    userName: string;
+    userEmail: string;
+    organizationName?: string;
+    resetUrl: string;
+    expiresIn: string; // Human readable, e.g. '1 hour'
+    companyName?: string;
+}
+
+interface NotificationEmailData {
+    title: string;
+    subtitle: string;
+    headerEmoji: string;
+    userName: string;
+    userEmail: string;
+    message: string;
+    details: Record<string, string>; // Label -> value, shown in the info box
+    actionUrl?: string;
+    actionLabel?: string;
+    companyName?: string;
+}
+
 // In CommonJS, __dirname is already available - no need to define it
 
 export class EmailHelper {
@@ -103,16 +125,65 @@ export class EmailHelper {
      * Load HTML template and replace placeholders
      */
     static async loadActivationTemplate(data: ActivationEmailData): Promise<string> {
+        const htmlContent = await this.readTemplate('activation-email.html');
+        return this.processTemplate(htmlContent, data);
+    }
+
+    /**
+     * Load the password reset template and replace placeholders
+     */
+    static async loadPasswordResetTemplate(data: PasswordResetEmailData): Promise<string> {
+        const htmlContent = await this.readTemplate('password-reset-email.html');
+        return this.replacePlaceholders(htmlContent, {
+            '{{USER_NAME}}': data.userName,
+            '{{USER_EMAIL}}': data.userEmail,
+            '{{USER_DEPARTMENT}}': data.organizationName || 'Not Assigned',
+            '{{RESET_URL}}': data.resetUrl,
+            '{{EXPIRES_IN}}': data.expiresIn,
+            '{{COMPANY_NAME}}': data.companyName || process.env.APP_NAME || 'ForPharma'
+        });
+    }
+
+    /**
+     * Load the shared layout of notification emails (plan and expense decisions, weekly summary).
+     * Unlike the fields of the templates above, every value is HTML-escaped.
+     */
+    static async loadNotificationTemplate(data: NotificationEmailData): Promise<string> {
+        const htmlContent = await this.readTemplate('notification-email.html');
+        const details = Object.entries(data.details)
+            .map(([label, value]) => `<strong>${this.escapeHtml(label)}:</strong> ${this.escapeHtml(value)}`)
+            .join('<br>\n                ');
+        const action = data.actionUrl
+            ? `<div class="cta-section">\n        <a href="${this.escapeHtml(data.actionUrl)}" class="cta-button">${this.escapeHtml(data.actionLabel || 'Open')}</a>\n    </div>`
+            : '';
+
+        return this.replacePlaceholders(htmlContent, {
+            '{{TITLE}}': this.escapeHtml(data.title),
+            '{{SUBTITLE}}': this.escapeHtml(data.subtitle),
+            '{{HEADER_EMOJI}}': data.headerEmoji,
+            '{{USER_NAME}}': this.escapeHtml(data.userName),
+            '{{USER_EMAIL}}': this.escapeHtml(data.userEmail),
+            '{{MESSAGE}}': this.escapeHtml(data.message),
+            '{{DETAILS}}': details,
+            '{{ACTION}}': action,
+            '{{COMPANY_NAME}}': this.escapeHtml(data.companyName || process.env.APP_NAME || 'ForPharma')
+        });
+    }
+
+    /**
+     * Read a template from src/templates, next to the compiled code or from the project root
+     */
+    private static async readTemplate(fileName: string): Promise<string> {
         try {
             // Path to your HTML template
-            const templatePath = path.join(__dirname, '..', 'templates', 'activation-email.html');
+            const templatePath = path.join(__dirname, '..', 'templates', fileName);
 
             console.log('Loading template from:', templatePath); // Debug log
 
             // Check if file exists
             if (!fs.existsSync(templatePath)) {
                 // Try alternative path from project root
-                const altPath = path.join(process.cwd(), 'src', 'templates', 'activation-email.html');
+                const altPath = path.join(process.cwd(), 'src', 'templates', fileName);
                 console.log('Template not found, trying alternative path:', altPath);
 
                 if (!fs.existsSync(altPath)) {
@@ -120,13 +191,11 @@ export class EmailHelper {
                 }
 
                 // Use alternative path
-                const htmlContent = await fs.promises.readFile(altPath, 'utf-8');
-                return this.processTemplate(htmlContent, data);
+                return await fs.promises.readFile(altPath, 'utf-8');
             }
 
             // Read the HTML file
-            const htmlContent = await fs.promises.readFile(templatePath, 'utf-8');
-            return this.processTemplate(htmlContent, data);
+            return await fs.promises.readFile(templatePath, 'utf-8');
 
         } catch (error) {
             console.error('Error loading email template:', error);
@@ -153,12 +222,28 @@ export class EmailHelper {
             replacements['{{TEMP_PASSWORD}}'] = data.tempPassword;
         }
 
-        // Replace all placeholders
+        return this.replacePlaceholders(htmlContent, replacements);
+    }
+
+    /**
+     * Replace all placeholders
+     */
+    private static replacePlaceholders(htmlContent: string, replacements: Record<string, string>): string {
         let processedContent = htmlContent;
         Object.entries(replacements).forEach(([placeholder, value]) => {
-            processedContent = processedContent.replace(new RegExp(placeholder, 'g'), value);
+            // A replacer function, so a '$' in the value is not read as a replacement pattern
+            processedContent = processedContent.replace(new RegExp(placeholder, 'g'), () => value);
         });
 
         return processedContent;
     }
+
+    private static escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GeoJsonError, Position, approximateArea, geometryContains, normalizeBoundaries } from './geo.js';
+
+// A 10 x 10 degree square with a 2 x 2 hole in the middle
+const outer: Position[] = [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]];
+const hole: Position[] = [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]];
+const squareWithHole = { type: 'Polygon', coordinates: [outer, hole] };
+
+describe('normalizeBoundaries', () => {
+    it('turns a Polygon with closed rings into a MultiPolygon', () => {
+        assert.deepEqual(normalizeBoundaries(squareWithHole), {
+            type: 'MultiPolygon',
+            coordinates: [[outer, hole]]
+        });
+    });
+
+    it('collects the polygons of a FeatureCollection and drops altitudes', () => {
+        const geometry = normalizeBoundaries({
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', geometry: { type: 'Polygon', coordinates: [outer.map(([lng, lat]) => [lng, lat, 120])] } },
+                { type: 'Feature', geometry: { type: 'MultiPolygon', coordinates: [[hole]] } }
+            ]
+        });
+
+        assert.deepEqual(geometry.coordinates, [[outer], [hole]]);
+    });
+
+    it('rejects an unclosed outer ring', () => {
+        assert.throws(
+            () => normalizeBoundaries({ type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10]]] }),
+            (error: unknown) => error instanceof GeoJsonError && /outer ring is not closed/.test(error.message)
+        );
+    });
+
+    it('rejects an unclosed hole', () => {
+        assert.throws(
+            () => normalizeBoundaries({ type: 'Polygon', coordinates: [outer, hole.slice(0, 4).concat([[5, 5]])] }),
+            (error: unknown) => error instanceof GeoJsonError && /hole 1 is not closed/.test(error.message)
+        );
+    });
+
+    it('rejects rings with too few or out-of-range positions', () => {
+        assert.throws(() => normalizeBoundaries({ type: 'Polygon', coordinates: [[[0, 0], [1, 1], [0, 0]]] }), GeoJsonError);
+        assert.throws(() => normalizeBoundaries({ type: 'Polygon', coordinates: [[[0, 0], [200, 0], [10, 10], [0, 0]]] }), GeoJsonError);
+    });
+
+    it('rejects other GeoJSON types', () => {
+        assert.throws(() => normalizeBoundaries({ type: 'Point', coordinates: [0, 0] }), GeoJsonError);
+        assert.throws(() => normalizeBoundaries(null), GeoJsonError);
+    });
+});
+
+describe('geometryContains', () => {
+    const geometry = normalizeBoundaries(squareWithHole);
+
+    it('contains points inside the outer ring', () => {
+        assert.equal(geometryContains(geometry, 2, 2), true);
+    });
+
+    it('does not contain points outside the outer ring', () => {
+        assert.equal(geometryContains(geometry, 11, 5), false);
+    });
+
+    it('does not contain points in a hole', () => {
+        assert.equal(geometryContains(geometry, 5, 5), false);
+    });
+
+    it('contains points in any polygon of a MultiPolygon', () => {
+        const islands = normalizeBoundaries({ type: 'MultiPolygon', coordinates: [[outer], [outer.map(([lng, lat]) => [lng + 20, lat])]] });
+        assert.equal(geometryContains(islands, 25, 5), true);
+        assert.equal(geometryContains(islands, 15, 5), false);
+    });
+});
+
+describe('approximateArea', () => {
+    it('subtracts holes from the outer ring', () => {
+        assert.equal(approximateArea(normalizeBoundaries(squareWithHole)), 96);
+    });
+
+    it('does not depend on the winding order', () => {
+        assert.equal(approximateArea(normalizeBoundaries({ type: 'Polygon', coordinates: [[...outer].reverse()] })), 100);
+    });
+});
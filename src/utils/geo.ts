@@ -0,0 +1,158 @@
+/**
+ * Minimal GeoJSON support for territory boundaries: validation and point-in-polygon tests.
+ * Coordinates are [longitude, latitude] as in the GeoJSON spec; the plane is treated as flat,
+ * which is accurate enough at territory scale.
+ */
+
+export type Position = [number, number];
+// The outer ring first, then any holes
+export type PolygonCoordinates = Position[][];
+
+export interface BoundaryGeometry {
+    type: 'MultiPolygon';
+    coordinates: PolygonCoordinates[];
+}
+
+export interface BoundingBox {
+    minLng: number;
+    minLat: number;
+    maxLng: number;
+    maxLat: number;
+}
+
+/**
+ * Raised when uploaded boundaries are not usable GeoJSON.
+ */
+export class GeoJsonError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GeoJsonError';
+    }
+}
+
+const isPosition = (value: unknown): value is Position =>
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    value[0] >= -180 && value[0] <= 180 &&
+    value[1] >= -90 && value[1] <= 90;
+
+const validatePolygon = (coordinates: unknown, label: string): PolygonCoordinates => {
+    if (!Array.isArray(coordinates) || coordinates.length === 0) {
+        throw new GeoJsonError(`${label} must have at least one ring`);
+    }
+
+    return coordinates.map((ring, index) => {
+        const ringLabel = index === 0 ? `${label} outer ring` : `${label} hole ${index}`;
+        if (!Array.isArray(ring) || ring.length < 4) {
+            throw new GeoJsonError(`${ringLabel} needs at least 4 positions`);
+        }
+        if (!ring.every(isPosition)) {
+            throw new GeoJsonError(`${ringLabel} has a position that is not [longitude, latitude] within range`);
+        }
+        const first = ring[0];
+        const last = ring[ring.length - 1];
+        if (first[0] !== last[0] || first[1] !== last[1]) {
+            throw new GeoJsonError(`${ringLabel} is not closed; its last position must equal the first`);
+        }
+        // Altitudes and other extra values are dropped
+        return ring.map((position: Position) => [position[0], position[1]] as Position);
+    });
+};
+
+/**
+ * Accepts a Polygon, a MultiPolygon, a Feature with either, or a FeatureCollection of such features,
+ * and returns a single MultiPolygon.
+ * @throws GeoJsonError if the input is anything else or a ring is malformed.
+ */
+export function normalizeBoundaries(input: unknown): BoundaryGeometry {
+    const polygons: PolygonCoordinates[] = [];
+
+    const collect = (value: any, label: string) => {
+        if (typeof value !== 'object' || value === null) {
+            throw new GeoJsonError(`${label} must be a GeoJSON object`);
+        }
+
+        switch (value.type) {
+            case 'Polygon':
+                polygons.push(validatePolygon(value.coordinates, label));
+                break;
+            case 'MultiPolygon':
+                if (!Array.isArray(value.coordinates) || value.coordinates.length === 0) {
+                    throw new GeoJsonError(`${label} must have at least one polygon`);
+                }
+                value.coordinates.forEach((polygon: unknown, index: number) =>
+                    polygons.push(validatePolygon(polygon, `${label} polygon ${index + 1}`)));
+                break;
+            case 'Feature':
+                collect(value.geometry, `${label} geometry`);
+                break;
+            case 'FeatureCollection':
+                if (!Array.isArray(value.features) || value.features.length === 0) {
+                    throw new GeoJsonError(`${label} must have at least one feature`);
+                }
+                value.features.forEach((feature: unknown, index: number) => collect(feature, `Feature ${index + 1}`));
+                break;
+            default:
+                throw new GeoJsonError(`${label} must be a Polygon, MultiPolygon, Feature or FeatureCollection`);
+        }
+    };
+
+    collect(input, 'Boundaries');
+    return { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Ray casting: whether the point lies inside the ring. Points exactly on an edge may go either way.
+ */
+const ringContains = (ring: Position[], lng: number, lat: number): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Whether the point lies inside any polygon of the geometry (and not in one of its holes).
+ */
+export function geometryContains(geometry: BoundaryGeometry, lng: number, lat: number): boolean {
+    return geometry.coordinates.some(([outer, ...holes]) =>
+        ringContains(outer, lng, lat) && !holes.some(hole => ringContains(hole, lng, lat)));
+}
+
+export function boundingBox(geometry: BoundaryGeometry): BoundingBox {
+    const box = { minLng: Infinity, minLat: Infinity, maxLng: -Infinity, maxLat: -Infinity };
+    for (const [outer] of geometry.coordinates) {
+        for (const [lng, lat] of outer) {
+            box.minLng = Math.min(box.minLng, lng);
+            box.minLat = Math.min(box.minLat, lat);
+            box.maxLng = Math.max(box.maxLng, lng);
+            box.maxLat = Math.max(box.maxLat, lat);
+        }
+    }
+    return box;
+}
+
+export const boxContains = (box: BoundingBox, lng: number, lat: number) =>
+    lng >= box.minLng && lng <= box.maxLng && lat >= box.minLat && lat <= box.maxLat;
+
+/**
+ * Planar area of the geometry in square degrees; only used to rank overlapping territories.
+ */
+export function approximateArea(geometry: BoundaryGeometry): number {
+    const ringArea = (ring: Position[]) => {
+        let sum = 0;
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            sum += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+        }
+        return Math.abs(sum / 2);
+    };
+
+    return geometry.coordinates.reduce((total, [outer, ...holes]) =>
+        total + ringArea(outer) - holes.reduce((holeTotal, hole) => holeTotal + ringArea(hole), 0), 0);
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { configureTrustProxy, readTrustProxyHops } from './trustProxy.js';
+
+/**
+ * Starts an app that echoes req.ip, sends one request with the given X-Forwarded-For header and
+ * returns the address the app saw.
+ */
+async function ipSeenBehind(hops: number, forwardedFor?: string): Promise<string | undefined> {
+    const app = express();
+    configureTrustProxy(app, hops);
+    app.get('/ip', (req, res) => res.json({ ip: req.ip }));
+
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    try {
+        const { port } = server.address() as AddressInfo;
+        const response = await fetch(`http://127.0.0.1:${port}/ip`, {
+            headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {}
+        });
+        return ((await response.json()) as { ip?: string }).ip;
+    } finally {
+        server.close();
+    }
+}
+
+describe('readTrustProxyHops', () => {
+    it('defaults to one hop on Heroku and none elsewhere', () => {
+        assert.equal(readTrustProxyHops({ DYNO: 'web.1' }), 1);
+        assert.equal(readTrustProxyHops({}), 0);
+    });
+
+    it('reads TRUST_PROXY_HOPS and ignores invalid values', () => {
+        assert.equal(readTrustProxyHops({ TRUST_PROXY_HOPS: '2', DYNO: 'web.1' }), 2);
+        assert.equal(readTrustProxyHops({ TRUST_PROXY_HOPS: '0', DYNO: 'web.1' }), 0);
+        assert.equal(readTrustProxyHops({ TRUST_PROXY_HOPS: '-1', DYNO: 'web.1' }), 1);
+        assert.equal(readTrustProxyHops({ TRUST_PROXY_HOPS: 'yes' }), 0);
+    });
+});
+
+describe('configureTrustProxy', () => {
+    it('takes the client address from X-Forwarded-For behind one proxy', async () => {
+        assert.equal(await ipSeenBehind(1, '203.0.113.7'), '203.0.113.7');
+    });
+
+    it('ignores addresses the client prepended to X-Forwarded-For', async () => {
+        // The proxy appends the real client address; anything before it came from the client
+        assert.equal(await ipSeenBehind(1, '198.51.100.1, 203.0.113.7'), '203.0.113.7');
+    });
+
+    it('uses the socket address when no proxy is trusted', async () => {
+        assert.equal(await ipSeenBehind(0, '203.0.113.7'), '127.0.0.1');
+    });
+});
@@ -0,0 +1,32 @@
+import type { Express } from 'express';
+
+/**
+ * How many reverse proxies sit in front of the app, from TRUST_PROXY_HOPS. Express then takes
+ * req.ip from X-Forwarded-For, skipping that many entries from the right, so a client cannot spoof
+ * its address by sending the header itself. Defaults to 1 on Heroku (its router is one hop) and to
+ * 0 elsewhere, where req.ip is the socket address.
+ */
+export function readTrustProxyHops(env: NodeJS.ProcessEnv = process.env): number {
+    const fallback = env.DYNO ? 1 : 0;
+    if (env.TRUST_PROXY_HOPS === undefined || env.TRUST_PROXY_HOPS === '') {
+        return fallback;
+    }
+
+    const hops = Number(env.TRUST_PROXY_HOPS);
+    if (!Number.isInteger(hops) || hops < 0) {
+        console.warn(`⚠️ Ignoring invalid TRUST_PROXY_HOPS "${env.TRUST_PROXY_HOPS}"; using ${fallback}`);
+        return fallback;
+    }
+    return hops;
+}
+
+/**
+ * Applies the hop count to the app. Login throttling, login history and sessions all key on req.ip,
+ * so behind a proxy without this every client shares the proxy's address.
+ */
+export function configureTrustProxy(app: Express, hops: number = readTrustProxyHops()): void {
+    app.set('trust proxy', hops);
+    if (hops > 0) {
+        console.log(`🌐 Trusting ${hops} proxy hop(s) for client IP addresses`);
+    }
+}
@@ -0,0 +1,17 @@
+-- DropForeignKey
+ALTER TABLE "chemist_tasks" DROP CONSTRAINT IF EXISTS "chemist_tasks_territory_transfer_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "doctor_tasks" DROP CONSTRAINT IF EXISTS "doctor_tasks_territory_transfer_id_fkey";
+
+-- AlterTable
+ALTER TABLE "chemist_tasks" DROP COLUMN IF EXISTS "territory_transfer_id";
+
+-- AlterTable
+ALTER TABLE "doctor_tasks" DROP COLUMN IF EXISTS "territory_transfer_id";
+
+-- DropTable
+DROP TABLE IF EXISTS "territory_transfers";
+
+-- DropEnum
+DROP TYPE IF EXISTS "TransferTaskAction";
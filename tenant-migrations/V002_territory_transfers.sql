@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "TransferTaskAction" AS ENUM ('FLAG', 'REASSIGN');
+
+-- AlterTable
+ALTER TABLE "doctor_tasks" ADD COLUMN     "territory_transfer_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "chemist_tasks" ADD COLUMN     "territory_transfer_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "territory_transfers" (
+    "id" TEXT NOT NULL,
+    "employee_id" TEXT NOT NULL,
+    "from_territory_id" TEXT NOT NULL,
+    "to_territory_id" TEXT NOT NULL,
+    "effective_date" DATE NOT NULL,
+    "task_action" "TransferTaskAction" NOT NULL,
+    "reassigned_to_id" TEXT,
+    "reason" TEXT,
+    "requested_by_id" TEXT,
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "territory_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "territory_transfers_employee_id_effective_date_idx" ON "territory_transfers"("employee_id", "effective_date");
+
+-- AddForeignKey
+ALTER TABLE "territory_transfers" ADD CONSTRAINT "territory_transfers_employee_id_fkey" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_transfers" ADD CONSTRAINT "territory_transfers_from_territory_id_fkey" FOREIGN KEY ("from_territory_id") REFERENCES "territories"("territory_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_transfers" ADD CONSTRAINT "territory_transfers_to_territory_id_fkey" FOREIGN KEY ("to_territory_id") REFERENCES "territories"("territory_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_transfers" ADD CONSTRAINT "territory_transfers_reassigned_to_id_fkey" FOREIGN KEY ("reassigned_to_id") REFERENCES "employees"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "territory_transfers" ADD CONSTRAINT "territory_transfers_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "employees"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "doctor_tasks" ADD CONSTRAINT "doctor_tasks_territory_transfer_id_fkey" FOREIGN KEY ("territory_transfer_id") REFERENCES "territory_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemist_tasks" ADD CONSTRAINT "chemist_tasks_territory_transfer_id_fkey" FOREIGN KEY ("territory_transfer_id") REFERENCES "territory_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;